@@ -0,0 +1,35 @@
+/**
+ * Categories API
+ *
+ * Lists every category in NEW_CATEGORIES order with its icon, product
+ * count and subcategories (see data/taxonomy.json).
+ *
+ * Route: GET /api/categories
+ */
+
+import { CategoryListResponse, cachedJson } from "@/lib/api";
+import { getCategoryIcon, getCategoryUrl } from "@/lib/categories";
+import {
+  getAllCategories,
+  getProductsByCategory,
+  getProductsBySubcategory,
+  getSubcategories,
+} from "@/lib/products";
+
+export async function GET(request: Request) {
+  const body: CategoryListResponse = {
+    items: getAllCategories().map((name) => ({
+      name,
+      icon: getCategoryIcon(name),
+      productCount: getProductsByCategory(name).length,
+      url: getCategoryUrl(name),
+      subcategories: getSubcategories(name).map((subcategory) => ({
+        name: subcategory,
+        productCount: getProductsBySubcategory(name, subcategory).length,
+        url: getCategoryUrl(name, subcategory),
+      })),
+    })),
+  };
+
+  return cachedJson(request, body);
+}
@@ -0,0 +1,65 @@
+/**
+ * Category Overrides API (development only)
+ *
+ * Saves manual category decisions from the /dev/categories triage page to
+ * data/category-overrides.json (see lib/category-triage.ts). Responds 404
+ * outside the dev server.
+ *
+ * Routes:
+ * - POST /api/dev/category-overrides  { id, category }  (category null = keep uncategorized)
+ * - DELETE /api/dev/category-overrides?id=123            (undo a decision)
+ */
+
+import { errorJson } from "@/lib/api";
+import {
+  clearCategoryDecision,
+  isTriageEnabled,
+  saveCategoryDecision,
+} from "@/lib/category-triage";
+
+/**
+ * 404 used when triage is disabled, so the route looks absent in production.
+ */
+function notAvailable(): Response {
+  return errorJson(404, "not_found", "Category triage is only available in development.");
+}
+
+export async function POST(request: Request) {
+  if (!isTriageEnabled()) {
+    return notAvailable();
+  }
+
+  const body = await request.json().catch(() => null);
+  if (
+    !body ||
+    !Number.isSafeInteger(body.id) ||
+    (body.category !== null && typeof body.category !== "string")
+  ) {
+    return errorJson(
+      400,
+      "invalid_parameter",
+      "Expected a JSON body of { id: number, category: string | null }."
+    );
+  }
+
+  try {
+    saveCategoryDecision(body.id, body.category);
+  } catch (error) {
+    return errorJson(400, "invalid_parameter", (error as Error).message);
+  }
+  return Response.json({ id: body.id, decision: body.category });
+}
+
+export async function DELETE(request: Request) {
+  if (!isTriageEnabled()) {
+    return notAvailable();
+  }
+
+  const id = new URL(request.url).searchParams.get("id");
+  if (id === null || !/^\d+$/.test(id)) {
+    return errorJson(400, "invalid_parameter", "id must be a product ID.");
+  }
+
+  clearCategoryDecision(Number(id));
+  return Response.json({ id: Number(id), decision: null });
+}
@@ -0,0 +1,36 @@
+/**
+ * Product Detail API
+ *
+ * Returns a single product by slug, with related products.
+ * Retired slugs 301 to the current one (see next.config.ts).
+ *
+ * Route: GET /api/products/[slug]
+ */
+
+import { ProductDetailResponse, cachedJson, errorJson, toApiProduct } from "@/lib/api";
+import { getProductBySlug, getRelatedProducts } from "@/lib/products";
+
+/**
+ * Route context with dynamic route parameter.
+ */
+interface ProductRouteContext {
+  params: Promise<{
+    slug: string;
+  }>;
+}
+
+export async function GET(request: Request, { params }: ProductRouteContext) {
+  const { slug } = await params;
+
+  const product = getProductBySlug(slug);
+  if (!product) {
+    return errorJson(404, "not_found", `No product with slug "${slug}".`);
+  }
+
+  const body: ProductDetailResponse = {
+    item: toApiProduct(product),
+    related: getRelatedProducts(product, 6).map((related) => toApiProduct(related)),
+  };
+
+  return cachedJson(request, body);
+}
@@ -0,0 +1,179 @@
+/**
+ * Products API
+ *
+ * Lists products with the same category/search/sort semantics as the
+ * /products page, plus page-based pagination.
+ *
+ * Query parameters:
+ * - ids: comma-separated product IDs, returned in that order (unknown IDs are
+ *   skipped, so compare `total` with the number requested). Old IDs resolve
+ *   to the current product and are listed in `redirectedIds`
+ * - category: one of NEW_CATEGORIES (default: all)
+ * - subcategory: one of the category's subcategories (requires category)
+ * - brand: a brand name from getAllBrands() (default: all)
+ * - q: typo-tolerant name search (ranked by relevance with the default sort)
+ * - minPrice / maxPrice: inclusive price range in the catalog's source
+ *   currency (excludes unpriced products)
+ * - sort: "default" | "price-asc" | "price-desc" (unpriced products last)
+ * - page: 1-based page number (default: 1)
+ * - pageSize: products per page (default: 20, max: 100)
+ *
+ * Route: GET /api/products
+ */
+
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  ProductListResponse,
+  cachedJson,
+  errorJson,
+  toApiProduct,
+} from "@/lib/api";
+import {
+  NEW_CATEGORIES,
+  ProductSortOption,
+  getAllBrands,
+  getSubcategories,
+  queryProducts,
+  resolveProductId,
+} from "@/lib/products";
+
+const SORT_OPTIONS: ProductSortOption[] = ["default", "price-asc", "price-desc"];
+
+/**
+ * Parses a positive integer query parameter.
+ * Returns the fallback when absent, or null when present but invalid.
+ */
+function parsePositiveInt(value: string | null, fallback: number): number | null {
+  if (value === null) return fallback;
+  if (!/^\d+$/.test(value)) return null;
+
+  const parsed = parseInt(value, 10);
+  return parsed > 0 ? parsed : null;
+}
+
+/**
+ * Parses a non-negative price query parameter.
+ * Returns undefined when absent, or null when present but invalid.
+ */
+function parsePrice(value: string | null): number | undefined | null {
+  if (value === null) return undefined;
+  if (!/^\d+(\.\d+)?$/.test(value)) return null;
+
+  return parseFloat(value);
+}
+
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+
+  const idsParam = params.get("ids");
+  if (idsParam !== null && !/^\d+(,\d+)*$/.test(idsParam)) {
+    return errorJson(
+      400,
+      "invalid_parameter",
+      "ids must be a comma-separated list of product IDs."
+    );
+  }
+  const ids = idsParam?.split(",").map((id) => parseInt(id, 10));
+  const redirectedIds = Object.fromEntries(
+    (ids ?? [])
+      .filter((id) => resolveProductId(id) !== id)
+      .map((id) => [id, resolveProductId(id)])
+  );
+
+  const category = params.get("category") ?? "all";
+  if (
+    category !== "all" &&
+    !(NEW_CATEGORIES as readonly string[]).includes(category)
+  ) {
+    return errorJson(
+      400,
+      "invalid_parameter",
+      `Unknown category "${category}". Expected one of: ${NEW_CATEGORIES.join(", ")}.`
+    );
+  }
+
+  const subcategory = params.get("subcategory") ?? undefined;
+  if (subcategory !== undefined && !getSubcategories(category).includes(subcategory)) {
+    const subcategories = getSubcategories(category);
+    return errorJson(
+      400,
+      "invalid_parameter",
+      subcategories.length > 0
+        ? `Unknown subcategory "${subcategory}" for ${category}. Expected one of: ${subcategories.join(", ")}.`
+        : `Unknown subcategory "${subcategory}". Pass a category that has subcategories.`
+    );
+  }
+
+  const brand = params.get("brand") ?? undefined;
+  if (brand !== undefined && !getAllBrands().includes(brand)) {
+    return errorJson(400, "invalid_parameter", `Unknown brand "${brand}".`);
+  }
+
+  const sort = (params.get("sort") ?? "default") as ProductSortOption;
+  if (!SORT_OPTIONS.includes(sort)) {
+    return errorJson(
+      400,
+      "invalid_parameter",
+      `Unknown sort "${sort}". Expected one of: ${SORT_OPTIONS.join(", ")}.`
+    );
+  }
+
+  const minPrice = parsePrice(params.get("minPrice"));
+  const maxPrice = parsePrice(params.get("maxPrice"));
+  if (minPrice === null || maxPrice === null) {
+    return errorJson(
+      400,
+      "invalid_parameter",
+      "minPrice and maxPrice must be non-negative numbers."
+    );
+  }
+  if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+    return errorJson(
+      400,
+      "invalid_parameter",
+      "minPrice must not be greater than maxPrice."
+    );
+  }
+
+  const page = parsePositiveInt(params.get("page"), 1);
+  if (page === null) {
+    return errorJson(400, "invalid_parameter", "page must be a positive integer.");
+  }
+
+  const pageSize = parsePositiveInt(params.get("pageSize"), DEFAULT_PAGE_SIZE);
+  if (pageSize === null || pageSize > MAX_PAGE_SIZE) {
+    return errorJson(
+      400,
+      "invalid_parameter",
+      `pageSize must be an integer between 1 and ${MAX_PAGE_SIZE}.`
+    );
+  }
+
+  const { products, total, highlights, priceHistogram } = queryProducts({
+    ids,
+    category,
+    subcategory,
+    brand,
+    search: params.get("q") ?? "",
+    minPrice,
+    maxPrice,
+    sort,
+    offset: (page - 1) * pageSize,
+    limit: pageSize,
+  });
+
+  const body: ProductListResponse = {
+    items: products.map((product) =>
+      toApiProduct(product, highlights[product.id])
+    ),
+    total,
+    page,
+    pageSize,
+    totalPages: Math.ceil(total / pageSize),
+    priceHistogram,
+    ...(Object.keys(redirectedIds).length > 0 && { redirectedIds }),
+  };
+
+  return cachedJson(request, body);
+}
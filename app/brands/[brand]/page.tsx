@@ -0,0 +1,132 @@
+/**
+ * Brand Page
+ *
+ * Lists every product from a single brand.
+ * Server component, statically generated for each brand in getAllBrands().
+ *
+ * Route: /brands/[brand]
+ */
+
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import Link from "next/link";
+
+/* Component imports */
+import Navbar from "@/components/Navbar";
+import ProductGrid from "@/components/ProductGrid";
+import Footer from "@/components/Footer";
+
+/* Data imports */
+import {
+  getAllBrands,
+  getBrandBySlug,
+  getBrandSlug,
+  getProductsByBrand,
+} from "@/lib/products";
+
+/**
+ * Page props with dynamic route parameter.
+ */
+interface BrandPageProps {
+  params: Promise<{
+    brand: string;
+  }>;
+}
+
+/**
+ * Pre-render a page for every brand.
+ */
+export function generateStaticParams() {
+  return getAllBrands().map((brand) => ({ brand: getBrandSlug(brand) }));
+}
+
+/**
+ * Per-brand page title and description.
+ */
+export async function generateMetadata({
+  params,
+}: BrandPageProps): Promise<Metadata> {
+  const brand = getBrandBySlug((await params).brand);
+  if (!brand) return {};
+
+  return {
+    title: brand,
+    description: `Browse ${getProductsByBrand(brand).length} hand-picked ${brand} finds on ZAYFINDS.`,
+  };
+}
+
+/**
+ * BrandPage displays all products for a brand.
+ */
+export default async function BrandPage({ params }: BrandPageProps) {
+  const { brand: brandSlug } = await params;
+
+  /* Resolve brand from slug */
+  const brand = getBrandBySlug(brandSlug);
+
+  /* Handle not found */
+  if (!brand) {
+    notFound();
+  }
+
+  const products = getProductsByBrand(brand);
+
+  return (
+    <>
+      <Navbar />
+
+      <main className="min-h-screen bg-surface-base">
+        {/* Breadcrumb */}
+        <div className="px-6 md:px-12 lg:px-16 py-4">
+          <nav className="text-meta text-text-muted">
+            <Link href="/" className="hover:text-text-primary transition-colors">
+              HOME
+            </Link>
+            <span className="mx-2 text-text-subtle">•</span>
+            <Link href="/products" className="hover:text-text-primary transition-colors">
+              PRODUCTS
+            </Link>
+            <span className="mx-2 text-text-subtle">•</span>
+            <span className="text-text-primary">{brand.toUpperCase()}</span>
+          </nav>
+        </div>
+
+        {/* Brand header */}
+        <header
+          className="
+            px-6 md:px-12 lg:px-16
+            py-8
+            flex flex-col sm:flex-row
+            sm:items-end
+            justify-between
+            gap-4
+            border-b border-border-default
+          "
+        >
+          <div>
+            <span className="text-meta text-text-muted mb-2 block">Brand</span>
+            <h1 className="heading-hero">{brand}</h1>
+          </div>
+
+          <Link
+            href={`/products?brand=${encodeURIComponent(brand)}`}
+            className="btn-secondary"
+          >
+            Filter &amp; sort
+          </Link>
+        </header>
+
+        {/* Product count & grid */}
+        <div className="px-6 md:px-12 lg:px-16 py-8">
+          <p className="text-meta text-text-muted mb-6">
+            {products.length} {products.length === 1 ? "PRODUCT" : "PRODUCTS"}
+          </p>
+
+          <ProductGrid products={products} />
+        </div>
+      </main>
+
+      <Footer />
+    </>
+  );
+}
@@ -0,0 +1,96 @@
+/**
+ * Category Open Graph Image
+ *
+ * The link preview card for a category page, generated at build time:
+ * category name, product count and price range in the site's dark style.
+ * Text only: emoji would be fetched from a CDN while rendering.
+ *
+ * Route: /category/[slug]/opengraph-image (also used as the Twitter image)
+ */
+
+import { ImageResponse } from "next/og";
+
+/* Data imports */
+import { NEW_CATEGORIES, getCategoryBySlug, getCategorySlug } from "@/lib/categories";
+import { SOURCE_CURRENCY, formatPrice } from "@/lib/currency";
+import { getPriceSummary, getProductsByCategory } from "@/lib/products";
+
+/**
+ * Image size, matching the site-wide /og-image.png.
+ */
+export const size = { width: 1200, height: 630 };
+
+export const contentType = "image/png";
+
+export const alt = "ZAYFINDS category";
+
+/**
+ * Colors from app/globals.css (the image can't use the CSS variables).
+ */
+const COLORS = {
+  background: "#0a0a0a",
+  text: "#f5f5f5",
+  muted: "#888888",
+};
+
+/**
+ * Image props with dynamic route parameter.
+ */
+interface CategoryImageProps {
+  params: Promise<{
+    slug: string;
+  }>;
+}
+
+/**
+ * Pre-render an image for every category.
+ */
+export function generateStaticParams() {
+  return NEW_CATEGORIES.map((category) => ({ slug: getCategorySlug(category) }));
+}
+
+/**
+ * CategoryImage renders the preview card.
+ */
+export default async function CategoryImage({ params }: CategoryImageProps) {
+  const category = getCategoryBySlug((await params).slug) ?? "Finds";
+  const products = getProductsByCategory(category);
+  const prices = getPriceSummary(products);
+
+  const details = [
+    `${products.length} ${products.length === 1 ? "PRODUCT" : "PRODUCTS"}`,
+    prices &&
+      `${formatPrice(prices.min, SOURCE_CURRENCY)} – ${formatPrice(prices.max, SOURCE_CURRENCY)}`,
+  ].filter(Boolean);
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          padding: 80,
+          background: COLORS.background,
+          color: COLORS.text,
+        }}
+      >
+        <div style={{ fontSize: 32, letterSpacing: 8, color: COLORS.muted }}>ZAYFINDS</div>
+
+        <div style={{ display: "flex", flexDirection: "column" }}>
+          <div style={{ fontSize: 28, letterSpacing: 4, color: COLORS.muted }}>CATEGORY</div>
+          <div style={{ fontSize: 120, textTransform: "uppercase", lineHeight: 1.1 }}>
+            {category}
+          </div>
+        </div>
+
+        <div style={{ fontSize: 32, letterSpacing: 4, color: COLORS.muted }}>
+          {details.join("  ·  ")}
+        </div>
+      </div>
+    ),
+    size
+  );
+}
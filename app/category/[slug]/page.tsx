@@ -0,0 +1,273 @@
+/**
+ * Category Page
+ *
+ * Landing page for one category: product count, price summary,
+ * subcategories and the top items, with its own title, description,
+ * canonical URL and OG image (./opengraph-image.tsx). Search engines only
+ * see /products?category=... as one client-filtered page, so these are the
+ * indexable entry points; "View all" leads to the filterable listing.
+ *
+ * Server component, statically generated for every category in
+ * NEW_CATEGORIES.
+ *
+ * Route: /category/[slug]
+ */
+
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import Link from "next/link";
+
+/* Component imports */
+import Navbar from "@/components/Navbar";
+import ProductGrid from "@/components/ProductGrid";
+import Price from "@/components/Price";
+import Footer from "@/components/Footer";
+
+/* Data imports */
+import {
+  NEW_CATEGORIES,
+  getCategoryBySlug,
+  getCategoryIcon,
+  getCategoryListingUrl,
+  getCategorySlug,
+  getCategoryUrl,
+  getSubcategories,
+} from "@/lib/categories";
+import { SOURCE_CURRENCY, formatPrice } from "@/lib/currency";
+import {
+  getPriceSummary,
+  getProductsByCategory,
+  getProductsBySubcategory,
+} from "@/lib/products";
+
+/** Products shown on the page, in catalog order (like the homepage's trending row) */
+const TOP_ITEM_COUNT = 12;
+
+/**
+ * Page props with dynamic route parameter.
+ */
+interface CategoryPageProps {
+  params: Promise<{
+    slug: string;
+  }>;
+}
+
+/**
+ * Pre-render a page for every category.
+ */
+export function generateStaticParams() {
+  return NEW_CATEGORIES.map((category) => ({ slug: getCategorySlug(category) }));
+}
+
+/**
+ * Describe a category for search results and link previews, e.g.
+ * "Browse 354 hand-picked shoes finds from $12.00 to $210.00 on ZAYFINDS."
+ */
+function describeCategory(category: string): string {
+  const products = getProductsByCategory(category);
+  const prices = getPriceSummary(products);
+  const range = prices
+    ? ` from ${formatPrice(prices.min, SOURCE_CURRENCY)} to ${formatPrice(prices.max, SOURCE_CURRENCY)}`
+    : "";
+
+  return `Browse ${products.length} hand-picked ${category.toLowerCase()} finds${range} on ZAYFINDS.`;
+}
+
+/**
+ * Per-category title, description, canonical URL and link previews.
+ * Categories without products yet are kept out of the index.
+ */
+export async function generateMetadata({
+  params,
+}: CategoryPageProps): Promise<Metadata> {
+  const category = getCategoryBySlug((await params).slug);
+  if (!category) return {};
+
+  const title = `${category} Finds`;
+  const description = describeCategory(category);
+  const url = getCategoryUrl(category);
+
+  return {
+    title,
+    description,
+    alternates: { canonical: url },
+    openGraph: {
+      type: "website",
+      url,
+      siteName: "ZAYFINDS",
+      title,
+      description,
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      creator: "@zayfinds",
+    },
+    robots: { index: getProductsByCategory(category).length > 0, follow: true },
+  };
+}
+
+/**
+ * CategoryPage displays a category's summary and top items.
+ */
+export default async function CategoryPage({ params }: CategoryPageProps) {
+  const { slug } = await params;
+
+  /* Resolve category from slug */
+  const category = getCategoryBySlug(slug);
+
+  /* Handle not found */
+  if (!category) {
+    notFound();
+  }
+
+  const products = getProductsByCategory(category);
+  const prices = getPriceSummary(products);
+  const subcategories = getSubcategories(category)
+    .map((subcategory) => ({
+      name: subcategory,
+      count: getProductsBySubcategory(category, subcategory).length,
+    }))
+    .filter((subcategory) => subcategory.count > 0);
+  const topItems = products.slice(0, TOP_ITEM_COUNT);
+
+  return (
+    <>
+      <Navbar />
+
+      <main className="min-h-screen bg-surface-base">
+        {/* Breadcrumb */}
+        <div className="px-6 md:px-12 lg:px-16 py-4">
+          <nav className="text-meta text-text-muted">
+            <Link href="/" className="hover:text-text-primary transition-colors">
+              HOME
+            </Link>
+            <span className="mx-2 text-text-subtle">•</span>
+            <Link href="/products" className="hover:text-text-primary transition-colors">
+              PRODUCTS
+            </Link>
+            <span className="mx-2 text-text-subtle">•</span>
+            <span className="text-text-primary">{category.toUpperCase()}</span>
+          </nav>
+        </div>
+
+        {/* Category header */}
+        <header
+          className="
+            px-6 md:px-12 lg:px-16
+            py-8
+            flex flex-col sm:flex-row
+            sm:items-end
+            justify-between
+            gap-4
+            border-b border-border-default
+          "
+        >
+          <div>
+            <span className="text-meta text-text-muted mb-2 block">Category</span>
+            <h1 className="heading-hero">
+              <span aria-hidden="true" className="mr-3">
+                {getCategoryIcon(category)}
+              </span>
+              {category}
+            </h1>
+          </div>
+
+          {products.length > 0 && (
+            <Link href={getCategoryListingUrl(category)} className="btn-secondary">
+              Filter &amp; sort
+            </Link>
+          )}
+        </header>
+
+        {/* Count & price summary */}
+        <dl
+          className="
+            px-6 md:px-12 lg:px-16
+            py-6
+            grid grid-cols-2 sm:grid-cols-4
+            gap-6
+            border-b border-border-default
+          "
+        >
+          <div>
+            <dt className="text-meta text-text-muted mb-1">Products</dt>
+            <dd className="font-mono text-lg text-text-primary">{products.length}</dd>
+          </div>
+          <div>
+            <dt className="text-meta text-text-muted mb-1">From</dt>
+            <dd className="font-mono text-lg text-text-primary">
+              <Price amount={prices?.min ?? null} fallback="—" />
+            </dd>
+          </div>
+          <div>
+            <dt className="text-meta text-text-muted mb-1">Median</dt>
+            <dd className="font-mono text-lg text-text-primary">
+              <Price amount={prices?.median ?? null} fallback="—" />
+            </dd>
+          </div>
+          <div>
+            <dt className="text-meta text-text-muted mb-1">Up to</dt>
+            <dd className="font-mono text-lg text-text-primary">
+              <Price amount={prices?.max ?? null} fallback="—" />
+            </dd>
+          </div>
+        </dl>
+
+        {/* Subcategories */}
+        {subcategories.length > 0 && (
+          <nav
+            aria-label={`${category} subcategories`}
+            className="
+              px-6 md:px-12 lg:px-16
+              py-6
+              flex flex-wrap gap-2
+              border-b border-border-default
+            "
+          >
+            {subcategories.map((subcategory) => (
+              <Link
+                key={subcategory.name}
+                href={getCategoryUrl(category, subcategory.name)}
+                className="btn-secondary btn-sm"
+              >
+                {subcategory.name}
+                <span className="ml-2 text-text-muted">{subcategory.count}</span>
+              </Link>
+            ))}
+          </nav>
+        )}
+
+        {/* Top items */}
+        <section className="px-6 md:px-12 lg:px-16 py-8">
+          {topItems.length > 0 ? (
+            <>
+              <h2 className="heading-section mb-6">Top {category}</h2>
+
+              <ProductGrid products={topItems} />
+
+              {products.length > topItems.length && (
+                <div className="mt-10 flex justify-center">
+                  <Link href={getCategoryListingUrl(category)} className="btn-primary">
+                    View all {products.length} {category}
+                  </Link>
+                </div>
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-text-muted">
+              No finds in this category yet.{" "}
+              <Link href="/products" className="text-text-primary hover:text-text-secondary transition-colors">
+                Browse every product
+              </Link>
+              .
+            </p>
+          )}
+        </section>
+      </main>
+
+      <Footer />
+    </>
+  );
+}
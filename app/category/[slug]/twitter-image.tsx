@@ -0,0 +1,9 @@
+/**
+ * Category Twitter Image
+ *
+ * Same card as the Open Graph image.
+ *
+ * Route: /category/[slug]/twitter-image
+ */
+
+export { default, size, contentType, alt, generateStaticParams } from "./opengraph-image";
@@ -0,0 +1,345 @@
+/**
+ * Compare Page
+ *
+ * Shows up to four products side by side in aligned rows: image, price,
+ * brand, category, platform, seller listing and quality check.
+ * Products are picked with CompareButton and opened from CompareTray.
+ *
+ * Route: /compare?ids=1,2,3
+ */
+
+import type { Metadata } from "next";
+import Link from "next/link";
+
+/* Component imports */
+import Navbar from "@/components/Navbar";
+import Footer from "@/components/Footer";
+import AgentSelect from "@/components/AgentSelect";
+import BuyLink from "@/components/BuyLink";
+import CompareRemoveButton from "@/components/CompareRemoveButton";
+import Price from "@/components/Price";
+import ProductImage from "@/components/ProductImage";
+import QcVerdictBadge from "@/components/QcVerdictBadge";
+
+/* Data imports */
+import { MAX_COMPARE_ITEMS, parseCompareIds } from "@/lib/compare";
+import { findImageAsset } from "@/lib/images";
+import {
+  Product,
+  getBrandSlug,
+  getProductById,
+  getProductSlug,
+} from "@/lib/products";
+import { formatQcDate, getQcReport } from "@/lib/qc";
+import { getSellerListing } from "@/lib/seller";
+
+/**
+ * Page props with the compared product IDs.
+ */
+interface ComparePageProps {
+  searchParams: Promise<{
+    ids?: string | string[];
+  }>;
+}
+
+/**
+ * One labelled row of the comparison table.
+ */
+interface CompareRow {
+  label: string;
+  render: (product: Product) => React.ReactNode;
+}
+
+/**
+ * Comparisons are ad hoc, so keep them out of search results.
+ */
+export const metadata: Metadata = {
+  title: "Compare",
+  robots: { index: false },
+};
+
+/**
+ * Capitalize first letter of each word.
+ */
+function titleCase(str: string): string {
+  return str
+    .split(" ")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(" ");
+}
+
+/**
+ * ComparePage renders the comparison table.
+ */
+export default async function ComparePage({ searchParams }: ComparePageProps) {
+  const { ids } = await searchParams;
+  const requestedIds = ids
+    ? parseCompareIds(Array.isArray(ids) ? ids[0] : ids)
+    : [];
+
+  const products = requestedIds
+    .map((id) => getProductById(id))
+    .filter((product): product is Product => product !== undefined);
+  const missingCount = requestedIds.length - products.length;
+  const shownIds = products.map((product) => product.id);
+
+  /* Cheapest priced product gets a "Lowest" tag (only with 2+ prices) */
+  const prices = products
+    .map((product) => product.price)
+    .filter((price): price is number => price !== null);
+  const lowestPrice = prices.length > 1 ? Math.min(...prices) : null;
+
+  const rows: CompareRow[] = [
+    {
+      label: "Price",
+      render: (product) => (
+        <span className="flex items-center gap-2">
+          <span className="text-lg font-bold text-text-primary">
+            <Price
+              amount={product.price}
+              fallback={product.priceText || "Price on site"}
+            />
+          </span>
+          {product.price !== null && product.price === lowestPrice && (
+            <span className="px-2 py-0.5 text-[10px] font-bold uppercase tracking-wider bg-text-primary text-surface-base rounded">
+              Lowest
+            </span>
+          )}
+        </span>
+      ),
+    },
+    {
+      label: "Brand",
+      render: (product) =>
+        product.brand ? (
+          <Link
+            href={`/brands/${getBrandSlug(product.brand)}`}
+            className="hover:text-text-secondary transition-colors"
+          >
+            {product.brand}
+          </Link>
+        ) : (
+          <span className="text-text-subtle">—</span>
+        ),
+    },
+    {
+      label: "Category",
+      render: (product) =>
+        product.category ? (
+          titleCase(product.category)
+        ) : (
+          <span className="text-text-subtle">Uncategorized</span>
+        ),
+    },
+    {
+      label: "Platform",
+      render: (product) => getSellerListing(product.buyUrl).platform,
+    },
+    {
+      label: "Seller listing",
+      render: (product) => {
+        const listing = getSellerListing(product.buyUrl);
+        if (!listing.itemId) {
+          return <span className="text-text-subtle">—</span>;
+        }
+        return listing.listingUrl ? (
+          <a
+            href={listing.listingUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-mono text-xs hover:text-text-secondary transition-colors"
+          >
+            #{listing.itemId} ↗
+          </a>
+        ) : (
+          <span className="font-mono text-xs">#{listing.itemId}</span>
+        );
+      },
+    },
+    {
+      label: "Quality check",
+      render: (product) => {
+        const report = getQcReport(product.id);
+        return (
+          <div className="flex flex-col items-start gap-1">
+            {report ? (
+              <>
+                <QcVerdictBadge verdict={report.latest.verdict} />
+                <span className="text-xs text-text-muted">
+                  {report.latest.batch} · {formatQcDate(report.latest.date)}
+                  {report.sets.length > 1 && ` · ${report.sets.length} sets`}
+                </span>
+              </>
+            ) : (
+              <span className="text-text-subtle">No QC yet</span>
+            )}
+            <Link
+              href={`/quality/${getProductSlug(product)}`}
+              className="text-xs hover:text-text-secondary transition-colors"
+            >
+              View QC report →
+            </Link>
+          </div>
+        );
+      },
+    },
+  ];
+
+  return (
+    <>
+      <Navbar />
+
+      <main className="min-h-screen bg-surface-base">
+        {/* Breadcrumb */}
+        <div className="px-6 md:px-12 lg:px-16 py-4">
+          <nav className="text-meta text-text-muted">
+            <Link href="/" className="hover:text-text-primary transition-colors">
+              HOME
+            </Link>
+            <span className="mx-2 text-text-subtle">•</span>
+            <span className="text-text-primary">COMPARE</span>
+          </nav>
+        </div>
+
+        {/* Header */}
+        <header
+          className="
+            px-6 md:px-12 lg:px-16
+            py-8
+            flex flex-col sm:flex-row
+            sm:items-end
+            justify-between
+            gap-4
+            border-b border-border-default
+          "
+        >
+          <div>
+            <span className="text-meta text-text-muted mb-2 block">
+              Side by side
+            </span>
+            <h1 className="heading-hero">Compare</h1>
+          </div>
+
+          <AgentSelect />
+        </header>
+
+        <div className="px-6 md:px-12 lg:px-16 py-8">
+          {missingCount > 0 && (
+            <p className="text-sm text-text-muted mb-6">
+              {missingCount} {missingCount === 1 ? "product is" : "products are"}{" "}
+              no longer available and {missingCount === 1 ? "was" : "were"} left
+              out.
+            </p>
+          )}
+
+          {products.length === 0 ? (
+            <div className="py-12 text-center">
+              <p className="text-text-muted text-sm mb-6">
+                Nothing to compare yet. Use the compare button on up to{" "}
+                {MAX_COMPARE_ITEMS} products, then open them from the bar at the
+                bottom of the screen.
+              </p>
+              <Link href="/products" className="btn-secondary">
+                Browse products
+              </Link>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse table-fixed min-w-[640px]">
+                <colgroup>
+                  <col className="w-32 md:w-40" />
+                  {products.map((product) => (
+                    <col key={product.id} />
+                  ))}
+                </colgroup>
+
+                {/* Image, name and remove control */}
+                <thead>
+                  <tr>
+                    <th className="sticky left-0 bg-surface-base" />
+                    {products.map((product) => (
+                      <th
+                        key={product.id}
+                        scope="col"
+                        className="p-3 align-top text-left font-normal"
+                      >
+                        <Link href={`/products/${getProductSlug(product)}`} className="group block">
+                          <div className="aspect-[4/5] overflow-hidden rounded-lg bg-surface-raised mb-3">
+                            {product.imageUrl ? (
+                              <ProductImage
+                                src={product.imageUrl}
+                                asset={findImageAsset(product.imageAssets, product.imageUrl)}
+                                alt={product.name}
+                                sizes="(min-width: 768px) 25vw, 50vw"
+                                className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105"
+                              />
+                            ) : (
+                              <div className="w-full h-full flex items-center justify-center">
+                                <span className="text-xs text-text-subtle uppercase tracking-wider">
+                                  No image
+                                </span>
+                              </div>
+                            )}
+                          </div>
+                          <span className="text-sm font-medium text-text-primary line-clamp-2 group-hover:text-text-secondary transition-colors">
+                            {product.name}
+                          </span>
+                        </Link>
+                        <div className="mt-2">
+                          <CompareRemoveButton
+                            productId={product.id}
+                            productName={product.name}
+                            shownIds={shownIds}
+                          />
+                        </div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+
+                {/* Aligned attribute rows */}
+                <tbody>
+                  {rows.map((row) => (
+                    <tr key={row.label} className="border-t border-border-default">
+                      <th
+                        scope="row"
+                        className="sticky left-0 bg-surface-base p-3 text-left align-top text-meta text-text-muted font-normal"
+                      >
+                        {row.label}
+                      </th>
+                      {products.map((product) => (
+                        <td
+                          key={product.id}
+                          className="p-3 align-top text-sm text-text-primary"
+                        >
+                          {row.render(product)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+
+                  {/* Buy buttons */}
+                  <tr className="border-t border-border-default">
+                    <th className="sticky left-0 bg-surface-base" />
+                    {products.map((product) => (
+                      <td key={product.id} className="p-3">
+                        <BuyLink
+                          buyUrl={product.buyUrl}
+                          className="btn-primary btn-full"
+                        >
+                          Buy
+                        </BuyLink>
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </>
+  );
+}
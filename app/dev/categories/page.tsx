@@ -0,0 +1,73 @@
+/**
+ * Category Triage Page (development only)
+ *
+ * Lists the products the last catalog build couldn't categorize, with
+ * suggested categories, and saves a decision for each to
+ * data/category-overrides.json (see lib/category-triage.ts). Run
+ * `npm run catalog -- build` afterwards to apply them.
+ *
+ * 404s outside the dev server.
+ *
+ * Route: /dev/categories
+ */
+
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+
+/* Component imports */
+import Navbar from "@/components/Navbar";
+import CategoryTriage from "@/components/CategoryTriage";
+
+/* Data imports */
+import { getTriageItems, isTriageEnabled } from "@/lib/category-triage";
+
+/**
+ * Read the data files on every request, so saved decisions show on reload.
+ */
+export const dynamic = "force-dynamic";
+
+/**
+ * Internal tool, keep it out of search results.
+ */
+export const metadata: Metadata = {
+  title: "Category Triage",
+  robots: { index: false },
+};
+
+/**
+ * CategoryTriagePage renders the uncategorized products.
+ */
+export default function CategoryTriagePage() {
+  if (!isTriageEnabled()) {
+    notFound();
+  }
+
+  const items = getTriageItems();
+
+  return (
+    <>
+      <Navbar />
+
+      <main className="min-h-screen bg-surface-base">
+        {/* Header */}
+        <header className="px-6 md:px-12 lg:px-16 py-8 border-b border-border-default">
+          <span className="text-meta text-text-muted mb-2 block">Dev tools</span>
+          <h1 className="heading-hero">Category Triage</h1>
+          <p className="text-sm text-text-muted mt-4 max-w-2xl">
+            Products the last catalog build couldn&apos;t categorize. Decisions
+            are saved to data/category-overrides.json; run{" "}
+            <code>npm run catalog -- build</code> to apply them.
+          </p>
+        </header>
+
+        {items.length > 0 ? (
+          <CategoryTriage items={items} />
+        ) : (
+          <p className="px-6 md:px-12 lg:px-16 py-10 text-sm text-text-muted">
+            Every product has a category.
+          </p>
+        )}
+      </main>
+    </>
+  );
+}
@@ -12,6 +12,8 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import { Syne } from "next/font/google";
+import CompareTray from "@/components/CompareTray";
+import { SITE_URL } from "@/lib/site";
 import "./globals.css";
 
 /**
@@ -53,7 +55,7 @@ const geistMono = Geist_Mono({
  */
 export const metadata: Metadata = {
   // Base URL for resolving relative image paths
-  metadataBase: new URL("https://zayfinds.com"),
+  metadataBase: new URL(SITE_URL),
 
   // Basic metadata
   title: {
@@ -87,7 +89,7 @@ export const metadata: Metadata = {
   openGraph: {
     type: "website",
     locale: "en_US",
-    url: "https://zayfinds.com",
+    url: SITE_URL,
     siteName: "ZAYFINDS",
     title: "ZAYFINDS — Affordable Finds for Everyone",
     description:
@@ -141,6 +143,9 @@ export default function RootLayout({
         `}
       >
         {children}
+
+        {/* Compare selection bar (shown while products are selected) */}
+        <CompareTray />
       </body>
     </html>
   );
@@ -0,0 +1,239 @@
+/**
+ * New Page
+ *
+ * What changed in the latest catalog import: new arrivals and price drops
+ * as product grids, then the smaller changes (price increases, renames,
+ * recategorized and removed products) as a changelog.
+ * Data comes from data/catalog-changes.json (see lib/catalog-changes.ts).
+ *
+ * Route: /new
+ */
+
+import type { Metadata } from "next";
+import Link from "next/link";
+
+/* Component imports */
+import Navbar from "@/components/Navbar";
+import ProductGrid from "@/components/ProductGrid";
+import Footer from "@/components/Footer";
+
+/* Data imports */
+import {
+  ChangedProduct,
+  getCatalogChanges,
+  getPriceDrops,
+} from "@/lib/catalog-changes";
+import { SOURCE_CURRENCY, formatPrice } from "@/lib/currency";
+import { Product, getProductById } from "@/lib/products";
+
+/** Entries listed per changelog section before "and N more" */
+const MAX_CHANGELOG_ENTRIES = 20;
+
+/**
+ * One line of the changelog list.
+ */
+interface ChangelogEntry {
+  product: ChangedProduct;
+  /** Text after the product name, e.g. "$90.00 → $95.00" */
+  detail?: string;
+}
+
+/**
+ * One section of the changelog list.
+ */
+interface ChangelogSection {
+  title: string;
+  entries: ChangelogEntry[];
+  /** Whether entries link to their product page (not for removed ones) */
+  linked: boolean;
+}
+
+/**
+ * Page title and description.
+ */
+export const metadata: Metadata = {
+  title: "New",
+  description: "New arrivals and price drops from the latest ZAYFINDS catalog update.",
+};
+
+/**
+ * Format an ISO timestamp as "OCT 18, 2026".
+ */
+function formatChangeDate(timestamp: string): string {
+  return new Date(timestamp)
+    .toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      timeZone: "UTC",
+    })
+    .toUpperCase();
+}
+
+/**
+ * Format a changelog price, which may be missing. Shown in the catalog's
+ * own currency, as recorded.
+ */
+function formatChangePrice(price: number | null): string {
+  return price === null ? "no price" : formatPrice(price, SOURCE_CURRENCY);
+}
+
+/**
+ * Look up the current products for changelog entries, skipping any the
+ * catalog no longer has.
+ */
+function findProducts(entries: ChangedProduct[]): Product[] {
+  return entries
+    .map((entry) => getProductById(entry.id))
+    .filter((product): product is Product => product !== undefined);
+}
+
+/**
+ * NewPage renders the latest catalog changes.
+ */
+export default function NewPage() {
+  const changes = getCatalogChanges();
+  const newArrivals = findProducts(changes.added);
+  const priceDrops = findProducts(getPriceDrops());
+
+  const sections: ChangelogSection[] = [
+    {
+      title: "Price increases",
+      entries: changes.repriced
+        .filter((change) => change.from !== null && change.to !== null && change.to > change.from)
+        .map((change) => ({
+          product: change,
+          detail: `${formatChangePrice(change.from)} → ${formatChangePrice(change.to)}`,
+        })),
+      linked: true,
+    },
+    {
+      title: "Renamed",
+      entries: changes.renamed.map((change) => ({
+        product: change,
+        detail: `was "${change.from}"`,
+      })),
+      linked: true,
+    },
+    {
+      title: "Recategorized",
+      entries: changes.recategorized.map((change) => ({
+        product: change,
+        detail: `${change.from ?? "Uncategorized"} → ${change.to ?? "Uncategorized"}`,
+      })),
+      linked: true,
+    },
+    {
+      title: "New photos",
+      entries: changes.reimaged.map((change) => ({ product: change })),
+      linked: true,
+    },
+    {
+      title: "No longer available",
+      entries: changes.removed.map((product) => ({ product })),
+      linked: false,
+    },
+  ].filter((section) => section.entries.length > 0);
+
+  return (
+    <>
+      <Navbar />
+
+      <main className="min-h-screen bg-surface-base">
+        {/* Breadcrumb */}
+        <div className="px-6 md:px-12 lg:px-16 py-4">
+          <nav className="text-meta text-text-muted">
+            <Link href="/" className="hover:text-text-primary transition-colors">
+              HOME
+            </Link>
+            <span className="mx-2 text-text-subtle">•</span>
+            <span className="text-text-primary">NEW</span>
+          </nav>
+        </div>
+
+        {/* Header */}
+        <header className="px-6 md:px-12 lg:px-16 py-8 border-b border-border-default">
+          {changes.generatedAt && (
+            <span className="text-meta text-text-muted mb-2 block">
+              Updated {formatChangeDate(changes.generatedAt)}
+            </span>
+          )}
+          <h1 className="heading-hero">What&apos;s New</h1>
+        </header>
+
+        {/* New arrivals */}
+        <section className="px-6 md:px-12 lg:px-16 py-8">
+          <h2 className="heading-section mb-2">New Arrivals</h2>
+          <p className="text-meta text-text-muted mb-6">
+            {newArrivals.length} {newArrivals.length === 1 ? "PRODUCT" : "PRODUCTS"}
+          </p>
+          {newArrivals.length > 0 ? (
+            <ProductGrid products={newArrivals} showBadges={false} />
+          ) : (
+            <p className="text-sm text-text-muted">
+              No new finds in the latest update.
+            </p>
+          )}
+        </section>
+
+        {/* Price drops */}
+        <section className="px-6 md:px-12 lg:px-16 py-8 border-t border-border-default">
+          <h2 className="heading-section mb-2">Price Drops</h2>
+          <p className="text-meta text-text-muted mb-6">
+            {priceDrops.length} {priceDrops.length === 1 ? "PRODUCT" : "PRODUCTS"}
+          </p>
+          {priceDrops.length > 0 ? (
+            <ProductGrid products={priceDrops} showBadges={false} />
+          ) : (
+            <p className="text-sm text-text-muted">
+              No price drops in the latest update.
+            </p>
+          )}
+        </section>
+
+        {/* Smaller changes */}
+        {sections.length > 0 && (
+          <section className="px-6 md:px-12 lg:px-16 py-8 border-t border-border-default">
+            <h2 className="heading-section mb-6">Other Changes</h2>
+
+            <div className="grid gap-8 md:grid-cols-2">
+              {sections.map((section) => (
+                <div key={section.title}>
+                  <h3 className="text-meta text-text-muted mb-3">
+                    {section.title.toUpperCase()} ({section.entries.length})
+                  </h3>
+                  <ul className="space-y-2 text-sm">
+                    {section.entries.slice(0, MAX_CHANGELOG_ENTRIES).map(({ product, detail }) => (
+                      <li key={product.id} className="text-text-secondary">
+                        {section.linked ? (
+                          <Link
+                            href={`/products/${product.slug}`}
+                            className="text-text-primary hover:underline"
+                          >
+                            {product.name}
+                          </Link>
+                        ) : (
+                          <span className="text-text-primary">{product.name}</span>
+                        )}
+                        {detail && (
+                          <span className="text-text-muted"> · {detail}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                  {section.entries.length > MAX_CHANGELOG_ENTRIES && (
+                    <p className="text-meta text-text-subtle mt-3">
+                      AND {section.entries.length - MAX_CHANGELOG_ENTRIES} MORE
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+      </main>
+
+      <Footer />
+    </>
+  );
+}
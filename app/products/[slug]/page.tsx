@@ -2,7 +2,8 @@
  * Product Detail Page
  *
  * Displays a single product with full details.
- * Server component that fetches product by slug.
+ * Server component that fetches product by slug, with per-product
+ * metadata and Product/Offer JSON-LD (lib/product-seo.ts).
  *
  * Layout:
  * - Desktop: Two-column (details left, image right)
@@ -11,15 +12,38 @@
  * Route: /products/[slug]
  */
 
+import type { Metadata } from "next";
 import { notFound } from "next/navigation";
 import Link from "next/link";
+import Image from "next/image";
 
 /* Component imports */
 import Navbar from "@/components/Navbar";
 import Footer from "@/components/Footer";
+import AgentSelect from "@/components/AgentSelect";
+import BuyLink from "@/components/BuyLink";
+import Price from "@/components/Price";
+import RatesNote from "@/components/RatesNote";
+import WishlistButton from "@/components/WishlistButton";
+import CompareButton from "@/components/CompareButton";
+import ProductGallery from "@/components/ProductGallery";
+import QcVerdictBadge from "@/components/QcVerdictBadge";
+import JsonLd from "@/components/JsonLd";
 
 /* Data imports */
-import { getProductBySlug, getProductSlug, getRelatedProducts } from "@/lib/products";
+import { getChangeBadge } from "@/lib/catalog-changes";
+import { getCategoryUrl } from "@/lib/categories";
+import { SOURCE_CURRENCY, hasCurrency } from "@/lib/currency";
+import { isOptimizableImage } from "@/lib/images";
+import {
+  getBrandSlug,
+  getProductBySlug,
+  getProductSlug,
+  getRelatedProducts,
+} from "@/lib/products";
+import { getProductJsonLd, getProductMetadata } from "@/lib/product-seo";
+import { formatQcDate, getQcReport } from "@/lib/qc";
+import { getPlatformName } from "@/lib/seller";
 
 /* Component imports for related products */
 import ProductCard from "@/components/ProductCard";
@@ -33,6 +57,12 @@ interface ProductPageProps {
   }>;
 }
 
+/**
+ * Whether to show the "≈ in CNY" row: only when prices aren't already in
+ * yuan and the rates file still lists CNY.
+ */
+const showYuanEstimate = SOURCE_CURRENCY !== "CNY" && hasCurrency("CNY");
+
 /**
  * Capitalize first letter of each word.
  */
@@ -44,13 +74,15 @@ function titleCase(str: string): string {
 }
 
 /**
- * Get platform name from buy URL (placeholder logic).
+ * Per-product title, description, canonical URL and link previews.
  */
-function getPlatformName(url: string): string {
-  if (url.includes("taobao")) return "TAOBAO";
-  if (url.includes("weidian")) return "WEIDIAN";
-  if (url.includes("1688")) return "1688";
-  return "SELLER";
+export async function generateMetadata({
+  params,
+}: ProductPageProps): Promise<Metadata> {
+  const product = getProductBySlug((await params).slug);
+  if (!product) return {};
+
+  return getProductMetadata(product);
 }
 
 /**
@@ -71,11 +103,19 @@ export default async function ProductDetailPage({ params }: ProductPageProps) {
   const productSlug = getProductSlug(product);
   const hasImage = product.imageUrl !== null && product.imageUrl !== "";
 
+  /* Gallery: fetched images, or just the cover if no gallery yet */
+  const galleryImages =
+    product.images.length > 0 ? product.images : hasImage ? [product.imageUrl!] : [];
+
+  /* QC photo sets, or null when none have been posted */
+  const report = getQcReport(product.id);
+
   /* Get related products for "You may also like" section */
   const relatedProducts = getRelatedProducts(product, 6);
 
   return (
     <>
+      <JsonLd data={getProductJsonLd(product)} />
       <Navbar />
 
       <main className="min-h-screen bg-surface-base">
@@ -110,7 +150,7 @@ export default async function ProductDetailPage({ params }: ProductPageProps) {
                   <li className="text-text-subtle">/</li>
                   <li>
                     <Link
-                      href={`/products?category=${encodeURIComponent(product.category)}`}
+                      href={getCategoryUrl(product.category)}
                       className="hover:text-text-primary transition-colors"
                     >
                       {titleCase(product.category!)}
@@ -164,8 +204,12 @@ export default async function ProductDetailPage({ params }: ProductPageProps) {
                   Price
                 </span>
                 <span className="text-2xl md:text-3xl font-bold text-text-primary">
-                  {product.priceText || "Price on site"}
+                  <Price
+                    amount={product.price}
+                    fallback={product.priceText || "Price on site"}
+                  />
                 </span>
+                <RatesNote className="text-xs text-text-subtle mt-1 block" />
               </div>
 
               {/* Description placeholder */}
@@ -187,17 +231,15 @@ export default async function ProductDetailPage({ params }: ProductPageProps) {
                   - Primary (.btn-primary): BUY button, high visibility
                   - Secondary (.btn-secondary): Quality Check, outline style
                   =========================================== */}
-              <div className="flex flex-col sm:flex-row gap-4 mb-10">
+              <div className="flex flex-col sm:flex-row sm:flex-wrap gap-4 mb-6">
                 {/* 
                   Primary CTA: "Buy on [Platform]"
-                  - Opens external seller URL in new tab
+                  - Opens the listing on the preferred agent in a new tab
                   - Uses btn-primary + btn-lg for emphasis
                   - Additional hover scale for prominence
                 */}
-                <a
-                  href={product.buyUrl}
-                  target="_blank"
-                  rel="noopener noreferrer"
+                <BuyLink
+                  buyUrl={product.buyUrl}
                   className="
                     btn-primary btn-lg
                     hover:scale-[1.03]
@@ -205,7 +247,7 @@ export default async function ProductDetailPage({ params }: ProductPageProps) {
                   "
                 >
                   Buy on {platformName}
-                </a>
+                </BuyLink>
 
                 {/* 
                   Secondary CTA: "Quality Check"
@@ -219,10 +261,42 @@ export default async function ProductDetailPage({ params }: ProductPageProps) {
                 >
                   Quality Check Details
                 </a>
+
+                {/* Save to wishlist (listed on /saved) */}
+                <WishlistButton
+                  productId={product.id}
+                  productName={product.name}
+                  variant="button"
+                />
+
+                {/* Add to compare selection (opened from CompareTray) */}
+                <CompareButton
+                  productId={product.id}
+                  productName={product.name}
+                  variant="button"
+                />
+              </div>
+
+              {/* Shopping agent for every Buy button (saved per browser) */}
+              <div className="mb-10">
+                <AgentSelect />
               </div>
 
               {/* Metadata rows */}
               <div className="border-t border-border-default pt-6 space-y-4">
+                {/* Brand row */}
+                {product.brand && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-meta text-text-muted">Brand</span>
+                    <Link
+                      href={`/brands/${getBrandSlug(product.brand)}`}
+                      className="text-sm text-text-primary hover:text-text-secondary transition-colors"
+                    >
+                      {product.brand}
+                    </Link>
+                  </div>
+                )}
+
                 {/* Category row */}
                 {product.category && (
                   <div className="flex items-center justify-between">
@@ -233,12 +307,12 @@ export default async function ProductDetailPage({ params }: ProductPageProps) {
                   </div>
                 )}
 
-                {/* Price estimate row */}
-                {product.price !== null && (
+                {/* Yuan estimate row (converted from the source price, for comparing on the marketplace) */}
+                {product.price !== null && showYuanEstimate && (
                   <div className="flex items-center justify-between">
-                    <span className="text-meta text-text-muted">Estimated USD</span>
+                    <span className="text-meta text-text-muted">≈ in CNY</span>
                     <span className="text-sm text-text-primary">
-                      ${product.price.toFixed(2)}
+                      <Price amount={product.price} currency="CNY" />
                     </span>
                   </div>
                 )}
@@ -259,25 +333,25 @@ export default async function ProductDetailPage({ params }: ProductPageProps) {
                 On desktop: appears second (lg:order-2)
                 =========================================== */}
             <div className="w-full lg:w-[45%] order-1 lg:order-2">
-              <div
-                className="
-                  relative
-                  aspect-[4/5]
-                  w-full
-                  bg-surface-elevated
-                  border border-border-default
-                  rounded-2xl
-                  overflow-hidden
-                  shadow-[0_0_60px_rgba(0,0,0,0.5)]
-                "
-              >
-                {hasImage ? (
-                  <img
-                    src={product.imageUrl!}
-                    alt={product.name}
-                    className="w-full h-full object-cover"
-                  />
-                ) : (
+              {galleryImages.length > 0 ? (
+                <ProductGallery
+                  images={galleryImages}
+                  imageAssets={product.imageAssets}
+                  productName={product.name}
+                />
+              ) : (
+                <div
+                  className="
+                    relative
+                    aspect-[4/5]
+                    w-full
+                    bg-surface-elevated
+                    border border-border-default
+                    rounded-2xl
+                    overflow-hidden
+                    shadow-[0_0_60px_rgba(0,0,0,0.5)]
+                  "
+                >
                   <div
                     className="
                       w-full h-full
@@ -303,17 +377,8 @@ export default async function ProductDetailPage({ params }: ProductPageProps) {
                       View on seller site
                     </span>
                   </div>
-                )}
-
-                {/* Inner shadow overlay */}
-                <div
-                  className="
-                    absolute inset-0
-                    pointer-events-none
-                    shadow-[inset_0_0_60px_rgba(0,0,0,0.3)]
-                  "
-                />
-              </div>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -321,8 +386,8 @@ export default async function ProductDetailPage({ params }: ProductPageProps) {
         {/* ===========================================
             QUALITY CHECK SECTION
             
-            Detailed information about the product quality,
-            sourcing, sizing, and shipping notes.
+            Summary of the latest QC photo set (verdict, photos,
+            flaws, notes) or a "no QC yet" state.
             Anchor target for the "Quality Check Details" button.
             =========================================== */}
         <section
@@ -355,72 +420,86 @@ export default async function ProductDetailPage({ params }: ProductPageProps) {
               </Link>
             </div>
 
-            {/* Quality info grid */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 md:gap-8">
-              {/* Sourcing */}
+            {report ? (
+              /* Latest QC set summary */
               <div className="bg-neutral-950/50 border border-white/5 rounded-xl p-5 md:p-6">
-                <div className="flex items-center gap-3 mb-3">
-                  <div className="w-8 h-8 rounded-full bg-neutral-900 flex items-center justify-center">
-                    <span className="text-xs text-neutral-400">01</span>
-                  </div>
-                  <h3 className="text-sm font-semibold text-white uppercase tracking-wider">
-                    Sourcing
-                  </h3>
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mb-5">
+                  <QcVerdictBadge verdict={report.latest.verdict} showLabel />
+                  <span className="text-sm text-white font-mono">
+                    {formatQcDate(report.latest.date)}
+                  </span>
+                  <span className="text-xs text-neutral-500">
+                    Batch <span className="text-neutral-300">{report.latest.batch}</span>
+                  </span>
+                  <span className="text-xs text-neutral-500">
+                    Reviewed by{" "}
+                    <span className="text-neutral-300">{report.latest.reviewer}</span>
+                  </span>
+                  {report.sets.length > 1 && (
+                    <span className="text-xs text-neutral-500 md:ml-auto">
+                      +{report.sets.length - 1} earlier{" "}
+                      {report.sets.length === 2 ? "set" : "sets"}
+                    </span>
+                  )}
                 </div>
-                <p className="text-sm text-neutral-400 leading-relaxed">
-                  This item is sourced from verified sellers with positive review history.
-                  Quality may vary by batch — always check seller reviews before ordering.
-                </p>
-              </div>
 
-              {/* Fit & Sizing */}
-              <div className="bg-neutral-950/50 border border-white/5 rounded-xl p-5 md:p-6">
-                <div className="flex items-center gap-3 mb-3">
-                  <div className="w-8 h-8 rounded-full bg-neutral-900 flex items-center justify-center">
-                    <span className="text-xs text-neutral-400">02</span>
+                {/* Photo strip (first four) */}
+                {report.latest.photos.length > 0 && (
+                  <div className="grid grid-cols-4 gap-2 md:gap-3 mb-5">
+                    {report.latest.photos.slice(0, 4).map((photoUrl, index) => (
+                      <div
+                        key={photoUrl}
+                        className="relative aspect-square rounded-lg overflow-hidden bg-neutral-900 border border-white/5"
+                      >
+                        <Image
+                          src={photoUrl}
+                          alt={`${product.name} - QC photo ${index + 1}`}
+                          fill
+                          sizes="(min-width: 1024px) 12vw, 25vw"
+                          unoptimized={!isOptimizableImage(photoUrl)}
+                          className="object-cover"
+                        />
+                      </div>
+                    ))}
                   </div>
-                  <h3 className="text-sm font-semibold text-white uppercase tracking-wider">
-                    Fit & Sizing
-                  </h3>
-                </div>
-                <p className="text-sm text-neutral-400 leading-relaxed">
-                  Asian sizing tends to run smaller. We recommend sizing up 1-2 sizes
-                  from your usual fit. Check the seller&apos;s size chart for exact measurements.
-                </p>
-              </div>
+                )}
 
-              {/* Shipping */}
-              <div className="bg-neutral-950/50 border border-white/5 rounded-xl p-5 md:p-6">
-                <div className="flex items-center gap-3 mb-3">
-                  <div className="w-8 h-8 rounded-full bg-neutral-900 flex items-center justify-center">
-                    <span className="text-xs text-neutral-400">03</span>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <h3 className="text-sm font-semibold text-white uppercase tracking-wider mb-2">
+                      Flaws
+                    </h3>
+                    <p className="text-sm text-neutral-400 leading-relaxed">
+                      {report.latest.flaws.length > 0
+                        ? report.latest.flaws.join(" · ")
+                        : "No flaws spotted."}
+                    </p>
                   </div>
-                  <h3 className="text-sm font-semibold text-white uppercase tracking-wider">
-                    Shipping
-                  </h3>
+                  {report.latest.notes && (
+                    <div>
+                      <h3 className="text-sm font-semibold text-white uppercase tracking-wider mb-2">
+                        Notes
+                      </h3>
+                      <p className="text-sm text-neutral-400 leading-relaxed">
+                        {report.latest.notes}
+                      </p>
+                    </div>
+                  )}
                 </div>
-                <p className="text-sm text-neutral-400 leading-relaxed">
-                  Items typically ship from China within 3-7 days. Total delivery time
-                  is usually 2-4 weeks depending on your shipping method and location.
-                </p>
               </div>
-
-              {/* Seller Notes */}
-              <div className="bg-neutral-950/50 border border-white/5 rounded-xl p-5 md:p-6">
-                <div className="flex items-center gap-3 mb-3">
-                  <div className="w-8 h-8 rounded-full bg-neutral-900 flex items-center justify-center">
-                    <span className="text-xs text-neutral-400">04</span>
-                  </div>
-                  <h3 className="text-sm font-semibold text-white uppercase tracking-wider">
-                    Seller Notes
-                  </h3>
-                </div>
-                <p className="text-sm text-neutral-400 leading-relaxed">
-                  Always use a reputable agent for purchases. Check the seller&apos;s
-                  return policy before ordering. QC photos are recommended before shipping.
+            ) : (
+              /* No QC yet */
+              <div className="border border-dashed border-white/10 rounded-xl px-6 py-10 text-center">
+                <span className="block text-xs font-semibold text-neutral-400 uppercase tracking-[0.2em] mb-2">
+                  No QC yet
+                </span>
+                <p className="text-sm text-neutral-500 max-w-md mx-auto leading-relaxed">
+                  Nobody has posted QC photos for this item yet. Ask your agent
+                  for QC photos before shipping and check them against the
+                  seller listing.
                 </p>
               </div>
-            </div>
+            )}
 
             {/* View full report CTA */}
             <div className="mt-8 text-center">
@@ -475,6 +554,7 @@ export default async function ProductDetailPage({ params }: ProductPageProps) {
                       */}
                       <ProductCard
                         product={relatedProduct}
+                        badge={getChangeBadge(relatedProduct.id)}
                         buttonVariant="details-only"
                       />
                     </div>
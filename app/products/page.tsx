@@ -1,11 +1,14 @@
-"use client";
-
 /**
  * ProductsPage Component
  *
  * The full product browsing experience for zayfinds.
  * Uses data from lib/products.ts as the single source of truth.
  *
+ * Rendered on the server from the query string (see
+ * lib/product-url-state.ts), one page at a time with real ?page=N links,
+ * so only the current page's products are sent to the browser.
+ * InfiniteProductGrid layers infinite scroll on top once hydrated.
+ *
  * Design v2.0:
  * - Layered grey surface colors
  * - Refined typography
@@ -14,29 +17,38 @@
  * Route: /products
  */
 
-import { useState, useMemo, useEffect, Suspense } from "react";
-import { useSearchParams } from "next/navigation";
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
 
 /* Component imports */
 import Link from "next/link";
 import Navbar from "@/components/Navbar";
-import CategoryFilter, {
-  CategoryFilterValue,
-} from "@/components/CategoryFilter";
-import ProductGrid from "@/components/ProductGrid";
+import { CategoryFilterValue } from "@/components/CategoryFilter";
+import ProductBrowserToolbar from "@/components/ProductBrowserToolbar";
+import InfiniteProductGrid from "@/components/InfiniteProductGrid";
 import Footer from "@/components/Footer";
 
 /* Data imports - single source of truth */
+import { getAllBrands, queryProducts } from "@/lib/products";
+import { getCategoryUrl } from "@/lib/categories";
 import {
-  getAllProducts,
-  getProductsByCategory,
-  searchProducts,
-} from "@/lib/products";
+  PRODUCTS_PAGE_SIZE,
+  ProductBrowserState,
+  getProductBrowserUrl,
+  parseProductBrowserState,
+} from "@/lib/product-url-state";
+
+/**
+ * Brands for the brand filter dropdown (computed once).
+ */
+const BRANDS = getAllBrands();
 
 /**
- * Sort options for the product list.
+ * Page props with the raw query string.
  */
-type SortOption = "default" | "price-asc" | "price-desc";
+interface ProductsPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
 
 /**
  * Get display label for breadcrumb.
@@ -47,70 +59,93 @@ function getCategoryLabel(value: CategoryFilterValue): string {
 }
 
 /**
- * ProductsPageContent - Inner component that uses useSearchParams
- * Must be wrapped in Suspense boundary
+ * Parses the page's search params into browser state.
+ * Repeated parameters use their first value.
  */
-function ProductsPageContent() {
-  const searchParams = useSearchParams();
-  
-  // Read category from URL query parameter on initial load
-  const initialCategory = searchParams.get("category") || "all";
-  
-  const [selectedCategory, setSelectedCategory] =
-    useState<CategoryFilterValue>(initialCategory);
-  const [searchQuery, setSearchQuery] = useState("");
-  const [sortBy, setSortBy] = useState<SortOption>("default");
-  const [displayCount, setDisplayCount] = useState(20);
-  
-  // Sync category with URL when URL changes (e.g., browser back/forward)
-  useEffect(() => {
-    const categoryFromUrl = searchParams.get("category") || "all";
-    if (categoryFromUrl !== selectedCategory) {
-      setSelectedCategory(categoryFromUrl);
-      setDisplayCount(20); // Reset display count when category changes from URL
-    }
-  }, [searchParams, selectedCategory]);
-
-  /**
-   * Process products based on filters and sorting.
-   * Uses centralized data helpers from lib/products.ts.
-   */
-  const processedProducts = useMemo(() => {
-    // Start with base product list based on category and search
-    let result =
-      selectedCategory !== "all"
-        ? getProductsByCategory(selectedCategory)
-        : searchQuery.trim()
-          ? searchProducts(searchQuery)
-          : getAllProducts();
-
-    // If both category and search are active, filter further
-    if (selectedCategory !== "all" && searchQuery.trim()) {
-      const query = searchQuery.toLowerCase().trim();
-      result = result.filter((product) =>
-        product.name.toLowerCase().includes(query)
-      );
-    }
-
-    // Apply sorting
-    if (sortBy === "price-asc") {
-      result = [...result].sort((a, b) => (a.price ?? 0) - (b.price ?? 0));
-    } else if (sortBy === "price-desc") {
-      result = [...result].sort((a, b) => (b.price ?? 0) - (a.price ?? 0));
-    }
+async function getBrowserState(
+  searchParams: ProductsPageProps["searchParams"]
+): Promise<ProductBrowserState> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(await searchParams)) {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first !== undefined) params.set(key, first);
+  }
+
+  return parseProductBrowserState(params, BRANDS);
+}
 
-    return result;
-  }, [selectedCategory, searchQuery, sortBy]);
+/**
+ * Title and canonical URL for the current filters and page.
+ */
+export async function generateMetadata({
+  searchParams,
+}: ProductsPageProps): Promise<Metadata> {
+  const state = await getBrowserState(searchParams);
+  const heading =
+    state.category === "all"
+      ? "All Products"
+      : state.subcategory
+        ? `${state.subcategory} – ${state.category}`
+        : state.category;
+
+  return {
+    title: state.page > 1 ? `${heading} – Page ${state.page}` : heading,
+    alternates: {
+      canonical: getProductBrowserUrl(state),
+    },
+  };
+}
 
-  const displayedProducts = processedProducts.slice(0, displayCount);
-  const hasMore = displayCount < processedProducts.length;
+/**
+ * ProductsPage renders one page of the filtered listing.
+ */
+export default async function ProductsPage({ searchParams }: ProductsPageProps) {
+  const state = await getBrowserState(searchParams);
 
-  const handleLoadMore = () => {
-    setDisplayCount((prev) => prev + 20);
-  };
+  /**
+   * Filter, search, sort and paginate in the data layer.
+   * Uses queryProducts() from lib/products.ts (shared with /api/products).
+   */
+  const {
+    products,
+    total: totalProducts,
+    highlights,
+    priceHistogram,
+  } = queryProducts({
+    category: state.category,
+    subcategory: state.subcategory ?? undefined,
+    brand: state.brand ?? undefined,
+    search: state.search,
+    minPrice: state.minPrice ?? undefined,
+    maxPrice: state.maxPrice ?? undefined,
+    sort: state.sort,
+    offset: (state.page - 1) * PRODUCTS_PAGE_SIZE,
+    limit: PRODUCTS_PAGE_SIZE,
+  });
+
+  const totalPages = Math.ceil(totalProducts / PRODUCTS_PAGE_SIZE);
+
+  /* Pages past the end don't exist (page 1 always does, even when empty) */
+  if (state.page > 1 && state.page > totalPages) {
+    notFound();
+  }
 
   return (
     <>
+      {/* Crawlable pagination (React hoists these into <head>) */}
+      {state.page > 1 && (
+        <link
+          rel="prev"
+          href={getProductBrowserUrl({ ...state, page: state.page - 1 })}
+        />
+      )}
+      {state.page < totalPages && (
+        <link
+          rel="next"
+          href={getProductBrowserUrl({ ...state, page: state.page + 1 })}
+        />
+      )}
+
       <Navbar />
 
       <main className="min-h-screen bg-surface-base">
@@ -124,157 +159,55 @@ function ProductsPageContent() {
             <Link href="/products" className="hover:text-text-primary transition-colors">
               PRODUCTS
             </Link>
-            {selectedCategory !== "all" && (
+            {state.category !== "all" && (
+              <>
+                <span className="mx-2 text-text-subtle">•</span>
+                {state.subcategory ? (
+                  <Link
+                    href={getCategoryUrl(state.category)}
+                    className="hover:text-text-primary transition-colors"
+                  >
+                    {getCategoryLabel(state.category)}
+                  </Link>
+                ) : (
+                  <span className="text-text-primary">
+                    {getCategoryLabel(state.category)}
+                  </span>
+                )}
+              </>
+            )}
+            {state.subcategory && (
               <>
                 <span className="mx-2 text-text-subtle">•</span>
                 <span className="text-text-primary">
-                  {getCategoryLabel(selectedCategory)}
+                  {state.subcategory.toUpperCase()}
                 </span>
               </>
             )}
           </nav>
         </div>
 
-        {/* Category Tab Bar */}
-        <CategoryFilter
-          value={selectedCategory}
-          onChange={(val) => {
-            setSelectedCategory(val);
-            setDisplayCount(20); // Reset display count on category change
-            
-            // Update URL directly using browser history API to avoid navigation flash
-            const params = new URLSearchParams(searchParams.toString());
-            if (val === "all") {
-              params.delete("category");
-            } else {
-              params.set("category", val);
-            }
-            
-            const newUrl = `/products?${params.toString()}`;
-            window.history.replaceState(null, "", newUrl);
-          }}
+        <ProductBrowserToolbar
+          state={state}
+          brands={BRANDS}
+          totalProducts={totalProducts}
+          priceHistogram={priceHistogram}
         />
 
-        {/* Search + Sort Toolbar */}
-        <div
-          className="
-            px-6 md:px-12 lg:px-16
-            py-4
-            flex flex-col sm:flex-row
-            items-stretch sm:items-center
-            justify-between
-            gap-4
-            border-b border-border-default
-          "
-        >
-          {/* Search input */}
-          <div className="relative flex-1 max-w-md">
-            <svg
-              className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-text-subtle"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
-              />
-            </svg>
-            <input
-              type="text"
-              placeholder={`Search ${processedProducts.length} products...`}
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="
-                w-full
-                pl-10 pr-4 py-3
-                bg-surface-elevated
-                border border-border-default
-                rounded-lg
-                text-sm text-text-primary
-                placeholder:text-text-subtle
-                focus:outline-none
-                focus:border-border-strong
-                transition-colors
-              "
-            />
-          </div>
-
-          {/* Sort dropdown */}
-          <div className="flex items-center gap-3">
-            <span className="text-meta text-text-muted">SORT BY:</span>
-            <select
-              value={sortBy}
-              onChange={(e) => setSortBy(e.target.value as SortOption)}
-              className="
-                px-4 py-3
-                bg-surface-elevated
-                border border-border-default
-                rounded-lg
-                text-sm text-text-primary
-                focus:outline-none
-                focus:border-border-strong
-                cursor-pointer
-                transition-colors
-              "
-            >
-              <option value="default">Default</option>
-              <option value="price-asc">Price: Low to High</option>
-              <option value="price-desc">Price: High to Low</option>
-            </select>
-          </div>
-        </div>
-
         {/* Product count & grid */}
-        <div className="px-6 md:px-12 lg:px-16 py-8">
-          <p className="text-meta text-text-muted mb-6">
-            SHOWING {displayedProducts.length} OF {processedProducts.length}{" "}
-            PRODUCTS
-          </p>
-
-          <ProductGrid products={displayedProducts} />
+        <div className="px-6 md:px-12 lg:px-16 py-8 pb-12">
+          {/* Keyed by URL so appended pages reset when the filters change */}
+          <InfiniteProductGrid
+            key={getProductBrowserUrl(state)}
+            state={state}
+            initialProducts={products}
+            initialHighlights={highlights}
+            totalProducts={totalProducts}
+          />
         </div>
-
-        {/* Load more button */}
-        {hasMore && (
-          <div className="px-6 md:px-12 lg:px-16 pb-12 text-center">
-            <button
-              onClick={handleLoadMore}
-              className="btn-secondary btn-lg px-12"
-            >
-              Load More
-            </button>
-          </div>
-        )}
       </main>
 
       <Footer />
     </>
   );
 }
-
-/**
- * ProductsPage - Wrapper with Suspense boundary
- * Required for useSearchParams in Next.js App Router
- */
-export default function ProductsPage() {
-  return (
-    <Suspense
-      fallback={
-        <>
-          <Navbar />
-          <main className="min-h-screen bg-surface-base">
-            <div className="px-6 md:px-12 lg:px-16 py-8">
-              <p className="text-text-muted">Loading...</p>
-            </div>
-          </main>
-          <Footer />
-        </>
-      }
-    >
-      <ProductsPageContent />
-    </Suspense>
-  );
-}
@@ -1,8 +1,12 @@
 /**
  * Quality Check Page
  *
- * Displays a detailed quality report for a product.
- * Server component that fetches product by slug.
+ * Displays the QC report for a product: every posted photo set with its
+ * date, batch, verdict, measurements, flaws and reviewer notes (from
+ * data/qc-reports.json via lib/qc.ts), or a "no QC yet" state.
+ * Server component that fetches product by slug, with per-product
+ * metadata; a posted report is marked up as a schema.org Review
+ * (lib/product-seo.ts).
  *
  * Design:
  * - "Techy" report aesthetic with grid lines
@@ -12,15 +16,25 @@
  * Route: /quality/[slug]
  */
 
+import type { Metadata } from "next";
 import { notFound } from "next/navigation";
 import Link from "next/link";
+import Image from "next/image";
 
 /* Component imports */
 import Navbar from "@/components/Navbar";
 import Footer from "@/components/Footer";
+import BuyLink from "@/components/BuyLink";
+import Price from "@/components/Price";
+import QcVerdictBadge from "@/components/QcVerdictBadge";
+import JsonLd from "@/components/JsonLd";
 
 /* Data imports */
+import { isOptimizableImage } from "@/lib/images";
 import { getProductBySlug, getProductSlug } from "@/lib/products";
+import { getQcReviewJsonLd, getQualityMetadata } from "@/lib/product-seo";
+import { QC_VERDICT_LABELS, formatQcDate, getQcReport } from "@/lib/qc";
+import { getPlatformName } from "@/lib/seller";
 
 /**
  * Page props with dynamic route parameter.
@@ -31,16 +45,6 @@ interface QualityPageProps {
   }>;
 }
 
-/**
- * Get platform name from buy URL.
- */
-function getPlatformName(url: string): string {
-  if (url.includes("taobao")) return "TAOBAO";
-  if (url.includes("weidian")) return "WEIDIAN";
-  if (url.includes("1688")) return "1688";
-  return "SELLER";
-}
-
 /**
  * Capitalize first letter of each word.
  */
@@ -51,6 +55,18 @@ function titleCase(str: string): string {
     .join(" ");
 }
 
+/**
+ * Per-product title, description, canonical URL and link previews.
+ */
+export async function generateMetadata({
+  params,
+}: QualityPageProps): Promise<Metadata> {
+  const product = getProductBySlug((await params).slug);
+  if (!product) return {};
+
+  return getQualityMetadata(product, getQcReport(product.id));
+}
+
 /**
  * QualityCheckPage displays a detailed quality report for a product.
  */
@@ -67,15 +83,13 @@ export default async function QualityCheckPage({ params }: QualityPageProps) {
 
   const platformName = getPlatformName(product.buyUrl);
   const productSlug = getProductSlug(product);
-  const hasImage = product.imageUrl !== null && product.imageUrl !== "";
 
-  /* Placeholder images for gallery (repeat single image or show placeholders) */
-  const galleryImages = hasImage
-    ? [product.imageUrl, product.imageUrl, product.imageUrl, product.imageUrl]
-    : [null, null, null, null];
+  /* QC photo sets, or null when none have been posted */
+  const report = getQcReport(product.id);
 
   return (
     <>
+      {report && <JsonLd data={getQcReviewJsonLd(product, report)} />}
       <Navbar />
 
       <main className="min-h-screen bg-black relative">
@@ -117,6 +131,7 @@ export default async function QualityCheckPage({ params }: QualityPageProps) {
                 Quality Check
               </span>
               <div className="flex-1 h-px bg-white/10" />
+              {report && <QcVerdictBadge verdict={report.latest.verdict} />}
               <span className="text-[10px] font-mono text-neutral-600">
                 QC-{product.id}
               </span>
@@ -147,7 +162,10 @@ export default async function QualityCheckPage({ params }: QualityPageProps) {
                 </>
               )}
               <span className="text-white font-medium">
-                {product.priceText || "Price on site"}
+                <Price
+                  amount={product.price}
+                  fallback={product.priceText || "Price on site"}
+                />
               </span>
             </div>
           </header>
@@ -180,18 +198,34 @@ export default async function QualityCheckPage({ params }: QualityPageProps) {
 
             {/* Overview content */}
             <div className="pl-8 md:pl-12">
-              <p className="text-neutral-400 text-sm md:text-base leading-relaxed max-w-2xl">
-                This quality check report provides an assessment of the{" "}
-                <span className="text-white">{product.name}</span>. The item has
-                been reviewed for material quality, stitching, accuracy to retail,
-                and overall construction. Below you'll find detailed photos and
-                specifications to help inform your purchase decision.
-              </p>
+              {report ? (
+                <p className="text-neutral-400 text-sm md:text-base leading-relaxed max-w-2xl">
+                  {report.sets.length === 1
+                    ? "One QC set has"
+                    : `${report.sets.length} QC sets have`}{" "}
+                  been posted for the{" "}
+                  <span className="text-white">{product.name}</span>. The latest,
+                  from the <span className="text-white">{report.latest.batch}</span>{" "}
+                  batch on {formatQcDate(report.latest.date)}, got a{" "}
+                  <span className="text-white">
+                    {QC_VERDICT_LABELS[report.latest.verdict].toLowerCase()}
+                  </span>
+                  . Photos, measurements and flaws for each set are below.
+                </p>
+              ) : (
+                <p className="text-neutral-400 text-sm md:text-base leading-relaxed max-w-2xl">
+                  No QC photos have been posted for the{" "}
+                  <span className="text-white">{product.name}</span> yet, so
+                  there are no measurements or flaws to report. Ask your agent
+                  for QC photos before your haul ships and compare them with the
+                  seller listing.
+                </p>
+              )}
             </div>
           </section>
 
           {/* ===========================================
-              SECTION 02: PHOTOS / GALLERY
+              SECTION 02: QC SETS
               =========================================== */}
           <section className="mb-12 md:mb-16">
             {/* Section header */}
@@ -211,186 +245,231 @@ export default async function QualityCheckPage({ params }: QualityPageProps) {
                   text-neutral-400
                 "
               >
-                Photos
+                QC Photos
               </span>
               <div className="flex-1 h-px bg-white/10" />
             </div>
 
-            {/* Gallery: Horizontal scroll */}
-            <div className="pl-8 md:pl-12">
-              <div className="overflow-x-auto scrollbar-hide -mr-6 md:-mr-12 lg:-mr-16">
-                <div className="flex gap-4 pb-4 pr-6 md:pr-12 lg:pr-16">
-                  {galleryImages.map((imageUrl, index) => (
+            <div className="pl-8 md:pl-12 space-y-8">
+              {report ? (
+                report.sets.map((set, setIndex) => (
+                  <article
+                    key={`${set.date}-${set.batch}-${setIndex}`}
+                    className="border border-white/10 rounded-lg overflow-hidden"
+                  >
+                    {/* Set header: date, batch, reviewer, verdict */}
                     <div
-                      key={index}
                       className="
-                        flex-shrink-0
-                        w-[200px] md:w-[260px] lg:w-[300px]
-                        aspect-[4/5]
-                        bg-neutral-950
-                        border border-white/10
-                        rounded-lg
-                        overflow-hidden
-                        relative
+                        flex flex-wrap items-center gap-x-4 gap-y-2
+                        px-4 py-3
+                        border-b border-white/10
+                        bg-neutral-950/60
                       "
                     >
-                      {imageUrl ? (
-                        <img
-                          src={imageUrl}
-                          alt={`${product.name} - Photo ${index + 1}`}
-                          className="w-full h-full object-cover"
-                        />
+                      <span className="text-[10px] font-mono text-neutral-600">
+                        SET {String(setIndex + 1).padStart(2, "0")}
+                      </span>
+                      <span className="text-sm text-white font-mono">
+                        {formatQcDate(set.date)}
+                      </span>
+                      <span className="text-xs text-neutral-500">
+                        Batch <span className="text-neutral-300">{set.batch}</span>
+                      </span>
+                      <span className="text-xs text-neutral-500">
+                        Reviewed by{" "}
+                        <span className="text-neutral-300">{set.reviewer}</span>
+                      </span>
+                      <span className="ml-auto">
+                        <QcVerdictBadge verdict={set.verdict} showLabel />
+                      </span>
+                    </div>
+
+                    <div className="p-4 space-y-6">
+                      {/* Photos: Horizontal scroll */}
+                      {set.photos.length > 0 ? (
+                        <div className="overflow-x-auto scrollbar-hide -mx-4">
+                          <div className="flex gap-4 px-4 pb-2">
+                            {set.photos.map((photoUrl, index) => (
+                              <a
+                                key={photoUrl}
+                                href={photoUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="
+                                  flex-shrink-0
+                                  w-[200px] md:w-[240px]
+                                  aspect-[4/5]
+                                  bg-neutral-950
+                                  border border-white/10
+                                  rounded-lg
+                                  overflow-hidden
+                                  relative
+                                "
+                              >
+                                <Image
+                                  src={photoUrl}
+                                  alt={`${product.name} - QC photo ${index + 1}, ${set.batch} batch`}
+                                  fill
+                                  sizes="240px"
+                                  unoptimized={!isOptimizableImage(photoUrl)}
+                                  className="object-cover"
+                                />
+
+                                {/* Photo number badge */}
+                                <div
+                                  className="
+                                    absolute top-3 left-3
+                                    px-2 py-1
+                                    text-[9px] font-mono
+                                    text-neutral-500
+                                    bg-black/80
+                                    backdrop-blur-sm
+                                    rounded
+                                  "
+                                >
+                                  {String(index + 1).padStart(2, "0")}
+                                </div>
+                              </a>
+                            ))}
+                          </div>
+                        </div>
                       ) : (
-                        <div
-                          className="
-                            w-full h-full
-                            flex flex-col items-center justify-center
-                            bg-gradient-to-br from-neutral-900 to-neutral-950
-                          "
-                        >
+                        <p className="text-sm text-neutral-500">
+                          No photos in this set.
+                        </p>
+                      )}
+
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 md:gap-8">
+                        {/* Measurements */}
+                        <div>
                           <span
                             className="
-                              text-[10px] font-semibold
-                              tracking-widest uppercase
-                              text-neutral-600
+                              block
+                              text-[10px] font-bold
+                              tracking-[0.2em] uppercase
+                              text-neutral-500
+                              mb-2
                             "
                           >
-                            No Image
+                            Measurements
                           </span>
+                          {set.measurements.length > 0 ? (
+                            <dl className="border border-white/10 rounded-lg overflow-hidden">
+                              {set.measurements.map((measurement, index) => (
+                                <div
+                                  key={measurement.label}
+                                  className={`
+                                    flex items-center justify-between gap-4
+                                    px-3 py-2
+                                    ${index !== 0 ? "border-t border-white/5" : ""}
+                                  `}
+                                >
+                                  <dt className="text-xs text-neutral-400">
+                                    {measurement.label}
+                                  </dt>
+                                  <dd className="text-sm text-white font-mono text-right">
+                                    {measurement.value}
+                                    {measurement.expected && (
+                                      <span className="block text-[10px] text-neutral-600">
+                                        chart: {measurement.expected}
+                                      </span>
+                                    )}
+                                  </dd>
+                                </div>
+                              ))}
+                            </dl>
+                          ) : (
+                            <p className="text-neutral-500 text-sm">
+                              Not measured.
+                            </p>
+                          )}
                         </div>
-                      )}
 
-                      {/* Photo number badge */}
-                      <div
-                        className="
-                          absolute top-3 left-3
-                          px-2 py-1
-                          text-[9px] font-mono
-                          text-neutral-500
-                          bg-black/80
-                          backdrop-blur-sm
-                          rounded
-                        "
-                      >
-                        {String(index + 1).padStart(2, "0")}
+                        {/* Flaws */}
+                        <div>
+                          <span
+                            className="
+                              block
+                              text-[10px] font-bold
+                              tracking-[0.2em] uppercase
+                              text-neutral-500
+                              mb-2
+                            "
+                          >
+                            Flaws
+                          </span>
+                          {set.flaws.length > 0 ? (
+                            <ul className="space-y-1.5">
+                              {set.flaws.map((flaw) => (
+                                <li
+                                  key={flaw}
+                                  className="text-neutral-300 text-sm before:content-['–'] before:mr-2 before:text-neutral-600"
+                                >
+                                  {flaw}
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <p className="text-neutral-300 text-sm">
+                              No flaws spotted.
+                            </p>
+                          )}
+                        </div>
                       </div>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            </div>
-          </section>
 
-          {/* ===========================================
-              SECTION 03: DETAILS
-              =========================================== */}
-          <section className="mb-12 md:mb-16">
-            {/* Section header */}
-            <div className="flex items-center gap-4 mb-6">
-              <span
-                className="
-                  text-[11px] font-mono
-                  text-neutral-600
-                "
-              >
-                03
-              </span>
-              <span
-                className="
-                  text-[10px] font-bold
-                  tracking-[0.2em] uppercase
-                  text-neutral-400
-                "
-              >
-                Details
-              </span>
-              <div className="flex-1 h-px bg-white/10" />
-            </div>
-
-            {/* Details grid */}
-            <div className="pl-8 md:pl-12">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 md:gap-8">
-                {/* Material */}
-                <div>
-                  <span
-                    className="
-                      block
-                      text-[10px] font-bold
-                      tracking-[0.2em] uppercase
-                      text-neutral-500
-                      mb-2
-                    "
-                  >
-                    Material
-                  </span>
-                  <p className="text-neutral-300 text-sm">
-                    Premium quality fabric blend. Check seller listing for exact
-                    material composition.
-                  </p>
-                </div>
-
-                {/* Fit */}
-                <div>
-                  <span
-                    className="
-                      block
-                      text-[10px] font-bold
-                      tracking-[0.2em] uppercase
-                      text-neutral-500
-                      mb-2
-                    "
-                  >
-                    Fit
-                  </span>
-                  <p className="text-neutral-300 text-sm">
-                    Varies by size. Reference seller's size chart for accurate
-                    measurements.
-                  </p>
-                </div>
-
-                {/* Sizing */}
-                <div>
-                  <span
-                    className="
-                      block
-                      text-[10px] font-bold
-                      tracking-[0.2em] uppercase
-                      text-neutral-500
-                      mb-2
-                    "
-                  >
-                    Sizing
-                  </span>
-                  <p className="text-neutral-300 text-sm">
-                    Asian sizing may run smaller. Consider sizing up 1-2 sizes
-                    from your usual fit.
-                  </p>
-                </div>
-
-                {/* Notes */}
-                <div>
+                      {/* Reviewer notes */}
+                      {set.notes && (
+                        <div>
+                          <span
+                            className="
+                              block
+                              text-[10px] font-bold
+                              tracking-[0.2em] uppercase
+                              text-neutral-500
+                              mb-2
+                            "
+                          >
+                            Notes
+                          </span>
+                          <p className="text-neutral-300 text-sm leading-relaxed">
+                            {set.notes}
+                          </p>
+                        </div>
+                      )}
+                    </div>
+                  </article>
+                ))
+              ) : (
+                /* No QC yet: say so instead of showing stand-in photos */
+                <div
+                  className="
+                    px-6 py-10
+                    border border-dashed border-white/10
+                    rounded-lg
+                    text-center
+                  "
+                >
                   <span
                     className="
                       block
                       text-[10px] font-bold
-                      tracking-[0.2em] uppercase
+                      tracking-[0.3em] uppercase
                       text-neutral-500
                       mb-2
                     "
                   >
-                    Notes
+                    No QC yet
                   </span>
-                  <p className="text-neutral-300 text-sm">
-                    Item ships from China. Typical delivery is 2-4 weeks
-                    depending on shipping method selected.
+                  <p className="text-neutral-500 text-sm">
+                    QC photo sets will appear here once they&apos;re posted.
                   </p>
                 </div>
-              </div>
+              )}
             </div>
           </section>
 
           {/* ===========================================
-              SECTION 04: SPECS
+              SECTION 03: SPECS
               =========================================== */}
           <section className="mb-12 md:mb-16">
             {/* Section header */}
@@ -401,7 +480,7 @@ export default async function QualityCheckPage({ params }: QualityPageProps) {
                   text-neutral-600
                 "
               >
-                04
+                03
               </span>
               <span
                 className="
@@ -423,13 +502,23 @@ export default async function QualityCheckPage({ params }: QualityPageProps) {
                   { label: "Category", value: product.category ? titleCase(product.category) : "Uncategorized" },
                   {
                     label: "Price",
-                    value: product.priceText || "Price on site",
+                    value: (
+                      <Price
+                        amount={product.price}
+                        fallback={product.priceText || "Price on site"}
+                      />
+                    ),
                   },
                   {
-                    label: "Estimated USD",
-                    value: product.price ? `$${product.price.toFixed(2)}` : "N/A",
+                    label: "≈ in CNY",
+                    value: <Price amount={product.price} fallback="N/A" currency="CNY" />,
                   },
                   { label: "Platform", value: platformName },
+                  { label: "QC Sets", value: report ? report.sets.length : "None yet" },
+                  {
+                    label: "Latest Verdict",
+                    value: report ? QC_VERDICT_LABELS[report.latest.verdict] : "N/A",
+                  },
                   { label: "Status", value: "Available" },
                 ].map((row, index) => (
                   <div
@@ -470,7 +559,7 @@ export default async function QualityCheckPage({ params }: QualityPageProps) {
                   text-neutral-600
                 "
               >
-                05
+                04
               </span>
               <span
                 className="
@@ -507,14 +596,12 @@ export default async function QualityCheckPage({ params }: QualityPageProps) {
 
                 {/* 
                   Primary CTA: "Buy on [Platform]"
-                  - Opens external seller URL in new tab
+                  - Opens the listing on the preferred agent in a new tab
                   - Uses btn-primary (solid white)
                   - Additional hover effects for prominence
                 */}
-                <a
-                  href={product.buyUrl}
-                  target="_blank"
-                  rel="noopener noreferrer"
+                <BuyLink
+                  buyUrl={product.buyUrl}
                   className="
                     btn-primary
                     hover:scale-[1.03]
@@ -522,7 +609,7 @@ export default async function QualityCheckPage({ params }: QualityPageProps) {
                   "
                 >
                   Buy on {platformName}
-                </a>
+                </BuyLink>
               </div>
             </div>
           </section>
@@ -0,0 +1,78 @@
+/**
+ * Saved Page
+ *
+ * Lists the products saved with the heart toggle (stored in localStorage,
+ * see lib/wishlist.ts), or a list shared via /saved?ids=1,2,3.
+ *
+ * Route: /saved
+ */
+
+import type { Metadata } from "next";
+import Link from "next/link";
+
+/* Component imports */
+import Navbar from "@/components/Navbar";
+import SavedProducts from "@/components/SavedProducts";
+import Footer from "@/components/Footer";
+
+/* Data imports */
+import { parseSharedIds } from "@/lib/wishlist";
+
+/**
+ * Page props with the optional shared ID list.
+ */
+interface SavedPageProps {
+  searchParams: Promise<{
+    ids?: string | string[];
+  }>;
+}
+
+/**
+ * Saved lists are personal, so keep them out of search results.
+ */
+export const metadata: Metadata = {
+  title: "Saved",
+  robots: { index: false },
+};
+
+/**
+ * SavedPage renders the local or shared saved list.
+ */
+export default async function SavedPage({ searchParams }: SavedPageProps) {
+  const { ids } = await searchParams;
+  const sharedIds =
+    ids === undefined ? null : parseSharedIds(Array.isArray(ids) ? ids[0] : ids);
+
+  return (
+    <>
+      <Navbar />
+
+      <main className="min-h-screen bg-surface-base">
+        {/* Breadcrumb */}
+        <div className="px-6 md:px-12 lg:px-16 py-4">
+          <nav className="text-meta text-text-muted">
+            <Link href="/" className="hover:text-text-primary transition-colors">
+              HOME
+            </Link>
+            <span className="mx-2 text-text-subtle">•</span>
+            <span className="text-text-primary">SAVED</span>
+          </nav>
+        </div>
+
+        {/* Header */}
+        <header className="px-6 md:px-12 lg:px-16 py-8 border-b border-border-default">
+          <span className="text-meta text-text-muted mb-2 block">
+            {sharedIds ? "Shared list" : "Your list"}
+          </span>
+          <h1 className="heading-hero">
+            {sharedIds ? "Shared Finds" : "Saved Finds"}
+          </h1>
+        </header>
+
+        <SavedProducts sharedIds={sharedIds} />
+      </main>
+
+      <Footer />
+    </>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+/**
+ * AgentSelect Component
+ *
+ * Dropdown for picking the shopping agent every Buy button goes through.
+ * The choice is saved in localStorage (see lib/use-preferred-agent.ts).
+ */
+
+import { getAgents } from "@/lib/agents";
+import { usePreferredAgent } from "@/lib/use-preferred-agent";
+
+/**
+ * AgentSelect renders the labelled agent dropdown.
+ */
+export default function AgentSelect() {
+  const { agent, setAgent } = usePreferredAgent();
+
+  return (
+    <label className="flex items-center gap-3">
+      <span className="text-meta text-text-muted">BUY THROUGH:</span>
+      <select
+        value={agent.id}
+        onChange={(e) => setAgent(e.target.value)}
+        className="
+          px-4 py-3
+          bg-surface-elevated
+          border border-border-default
+          rounded-lg
+          text-sm text-text-primary
+          focus:outline-none
+          focus:border-border-strong
+          cursor-pointer
+          transition-colors
+        "
+      >
+        {getAgents().map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+/**
+ * BuyLink Component
+ *
+ * External "Buy" link that goes through the shopper's preferred shopping
+ * agent (see lib/use-preferred-agent.ts), rebuilt from the product's
+ * buyUrl by lib/agents.ts. Every Buy button on the site renders one.
+ *
+ * The server render uses the default agent, so the link works before
+ * hydration and without JavaScript.
+ */
+
+import { getAgentBuyUrl } from "@/lib/agents";
+import { usePreferredAgent } from "@/lib/use-preferred-agent";
+
+/**
+ * Props for the BuyLink component.
+ */
+interface BuyLinkProps {
+  /** The product's buyUrl from the catalog */
+  buyUrl: string;
+  className: string;
+  children: React.ReactNode;
+}
+
+/**
+ * BuyLink renders a new-tab link to the product on the preferred agent.
+ */
+export default function BuyLink({ buyUrl, className, children }: BuyLinkProps) {
+  const { agent } = usePreferredAgent();
+
+  return (
+    <a
+      href={getAgentBuyUrl(buyUrl, agent)}
+      target="_blank"
+      rel="noopener noreferrer"
+      title={`Buy through ${agent.name}`}
+      className={className}
+    >
+      {children}
+    </a>
+  );
+}
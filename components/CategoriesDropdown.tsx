@@ -9,8 +9,9 @@
  * Mobile: Full-screen overlay with slide-down animation
  *
  * Features:
- * - Lists all 8 categories from NEW_CATEGORIES
- * - Each category links to /products?category={categoryName}
+ * - Lists every category from the taxonomy (data/taxonomy.json) with its icon
+ * - Each category links to its landing page (/category/[slug]); on desktop
+ *   its subcategories are listed underneath, linking to the filtered listing
  * - Click-outside detection (desktop)
  * - Escape key support
  * - Body scroll lock (mobile)
@@ -20,7 +21,12 @@
 import Link from "next/link";
 import { useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
-import { NEW_CATEGORIES } from "@/lib/products";
+import {
+  NEW_CATEGORIES,
+  getCategoryIcon,
+  getCategoryUrl,
+  getSubcategories,
+} from "@/lib/categories";
 
 interface CategoriesDropdownProps {
   isOpen: boolean;
@@ -82,7 +88,7 @@ export default function CategoriesDropdown({
 
   // Handle category selection
   const handleCategoryClick = (category: string) => {
-    router.push(`/products?category=${encodeURIComponent(category)}`);
+    router.push(getCategoryUrl(category));
     onClose();
   };
 
@@ -95,7 +101,8 @@ export default function CategoriesDropdown({
         ref={dropdownRef}
         className="
           absolute top-full right-0 mt-2
-          min-w-[200px] max-w-[280px]
+          min-w-[220px] max-w-[320px]
+          max-h-[70vh] overflow-y-auto
           bg-surface-elevated
           border border-border-default
           rounded-lg
@@ -106,27 +113,54 @@ export default function CategoriesDropdown({
         "
       >
         <div className="py-2">
-          {NEW_CATEGORIES.map((category) => (
-            <Link
-              key={category}
-              href={`/products?category=${encodeURIComponent(category)}`}
-              onClick={onClose}
-              className="
-                block
-                px-4 py-3
-                text-sm
-                font-medium
-                text-text-secondary
-                hover:bg-surface-raised
-                hover:text-text-primary
-                transition-colors duration-150
-                uppercase
-                tracking-wider
-              "
-            >
-              {category}
-            </Link>
-          ))}
+          {NEW_CATEGORIES.map((category) => {
+            const subcategories = getSubcategories(category);
+
+            return (
+              <div key={category}>
+                <Link
+                  href={getCategoryUrl(category)}
+                  onClick={onClose}
+                  className="
+                    flex items-center gap-2
+                    px-4 py-3
+                    text-sm
+                    font-medium
+                    text-text-secondary
+                    hover:bg-surface-raised
+                    hover:text-text-primary
+                    transition-colors duration-150
+                    uppercase
+                    tracking-wider
+                  "
+                >
+                  <span aria-hidden="true">{getCategoryIcon(category)}</span>
+                  {category}
+                </Link>
+
+                {/* Subcategory links */}
+                {subcategories.length > 0 && (
+                  <div className="flex flex-wrap gap-x-3 gap-y-1 pl-10 pr-4 pb-3 -mt-1">
+                    {subcategories.map((subcategory) => (
+                      <Link
+                        key={subcategory}
+                        href={getCategoryUrl(category, subcategory)}
+                        onClick={onClose}
+                        className="
+                          text-xs
+                          text-text-muted
+                          hover:text-text-primary
+                          transition-colors duration-150
+                        "
+                      >
+                        {subcategory}
+                      </Link>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
         </div>
       </div>
     );
@@ -190,11 +224,11 @@ export default function CategoriesDropdown({
         {NEW_CATEGORIES.map((category, index) => (
           <Link
             key={category}
-            href={`/products?category=${encodeURIComponent(category)}`}
+            href={getCategoryUrl(category)}
             onClick={() => handleCategoryClick(category)}
             className="
               group
-              flex items-center
+              flex items-center gap-4
               py-4
               border-b border-border-subtle
             "
@@ -202,6 +236,9 @@ export default function CategoriesDropdown({
               animationDelay: `${index * 30}ms`,
             }}
           >
+            <span aria-hidden="true" className="text-2xl sm:text-3xl">
+              {getCategoryIcon(category)}
+            </span>
             <span
               className="
                 font-display
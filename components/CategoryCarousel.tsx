@@ -4,7 +4,9 @@
  * CategoryCarousel Component
  *
  * A horizontal auto-scrolling carousel of category cards for the landing page.
- * Uses dynamic categories from lib/products.ts.
+ * Categories and their icons come from the taxonomy (data/taxonomy.json,
+ * via lib/categories.ts); each card links to the category's landing page
+ * (/category/[slug]).
  *
  * Design v2.0:
  * - Display font for section heading
@@ -14,60 +16,14 @@
  */
 
 import Link from "next/link";
-import { getAllCategories } from "@/lib/products";
+import {
+  getAllCategories,
+  getCategoryIcon,
+  getCategoryUrl,
+  getSubcategories,
+} from "@/lib/categories";
 import { useRef, useEffect } from "react";
 
-/**
- * Emoji icons for common category types.
- * Falls back to 📦 for unknown categories.
- */
-const CATEGORY_ICONS: Record<string, string> = {
-  shoes: "👟",
-  jackets: "🧥",
-  hoodies: "🧥",
-  pants: "👖",
-  shorts: "🩳",
-  bags: "👜",
-  jewelry: "💎",
-  accessories: "🧢",
-  electronics: "🎧",
-  shirts: "👕",
-  tops: "👕",
-  hats: "🎩",
-  belts: "🔗",
-  socks: "🧦",
-  glasses: "🕶️",
-  wallets: "💼",
-  backpacks: "🎒",
-  travel: "✈️",
-  underwear: "🩲",
-  blanks: "⬜",
-  beanies: "🧢",
-  gloves: "🧤",
-  scarf: "🧣",
-};
-
-/**
- * Get icon for a category (case-insensitive match).
- */
-function getCategoryIcon(category: string): string {
-  const normalized = category.toLowerCase();
-  
-  // Check for exact match
-  if (CATEGORY_ICONS[normalized]) {
-    return CATEGORY_ICONS[normalized];
-  }
-  
-  // Check for partial match
-  for (const [key, icon] of Object.entries(CATEGORY_ICONS)) {
-    if (normalized.includes(key) || key.includes(normalized)) {
-      return icon;
-    }
-  }
-  
-  return "📦"; // Default icon
-}
-
 /**
  * CategoryCarousel renders an auto-scrolling carousel with dynamic categories.
  */
@@ -225,7 +181,7 @@ export default function CategoryCarousel() {
           {duplicatedCategories.map((category, index) => (
             <Link
               key={`${category}-${index}`}
-              href={`/products?category=${encodeURIComponent(category)}`}
+              href={getCategoryUrl(category)}
               className="
                 flex-shrink-0
                 w-[180px] md:w-[240px] lg:w-[280px]
@@ -253,6 +209,11 @@ export default function CategoryCarousel() {
                 >
                   {category.toUpperCase()}
                 </span>
+                {getSubcategories(category).length > 0 && (
+                  <span className="block mt-1 text-xs text-text-muted line-clamp-2">
+                    {getSubcategories(category).join(" · ")}
+                  </span>
+                )}
               </div>
 
               {/* Icon area */}
@@ -3,8 +3,9 @@
 /**
  * CategoryFilter Component (Tab Bar)
  *
- * A full-width tab bar for selecting product categories.
- * Categories are loaded dynamically from the products data.
+ * A full-width tab bar for selecting product categories, plus a row of
+ * subcategory chips once a category with subcategories is selected.
+ * Both come from the taxonomy (data/taxonomy.json, via lib/categories.ts).
  *
  * Design v2.0:
  * - Layered grey surface colors
@@ -13,7 +14,7 @@
  * - Refined typography
  */
 
-import { getAllCategories } from "@/lib/products";
+import { getAllCategories, getSubcategories } from "@/lib/categories";
 
 /**
  * CategoryFilterValue represents the possible filter states.
@@ -27,6 +28,9 @@ export type CategoryFilterValue = string | "all";
 interface CategoryFilterProps {
   value: CategoryFilterValue;
   onChange: (next: CategoryFilterValue) => void;
+  /** Selected subcategory of `value`, or null for the whole category */
+  subcategory: string | null;
+  onSubcategoryChange: (next: string | null) => void;
 }
 
 /**
@@ -50,51 +54,99 @@ function getCategoryTabs(): { value: CategoryFilterValue; label: string }[] {
 export default function CategoryFilter({
   value,
   onChange,
+  subcategory,
+  onSubcategoryChange,
 }: CategoryFilterProps) {
   const tabs = getCategoryTabs();
+  const subcategories = value === "all" ? [] : getSubcategories(value);
 
   return (
-    <div
-      id="categories"
-      className="
-        w-full
-        bg-surface-nav
-        border-y border-border-default
-        overflow-x-auto
-        scrollbar-hide
-      "
-    >
-      <div className="flex min-w-max">
-        {tabs.map((tab) => {
-          const isActive = value === tab.value;
+    <>
+      <div
+        id="categories"
+        className="
+          w-full
+          bg-surface-nav
+          border-y border-border-default
+          overflow-x-auto
+          scrollbar-hide
+        "
+      >
+        <div className="flex min-w-max">
+          {tabs.map((tab) => {
+            const isActive = value === tab.value;
 
-          return (
-            <button
-              key={tab.value}
-              onClick={() => onChange(tab.value)}
-              className={`
-                px-6 py-4
-                text-xs
-                font-semibold
-                tracking-[0.1em]
-                border-r border-border-default
-                cursor-pointer
-                whitespace-nowrap
-                transition-all duration-200
-                ${
-                  isActive
-                    ? /* Active: bright background, dark text, slight scale */
-                      "bg-text-primary text-surface-base scale-[1.02] font-bold"
-                    : /* Inactive: dark surface, muted text */
-                      "bg-surface-elevated text-text-muted hover:bg-surface-raised hover:text-text-secondary"
-                }
-              `}
-            >
-              {tab.label}
-            </button>
-          );
-        })}
+            return (
+              <button
+                key={tab.value}
+                onClick={() => onChange(tab.value)}
+                className={`
+                  px-6 py-4
+                  text-xs
+                  font-semibold
+                  tracking-[0.1em]
+                  border-r border-border-default
+                  cursor-pointer
+                  whitespace-nowrap
+                  transition-all duration-200
+                  ${
+                    isActive
+                      ? /* Active: bright background, dark text, slight scale */
+                        "bg-text-primary text-surface-base scale-[1.02] font-bold"
+                      : /* Inactive: dark surface, muted text */
+                        "bg-surface-elevated text-text-muted hover:bg-surface-raised hover:text-text-secondary"
+                  }
+                `}
+              >
+                {tab.label}
+              </button>
+            );
+          })}
+        </div>
       </div>
-    </div>
+
+      {/* Subcategory chips */}
+      {subcategories.length > 0 && (
+        <div
+          className="
+            px-6 md:px-12 lg:px-16
+            py-3
+            flex gap-2
+            overflow-x-auto
+            scrollbar-hide
+            border-b border-border-default
+          "
+        >
+          {[null, ...subcategories].map((option) => {
+            const isActive = subcategory === option;
+
+            return (
+              <button
+                key={option ?? "all"}
+                onClick={() => onSubcategoryChange(option)}
+                className={`
+                  px-3 py-1.5
+                  text-xs
+                  font-semibold
+                  tracking-[0.1em]
+                  rounded-full
+                  border
+                  cursor-pointer
+                  whitespace-nowrap
+                  transition-colors duration-200
+                  ${
+                    isActive
+                      ? "bg-text-primary text-surface-base border-text-primary"
+                      : "bg-surface-elevated text-text-muted border-border-default hover:text-text-secondary hover:border-border-strong"
+                  }
+                `}
+              >
+                {(option ?? `All ${value}`).toUpperCase()}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </>
   );
 }
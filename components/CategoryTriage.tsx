@@ -0,0 +1,227 @@
+"use client";
+
+/**
+ * CategoryTriage Component
+ *
+ * The list on the dev-only /dev/categories page: every product the catalog
+ * build couldn't categorize, with its image, sheet category and suggested
+ * categories. Each decision is saved straight to
+ * data/category-overrides.json through /api/dev/category-overrides and
+ * takes effect on the next `npm run catalog -- build`.
+ */
+
+import { useState } from "react";
+import Link from "next/link";
+
+import ProductImage from "@/components/ProductImage";
+import { NEW_CATEGORIES } from "@/lib/categories";
+import type { TriageItem } from "@/lib/category-triage";
+import { findImageAsset } from "@/lib/images";
+
+/**
+ * A saved decision: a category, or null for "keep uncategorized".
+ */
+interface Decision {
+  category: string | null;
+}
+
+/**
+ * Props for the CategoryTriage component.
+ */
+interface CategoryTriageProps {
+  items: TriageItem[];
+}
+
+/**
+ * Format a suggestion's confidence as a percentage.
+ */
+function formatConfidence(confidence: number): string {
+  return `${Math.round(confidence * 100)}%`;
+}
+
+/**
+ * CategoryTriage renders the triage list and saves decisions.
+ */
+export default function CategoryTriage({ items }: CategoryTriageProps) {
+  const [decisions, setDecisions] = useState<Map<number, Decision>>(
+    () =>
+      new Map(
+        items
+          .filter((item) => item.decided)
+          .map((item) => [item.id, { category: item.decision }])
+      )
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const decide = async (id: number, category: string | null) => {
+    const response = await fetch("/api/dev/category-overrides", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id, category }),
+    });
+    if (!response.ok) {
+      setError(`Couldn't save product ${id} (HTTP ${response.status}).`);
+      return;
+    }
+    setError(null);
+    setDecisions((current) => new Map(current).set(id, { category }));
+  };
+
+  const undo = async (id: number) => {
+    const response = await fetch(`/api/dev/category-overrides?id=${id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      setError(`Couldn't undo product ${id} (HTTP ${response.status}).`);
+      return;
+    }
+    setError(null);
+    setDecisions((current) => {
+      const next = new Map(current);
+      next.delete(id);
+      return next;
+    });
+  };
+
+  return (
+    <>
+      {/* Progress */}
+      <div
+        className="
+          px-6 md:px-12 lg:px-16
+          py-4
+          flex flex-wrap items-center justify-between gap-4
+          border-b border-border-default
+        "
+      >
+        <p className="text-meta text-text-muted">
+          {decisions.size} OF {items.length} DECIDED
+        </p>
+        {error && <p className="text-sm text-red-400">{error}</p>}
+      </div>
+
+      <ul className="divide-y divide-border-default">
+        {items.map((item) => {
+          const decision = decisions.get(item.id);
+          const product = item.product;
+
+          return (
+            <li
+              key={item.id}
+              className={`
+                px-6 md:px-12 lg:px-16
+                py-5
+                flex gap-5
+                ${decision ? "opacity-50" : ""}
+              `}
+            >
+              {/* Image */}
+              <div
+                className="
+                  w-20 h-24 shrink-0
+                  overflow-hidden rounded-lg
+                  bg-surface-raised
+                "
+              >
+                {product?.imageUrl && (
+                  <ProductImage
+                    src={product.imageUrl}
+                    asset={findImageAsset(product.imageAssets, product.imageUrl)}
+                    alt={item.name}
+                    sizes="80px"
+                    className="w-full h-full object-cover"
+                  />
+                )}
+              </div>
+
+              <div className="flex-1 min-w-0 space-y-3">
+                {/* Name + sheet category */}
+                <div>
+                  {product ? (
+                    <Link
+                      href={`/products/${product.slug}`}
+                      target="_blank"
+                      className="text-sm font-medium text-text-primary hover:text-text-secondary transition-colors"
+                    >
+                      {item.name}
+                    </Link>
+                  ) : (
+                    <span className="text-sm font-medium text-text-primary">
+                      {item.name}
+                    </span>
+                  )}
+                  <p className="text-meta text-text-muted mt-1">
+                    ID {item.id} · SHEET: {item.originalCategory ?? "NONE"}
+                    {!product && " · NO LONGER IN CATALOG"}
+                  </p>
+                </div>
+
+                {decision ? (
+                  /* Saved decision */
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm text-text-primary">
+                      → {decision.category ?? "Keep uncategorized"}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => undo(item.id)}
+                      className="btn-secondary btn-sm"
+                    >
+                      Undo
+                    </button>
+                  </div>
+                ) : (
+                  /* Suggestions + every other choice */
+                  <div className="flex flex-wrap items-center gap-2">
+                    {item.suggestions.map((suggestion) => (
+                      <button
+                        key={suggestion.category}
+                        type="button"
+                        onClick={() => decide(item.id, suggestion.category)}
+                        title={`Matched: ${suggestion.keywords.join(", ")}`}
+                        className="btn-primary btn-sm"
+                      >
+                        {suggestion.category} · {formatConfidence(suggestion.confidence)}
+                      </button>
+                    ))}
+                    <select
+                      value=""
+                      onChange={(e) => decide(item.id, e.target.value)}
+                      aria-label={`Category for ${item.name}`}
+                      className="
+                        px-3 py-1.5
+                        bg-surface-elevated
+                        border border-border-default
+                        rounded-lg
+                        text-sm text-text-primary
+                        focus:outline-none
+                        focus:border-border-strong
+                        cursor-pointer
+                      "
+                    >
+                      <option value="" disabled>
+                        {item.suggestions.length > 0 ? "Other…" : "Choose…"}
+                      </option>
+                      {NEW_CATEGORIES.map((category) => (
+                        <option key={category} value={category}>
+                          {category}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => decide(item.id, null)}
+                      className="btn-secondary btn-sm"
+                    >
+                      Keep uncategorized
+                    </button>
+                  </div>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+/**
+ * CompareButton Component
+ *
+ * Adds a product to (or removes it from) the compare selection (see
+ * lib/use-compare.ts). Disabled once MAX_COMPARE_ITEMS other products are
+ * selected. CompareTray links to the comparison page.
+ *
+ * Variants:
+ * - "icon" (default): Round overlay for product card images
+ * - "button": Full-size outline button for the product detail page
+ */
+
+import { MAX_COMPARE_ITEMS } from "@/lib/compare";
+import { useCompare } from "@/lib/use-compare";
+
+/**
+ * Props for the CompareButton component.
+ */
+interface CompareButtonProps {
+  productId: number;
+  /** Product name, for the accessible label */
+  productName: string;
+  variant?: "icon" | "button";
+}
+
+/**
+ * Two opposing arrows, the usual "compare" glyph.
+ */
+function CompareIcon({ className }: { className: string }) {
+  return (
+    <svg
+      className={className}
+      fill="none"
+      stroke="currentColor"
+      viewBox="0 0 24 24"
+      aria-hidden="true"
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4"
+      />
+    </svg>
+  );
+}
+
+/**
+ * CompareButton renders a compare toggle for one product.
+ */
+export default function CompareButton({
+  productId,
+  productName,
+  variant = "icon",
+}: CompareButtonProps) {
+  const compare = useCompare();
+  const isSelected = compare.has(productId);
+  const isDisabled = !isSelected && compare.isFull;
+
+  const label = isSelected
+    ? `Remove ${productName} from compare`
+    : `Add ${productName} to compare`;
+  const title = isDisabled
+    ? `Compare holds up to ${MAX_COMPARE_ITEMS} products`
+    : isSelected
+      ? "Remove from compare"
+      : "Compare";
+
+  if (variant === "button") {
+    return (
+      <button
+        type="button"
+        onClick={() => compare.toggle(productId)}
+        disabled={isDisabled}
+        aria-pressed={isSelected}
+        aria-label={label}
+        title={title}
+        className="btn-secondary btn-lg disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        <CompareIcon className="w-4 h-4" />
+        {isSelected ? "Comparing" : "Compare"}
+      </button>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => compare.toggle(productId)}
+      disabled={isDisabled}
+      aria-pressed={isSelected}
+      aria-label={label}
+      title={title}
+      className={`
+        w-8 h-8
+        flex items-center justify-center
+        rounded-full
+        backdrop-blur-sm
+        border
+        cursor-pointer
+        transition-all duration-200
+        hover:scale-110
+        disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:scale-100
+        ${
+          isSelected
+            ? "bg-text-primary text-surface-base border-text-primary"
+            : "bg-surface-base/70 text-text-muted border-border-default hover:text-text-primary hover:border-border-strong"
+        }
+      `}
+    >
+      <CompareIcon className="w-4 h-4" />
+    </button>
+  );
+}
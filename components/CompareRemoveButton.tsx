@@ -0,0 +1,50 @@
+"use client";
+
+/**
+ * CompareRemoveButton Component
+ *
+ * Removes one product from the comparison: drops it from the stored
+ * selection and reloads /compare without its column.
+ */
+
+import { useRouter } from "next/navigation";
+import { getComparePath } from "@/lib/compare";
+import { useCompare } from "@/lib/use-compare";
+
+/**
+ * Props for the CompareRemoveButton component.
+ */
+interface CompareRemoveButtonProps {
+  productId: number;
+  /** Product name, for the accessible label */
+  productName: string;
+  /** IDs currently shown on the page, in column order */
+  shownIds: number[];
+}
+
+/**
+ * CompareRemoveButton renders the per-column remove control.
+ */
+export default function CompareRemoveButton({
+  productId,
+  productName,
+  shownIds,
+}: CompareRemoveButtonProps) {
+  const router = useRouter();
+  const compare = useCompare();
+
+  return (
+    <button
+      type="button"
+      onClick={() => {
+        compare.remove([productId]);
+        const remaining = shownIds.filter((id) => id !== productId);
+        router.replace(remaining.length > 0 ? getComparePath(remaining) : "/compare");
+      }}
+      aria-label={`Remove ${productName} from compare`}
+      className="text-meta text-text-subtle hover:text-text-primary transition-colors cursor-pointer"
+    >
+      REMOVE
+    </button>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+/**
+ * CompareTray Component
+ *
+ * Floating bar shown on every page while products are selected for
+ * comparison, linking to /compare with the current selection.
+ * Hidden on the compare page itself.
+ *
+ * Design v2.0:
+ * - Layered grey surface colors
+ * - Refined button styling
+ */
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { MAX_COMPARE_ITEMS, getComparePath } from "@/lib/compare";
+import { useCompare } from "@/lib/use-compare";
+
+/**
+ * CompareTray renders the selection count and compare link.
+ */
+export default function CompareTray() {
+  const compare = useCompare();
+  const pathname = usePathname();
+
+  if (compare.ids.length === 0 || pathname === "/compare") {
+    return null;
+  }
+
+  return (
+    <div
+      className="
+        fixed bottom-4 left-1/2 -translate-x-1/2
+        z-40
+        flex items-center
+        gap-4
+        pl-5 pr-2 py-2
+        rounded-full
+        bg-surface-elevated/95
+        backdrop-blur-md
+        border border-border-strong
+        shadow-lg shadow-black/40
+      "
+    >
+      <span className="text-meta text-text-muted whitespace-nowrap">
+        COMPARE {compare.ids.length}/{MAX_COMPARE_ITEMS}
+      </span>
+
+      <button
+        type="button"
+        onClick={compare.clear}
+        className="text-meta text-text-subtle hover:text-text-primary transition-colors cursor-pointer"
+      >
+        CLEAR
+      </button>
+
+      <Link
+        href={getComparePath(compare.ids)}
+        className="btn-primary btn-sm rounded-full"
+      >
+        Compare now
+      </Link>
+    </div>
+  );
+}
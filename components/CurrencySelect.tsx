@@ -0,0 +1,47 @@
+"use client";
+
+/**
+ * CurrencySelect Component
+ *
+ * Compact Navbar dropdown for the currency every price is shown in. The
+ * choice is saved in localStorage (see lib/use-currency.ts).
+ */
+
+import { RATES_DATE, getCurrencies } from "@/lib/currency";
+import { useCurrency } from "@/lib/use-currency";
+
+/**
+ * CurrencySelect renders the currency dropdown.
+ */
+export default function CurrencySelect() {
+  const { currency, setCurrency } = useCurrency();
+
+  return (
+    <select
+      value={currency.code}
+      onChange={(e) => setCurrency(e.target.value)}
+      aria-label="Display currency"
+      title={`Exchange rates from ${RATES_DATE}`}
+      className="
+        px-2 py-1.5
+        bg-surface-elevated
+        border border-border-default
+        rounded-md
+        font-display
+        text-xs font-semibold
+        tracking-[0.1em]
+        text-text-primary
+        focus:outline-none
+        focus:border-border-strong
+        cursor-pointer
+        transition-colors
+      "
+    >
+      {getCurrencies().map((option) => (
+        <option key={option.code} value={option.code}>
+          {option.code}
+        </option>
+      ))}
+    </select>
+  );
+}
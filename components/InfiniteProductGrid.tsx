@@ -0,0 +1,202 @@
+"use client";
+
+/**
+ * InfiniteProductGrid Component
+ *
+ * The /products result grid with page links and infinite scroll.
+ *
+ * The server renders one page of products plus plain Previous/Next links,
+ * so the listing works (and is crawlable) without JavaScript. Once
+ * hydrated, scrolling near the end fetches the following pages from
+ * /api/products and appends them.
+ *
+ * Design notes:
+ * - Grid layout and empty state come from ProductGrid
+ * - Pagination links double as the fallback when a fetch fails
+ * - The URL stays on the first page rendered, so a saved scroll position
+ *   is always measured from the same top; the number of pages appended is
+ *   saved with it and loaded again on back/forward or reload
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+
+/* Component imports */
+import ProductGrid from "@/components/ProductGrid";
+
+/* Data imports */
+import type { ProductListResponse } from "@/lib/api";
+import type { Product } from "@/lib/products";
+import {
+  PRODUCTS_PAGE_SIZE,
+  ProductBrowserState,
+  getProductBrowserUrl,
+} from "@/lib/product-url-state";
+import { useScrollRestoration } from "@/lib/scroll-restoration";
+import type { MatchRange } from "@/lib/search";
+
+/** How far below the viewport to start loading the next page */
+const PREFETCH_MARGIN = "800px";
+
+/**
+ * Props for the InfiniteProductGrid component.
+ */
+interface InfiniteProductGridProps {
+  /** Current state, parsed from the URL on the server */
+  state: ProductBrowserState;
+  /** Products on the server-rendered page */
+  initialProducts: Product[];
+  /** Matched name ranges for the server-rendered page */
+  initialHighlights: Record<number, MatchRange[]>;
+  /** Number of products matching the current filters */
+  totalProducts: number;
+}
+
+/**
+ * InfiniteProductGrid renders the current page and appends later ones.
+ */
+export default function InfiniteProductGrid({
+  state,
+  initialProducts,
+  initialHighlights,
+  totalProducts,
+}: InfiniteProductGridProps) {
+  const [products, setProducts] = useState(initialProducts);
+  const [highlights, setHighlights] = useState(initialHighlights);
+  const [lastPage, setLastPage] = useState(state.page);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasError, setHasError] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const loadingRef = useRef(false);
+
+  const totalPages = Math.ceil(totalProducts / PRODUCTS_PAGE_SIZE);
+  const hasMore = lastPage < totalPages;
+  const firstShown = (state.page - 1) * PRODUCTS_PAGE_SIZE + 1;
+
+  /**
+   * Fetches the pages after `lastPage` up to `throughPage` and appends them.
+   * A failed fetch stops loading; the Next link still works.
+   */
+  const loadPages = useCallback(
+    async (throughPage: number) => {
+      if (loadingRef.current) return;
+      loadingRef.current = true;
+      setIsLoading(true);
+
+      try {
+        for (let page = lastPage + 1; page <= Math.min(throughPage, totalPages); page++) {
+          const response = await fetch(`/api${getProductBrowserUrl({ ...state, page })}`);
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+          const data: ProductListResponse = await response.json();
+          setProducts((prev) => [...prev, ...data.items]);
+          setHighlights((prev) => ({
+            ...prev,
+            ...Object.fromEntries(
+              data.items
+                .filter((item) => item.highlights)
+                .map((item) => [item.id, item.highlights!])
+            ),
+          }));
+          setLastPage(page);
+        }
+      } catch {
+        setHasError(true);
+      } finally {
+        loadingRef.current = false;
+        setIsLoading(false);
+      }
+    },
+    [state, lastPage, totalPages]
+  );
+
+  // Back/forward reloads the pages that were loaded before restoring scroll
+  useScrollRestoration({
+    loadedPages: lastPage - state.page + 1,
+    loadPages: (count) => loadPages(state.page + count - 1),
+  });
+
+  /**
+   * Load the next page whenever the sentinel nears the viewport.
+   */
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoading || hasError) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (!entry.isIntersecting) return;
+        observer.disconnect();
+        loadPages(lastPage + 1);
+      },
+      { rootMargin: PREFETCH_MARGIN }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [lastPage, hasMore, isLoading, hasError, loadPages]);
+
+  const linkClassName = "btn-secondary btn-lg px-8";
+
+  return (
+    <>
+      <p className="text-meta text-text-muted mb-6">
+        {products.length > 0
+          ? `SHOWING ${firstShown}–${firstShown + products.length - 1} OF ${totalProducts} PRODUCTS`
+          : "0 PRODUCTS"}
+      </p>
+
+      {/* Best Selling badges only make sense at the top of the first page */}
+      <ProductGrid
+        products={products}
+        highlights={highlights}
+        showBadges={state.page === 1}
+      />
+
+      {/* Infinite scroll trigger */}
+      <div ref={sentinelRef} aria-hidden="true" />
+
+      {isLoading && (
+        <p className="text-meta text-text-muted text-center pt-8">
+          LOADING MORE...
+        </p>
+      )}
+
+      {/* Page links (no-JS fallback and retry after errors) */}
+      {totalPages > 1 && (
+        <nav
+          aria-label="Pagination"
+          className="
+            pt-12
+            flex items-center justify-center
+            gap-6
+          "
+        >
+          {state.page > 1 && (
+            <Link
+              href={getProductBrowserUrl({ ...state, page: state.page - 1 })}
+              rel="prev"
+              className={linkClassName}
+            >
+              Previous
+            </Link>
+          )}
+
+          <span className="text-meta text-text-muted">
+            PAGE {lastPage} OF {totalPages}
+          </span>
+
+          {hasMore && (
+            <Link
+              href={getProductBrowserUrl({ ...state, page: lastPage + 1 })}
+              rel="next"
+              className={linkClassName}
+            >
+              Next
+            </Link>
+          )}
+        </nav>
+      )}
+    </>
+  );
+}
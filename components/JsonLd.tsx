@@ -0,0 +1,30 @@
+/**
+ * JsonLd Component
+ *
+ * Renders schema.org structured data (see lib/product-seo.ts) as a
+ * <script type="application/ld+json"> tag. "<" is escaped so a product
+ * name can't close the script early.
+ */
+
+import type { JsonLdObject } from "@/lib/product-seo";
+
+/**
+ * Props for the JsonLd component.
+ */
+interface JsonLdProps {
+  data: JsonLdObject;
+}
+
+/**
+ * JsonLd renders one JSON-LD block.
+ */
+export default function JsonLd({ data }: JsonLdProps) {
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{
+        __html: JSON.stringify(data).replace(/</g, "\\u003c"),
+      }}
+    />
+  );
+}
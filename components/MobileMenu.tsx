@@ -10,11 +10,13 @@
  * - Fullscreen dark overlay matching site theme
  * - Large, bold navigation links with numbers
  * - Smooth open/close animations
+ * - Quick links to every category page (/category/[slug])
  * - Closes when a link is clicked
  */
 
 import Link from "next/link";
 import { useEffect } from "react";
+import { NEW_CATEGORIES, getCategoryUrl } from "@/lib/categories";
 
 interface MobileMenuProps {
   isOpen: boolean;
@@ -28,6 +30,8 @@ interface MobileMenuProps {
 const NAV_ITEMS = [
   { href: "/", label: "Home", number: "01" },
   { href: "/products", label: "Products", number: "02" },
+  { href: "/new", label: "New", number: "03" },
+  { href: "/saved", label: "Saved", number: "04" },
 ];
 
 export default function MobileMenu({ isOpen, onClose, onOpenCategories }: MobileMenuProps) {
@@ -195,7 +199,7 @@ export default function MobileMenu({ isOpen, onClose, onOpenCategories }: Mobile
               w-8
             "
           >
-            03
+            05
           </span>
 
           {/* Large link text */}
@@ -217,6 +221,35 @@ export default function MobileMenu({ isOpen, onClose, onOpenCategories }: Mobile
         </button>
       </nav>
 
+      {/* Category quick links */}
+      <nav
+        aria-label="Categories"
+        className="
+          px-6 pb-6
+          flex flex-wrap
+          gap-x-4 gap-y-2
+        "
+      >
+        {NEW_CATEGORIES.map((category) => (
+          <Link
+            key={category}
+            href={getCategoryUrl(category)}
+            onClick={onClose}
+            className="
+              font-mono
+              text-xs
+              tracking-wider
+              uppercase
+              text-text-muted
+              hover:text-text-primary
+              transition-colors duration-200
+            "
+          >
+            {category}
+          </Link>
+        ))}
+      </nav>
+
       {/* Footer */}
       <div className="px-6 pb-8 border-t border-border-default pt-6">
         <p className="text-text-subtle text-xs font-mono tracking-wider uppercase">
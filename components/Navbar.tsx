@@ -6,6 +6,7 @@
  * A responsive navigation bar with:
  * - Desktop: Full navbar with links
  * - Mobile: Hamburger menu button that opens fullscreen overlay
+ * - Both: Currency selector for prices site-wide
  *
  * Design v2.1:
  * - Display font for logo
@@ -17,6 +18,8 @@ import Link from "next/link";
 import { useState } from "react";
 import MobileMenu from "./MobileMenu";
 import CategoriesDropdown from "./CategoriesDropdown";
+import CurrencySelect from "./CurrencySelect";
+import { useWishlist } from "@/lib/use-wishlist";
 
 /**
  * Navbar is now a client component to manage mobile menu state.
@@ -26,6 +29,7 @@ export default function Navbar() {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isCategoriesOpen, setIsCategoriesOpen] = useState(false);
   const [isMobileCategoriesOpen, setIsMobileCategoriesOpen] = useState(false);
+  const savedCount = useWishlist().ids.length;
 
   return (
     <>
@@ -73,62 +77,78 @@ export default function Navbar() {
             ZAYFINDS
           </Link>
 
-          {/* 
-            Desktop Navigation links: Hidden on mobile
-            - Uses nav-link class from globals.css
-            - Smooth color transition + underline animation
-          */}
-          <div className="hidden md:flex items-center gap-8">
-            <Link href="/" className="nav-link">
-              Home
-            </Link>
+          {/* Right side: links (desktop) or menu button (mobile), plus currency */}
+          <div className="flex items-center gap-4 md:gap-8">
+            {/* 
+              Desktop Navigation links: Hidden on mobile
+              - Uses nav-link class from globals.css
+              - Smooth color transition + underline animation
+            */}
+            <div className="hidden md:flex items-center gap-8">
+              <Link href="/" className="nav-link">
+                Home
+              </Link>
+
+              <Link href="/products" className="nav-link">
+                Products
+              </Link>
+
+              {/* Latest catalog changes */}
+              <Link href="/new" className="nav-link">
+                New
+              </Link>
 
-            <Link href="/products" className="nav-link">
-              Products
-            </Link>
+              {/* Categories dropdown trigger */}
+              <div className="relative">
+                <button
+                  onClick={() => setIsCategoriesOpen(!isCategoriesOpen)}
+                  className="nav-link"
+                >
+                  Categories
+                </button>
+                <CategoriesDropdown
+                  isOpen={isCategoriesOpen}
+                  onClose={() => setIsCategoriesOpen(false)}
+                  variant="desktop"
+                />
+              </div>
 
-            {/* Categories dropdown trigger */}
-            <div className="relative">
-              <button
-                onClick={() => setIsCategoriesOpen(!isCategoriesOpen)}
-                className="nav-link"
-              >
-                Categories
-              </button>
-              <CategoriesDropdown
-                isOpen={isCategoriesOpen}
-                onClose={() => setIsCategoriesOpen(false)}
-                variant="desktop"
-              />
+              {/* Saved finds, with count once there are any */}
+              <Link href="/saved" className="nav-link">
+                Saved{savedCount > 0 && ` (${savedCount})`}
+              </Link>
             </div>
-          </div>
 
-          {/* 
-            Mobile Menu Button: Visible only on mobile
-            - Styled to match site's dark minimal aesthetic
-          */}
-          <button
-            onClick={() => setIsMobileMenuOpen(true)}
-            className="
-              md:hidden
-              flex items-center gap-2
-              px-4 py-2
-              font-display
-              text-xs font-semibold
-              tracking-[0.1em]
-              uppercase
-              text-text-primary
-              bg-surface-elevated
-              border border-border-default
-              rounded-md
-              hover:bg-surface-raised
-              hover:border-border-strong
-              transition-all duration-200
-            "
-            aria-label="Open menu"
-          >
-            MENU
-          </button>
+            {/* Display currency for every price (saved per browser) */}
+            <CurrencySelect />
+
+            {/* 
+              Mobile Menu Button: Visible only on mobile
+              - Styled to match site's dark minimal aesthetic
+            */}
+            <button
+              onClick={() => setIsMobileMenuOpen(true)}
+              className="
+                md:hidden
+                flex items-center gap-2
+                px-4 py-2
+                font-display
+                text-xs font-semibold
+                tracking-[0.1em]
+                uppercase
+                text-text-primary
+                bg-surface-elevated
+                border border-border-default
+                rounded-md
+                hover:bg-surface-raised
+                hover:border-border-strong
+                transition-all duration-200
+              "
+              aria-label="Open menu"
+            >
+              MENU
+            </button>
+          </div>
         </div>
       </nav>
 
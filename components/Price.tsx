@@ -0,0 +1,43 @@
+"use client";
+
+/**
+ * Price Component
+ *
+ * A catalog price converted to the shopper's display currency (see
+ * lib/use-currency.ts) and formatted with Intl. Renders plain text, so it
+ * drops into any existing price element.
+ *
+ * The server render uses the default currency; the stored choice is
+ * applied after hydration.
+ */
+
+import { formatPrice } from "@/lib/currency";
+import { useCurrency } from "@/lib/use-currency";
+
+/**
+ * Props for the Price component.
+ */
+interface PriceProps {
+  /** Price in the catalog's source currency, null if unknown */
+  amount: number | null;
+  /** Shown when there is no amount (default: "Price on site") */
+  fallback?: string;
+  /** Fixed currency code, ignoring the shopper's choice */
+  currency?: string;
+}
+
+/**
+ * Price renders a formatted, converted price.
+ */
+export default function Price({
+  amount,
+  fallback = "Price on site",
+  currency,
+}: PriceProps) {
+  const displayCurrency = useCurrency().currency;
+
+  if (amount === null) {
+    return <>{fallback}</>;
+  }
+  return <>{formatPrice(amount, currency ?? displayCurrency.code)}</>;
+}
@@ -0,0 +1,208 @@
+"use client";
+
+/**
+ * PriceRangeFilter Component
+ *
+ * Min/max price inputs above a histogram of the current result set.
+ * Clicking a bar selects that bucket's range; clicking it again clears it.
+ * The price range is inclusive but bucket upper bounds are not, so a bar
+ * selects up to a cent below its upper bound (the $25–50 bar is
+ * $25–49.99): exactly the products the bar counts.
+ *
+ * Prices, bounds and labels are in the catalog's source currency
+ * (SOURCE_CURRENCY), not the shopper's display currency.
+ *
+ * Design v2.0:
+ * - Layered grey surface colors
+ * - Bars inside the selected range stay bright, the rest fade back
+ */
+
+import { SOURCE_CURRENCY_SYMBOL } from "@/lib/currency";
+import type { PriceBucket, PriceHistogram } from "@/lib/products";
+
+/**
+ * Props for the PriceRangeFilter component.
+ */
+interface PriceRangeFilterProps {
+  /** Price distribution of the current results (before the range filter) */
+  histogram: PriceHistogram;
+  /** Lower bound in SOURCE_CURRENCY, null for no minimum */
+  minPrice: number | null;
+  /** Upper bound in SOURCE_CURRENCY, null for no maximum */
+  maxPrice: number | null;
+  onChange: (minPrice: number | null, maxPrice: number | null) => void;
+}
+
+/**
+ * Formats a bucket as a short label (e.g. "$25–50", "$300+").
+ */
+function getBucketLabel(bucket: PriceBucket): string {
+  return bucket.max === null
+    ? `${SOURCE_CURRENCY_SYMBOL}${bucket.min}+`
+    : `${SOURCE_CURRENCY_SYMBOL}${bucket.min}–${bucket.max}`;
+}
+
+/**
+ * The inclusive maxPrice that selects a bucket: a cent below its
+ * (exclusive) upper bound, since catalog prices are whole cents.
+ * Null for the open-ended last bucket.
+ */
+function getBucketMaxPrice(bucket: PriceBucket): number | null {
+  return bucket.max === null ? null : Math.round(bucket.max * 100 - 1) / 100;
+}
+
+/**
+ * Whether a bucket overlaps the selected price range.
+ */
+function isBucketInRange(
+  bucket: PriceBucket,
+  minPrice: number | null,
+  maxPrice: number | null
+): boolean {
+  const aboveMin = bucket.max === null || minPrice === null || bucket.max > minPrice;
+  const belowMax = maxPrice === null || bucket.min <= maxPrice;
+  return aboveMin && belowMax;
+}
+
+/**
+ * Parses a price input value. Empty or invalid input means "no bound".
+ */
+function parsePriceInput(value: string): number | null {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+/**
+ * PriceRangeFilter renders the histogram and min/max inputs.
+ */
+export default function PriceRangeFilter({
+  histogram,
+  minPrice,
+  maxPrice,
+  onChange,
+}: PriceRangeFilterProps) {
+  const maxCount = Math.max(1, ...histogram.buckets.map((bucket) => bucket.count));
+  const hasRange = minPrice !== null || maxPrice !== null;
+
+  const inputClassName = `
+    w-24
+    px-3 py-2
+    bg-surface-elevated
+    border border-border-default
+    rounded-lg
+    text-sm text-text-primary
+    placeholder:text-text-subtle
+    focus:outline-none
+    focus:border-border-strong
+    transition-colors
+  `;
+
+  return (
+    <div
+      className="
+        px-6 md:px-12 lg:px-16
+        py-4
+        flex flex-col md:flex-row
+        items-stretch md:items-end
+        gap-6
+        border-b border-border-default
+      "
+    >
+      {/* Histogram */}
+      <div className="flex-1 max-w-xl">
+        <div className="flex items-end gap-1 h-16">
+          {histogram.buckets.map((bucket) => {
+            const bucketMaxPrice = getBucketMaxPrice(bucket);
+            const isSelected = minPrice === bucket.min && maxPrice === bucketMaxPrice;
+            const inRange = isBucketInRange(bucket, minPrice, maxPrice);
+
+            return (
+              <button
+                key={bucket.min}
+                type="button"
+                title={`${getBucketLabel(bucket)}: ${bucket.count} products`}
+                aria-label={`${getBucketLabel(bucket)}, ${bucket.count} products`}
+                aria-pressed={isSelected}
+                onClick={() =>
+                  isSelected
+                    ? onChange(null, null)
+                    : onChange(bucket.min, bucketMaxPrice)
+                }
+                className="flex-1 h-full flex items-end cursor-pointer group"
+              >
+                <span
+                  className={`
+                    w-full
+                    rounded-t
+                    transition-colors duration-200
+                    ${
+                      inRange
+                        ? "bg-text-secondary group-hover:bg-text-primary"
+                        : "bg-surface-subtle group-hover:bg-text-subtle"
+                    }
+                  `}
+                  style={{
+                    height: `${Math.max(4, (bucket.count / maxCount) * 100)}%`,
+                  }}
+                />
+              </button>
+            );
+          })}
+        </div>
+        <div className="flex gap-1 mt-2">
+          {histogram.buckets.map((bucket) => (
+            <span
+              key={bucket.min}
+              className="flex-1 text-center text-[10px] text-text-subtle whitespace-nowrap"
+            >
+              {getBucketLabel(bucket)}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Min / max inputs */}
+      <div className="flex items-center gap-3">
+        <span className="text-meta text-text-muted">PRICE:</span>
+        <input
+          type="number"
+          inputMode="decimal"
+          min={0}
+          placeholder={`Min ${SOURCE_CURRENCY_SYMBOL}`}
+          aria-label="Minimum price"
+          value={minPrice ?? ""}
+          onChange={(e) => onChange(parsePriceInput(e.target.value), maxPrice)}
+          className={inputClassName}
+        />
+        <span className="text-text-subtle">–</span>
+        <input
+          type="number"
+          inputMode="decimal"
+          min={0}
+          placeholder={`Max ${SOURCE_CURRENCY_SYMBOL}`}
+          aria-label="Maximum price"
+          value={maxPrice ?? ""}
+          onChange={(e) => onChange(minPrice, parsePriceInput(e.target.value))}
+          className={inputClassName}
+        />
+        {hasRange && (
+          <button
+            type="button"
+            onClick={() => onChange(null, null)}
+            className="text-meta text-text-muted hover:text-text-primary transition-colors cursor-pointer"
+          >
+            CLEAR
+          </button>
+        )}
+      </div>
+
+      {/* Unpriced note */}
+      {hasRange && histogram.unpricedCount > 0 && (
+        <p className="text-meta text-text-subtle md:ml-auto">
+          {histogram.unpricedCount} UNPRICED{" "}
+          {histogram.unpricedCount === 1 ? "PRODUCT" : "PRODUCTS"} HIDDEN
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+"use client";
+
+/**
+ * ProductBrowserToolbar Component
+ *
+ * Category tabs, search, brand and sort controls and the price range
+ * filter for the /products listing.
+ *
+ * The listing itself is rendered on the server from the query string, so
+ * every control here just navigates to the URL for the new state (see
+ * lib/product-url-state.ts). Filter changes go back to page 1.
+ *
+ * Design v2.0:
+ * - Layered grey surface colors
+ * - Enhanced form controls
+ */
+
+import { useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+
+/* Component imports */
+import CategoryFilter from "@/components/CategoryFilter";
+import PriceRangeFilter from "@/components/PriceRangeFilter";
+
+/* Data imports */
+import type { PriceHistogram, ProductSortOption } from "@/lib/products";
+import {
+  ProductBrowserState,
+  getProductBrowserUrl,
+} from "@/lib/product-url-state";
+import { hasSearchTerms } from "@/lib/search";
+
+/** Delay before a search keystroke updates the listing, in milliseconds */
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Props for the ProductBrowserToolbar component.
+ */
+interface ProductBrowserToolbarProps {
+  /** Current state, parsed from the URL on the server */
+  state: ProductBrowserState;
+  /** Brand names for the brand dropdown */
+  brands: string[];
+  /** Number of products matching the current filters */
+  totalProducts: number;
+  /** Price distribution of the current results, before the price range */
+  priceHistogram: PriceHistogram;
+}
+
+/**
+ * ProductBrowserToolbar renders the listing controls.
+ */
+export default function ProductBrowserToolbar({
+  state,
+  brands,
+  totalProducts,
+  priceHistogram,
+}: ProductBrowserToolbarProps) {
+  const router = useRouter();
+
+  // The search box keeps its own text so typing never waits on the server
+  const [searchQuery, setSearchQuery] = useState(state.search);
+  const [sentSearch, setSentSearch] = useState(state.search);
+  const [urlSearch, setUrlSearch] = useState(state.search);
+  const searchTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  // The page stays mounted across query changes, so pick up searches that
+  // came from elsewhere (back/forward, links) but not our own debounced ones
+  if (state.search !== urlSearch) {
+    setUrlSearch(state.search);
+    if (state.search !== sentSearch) {
+      setSearchQuery(state.search);
+      setSentSearch(state.search);
+    }
+  }
+
+  /**
+   * Navigates to the listing for a state change.
+   * Discrete filter changes get a history entry; search keystrokes replace it.
+   */
+  const updateState = (
+    changes: Partial<ProductBrowserState>,
+    mode: "push" | "replace" = "push"
+  ) => {
+    clearTimeout(searchTimer.current);
+    const next: ProductBrowserState = {
+      ...state,
+      search: searchQuery,
+      page: 1,
+      ...changes,
+    };
+    setSentSearch(next.search);
+    router[mode](getProductBrowserUrl(next), { scroll: false });
+  };
+
+  const handleSearchChange = (value: string) => {
+    setSearchQuery(value);
+    clearTimeout(searchTimer.current);
+    searchTimer.current = setTimeout(
+      () => updateState({ search: value }, "replace"),
+      SEARCH_DEBOUNCE_MS
+    );
+  };
+
+  return (
+    <>
+      {/* Category Tab Bar */}
+      <CategoryFilter
+        value={state.category}
+        onChange={(val) => updateState({ category: val, subcategory: null })}
+        subcategory={state.subcategory}
+        onSubcategoryChange={(val) => updateState({ subcategory: val })}
+      />
+
+      {/* Search + Sort Toolbar */}
+      <div
+        className="
+          px-6 md:px-12 lg:px-16
+          py-4
+          flex flex-col sm:flex-row
+          items-stretch sm:items-center
+          justify-between
+          gap-4
+          border-b border-border-default
+        "
+      >
+        {/* Search input */}
+        <div className="relative flex-1 max-w-md">
+          <svg
+            className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-text-subtle"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+            />
+          </svg>
+          <input
+            type="text"
+            placeholder={`Search ${totalProducts} products...`}
+            value={searchQuery}
+            onChange={(e) => handleSearchChange(e.target.value)}
+            className="
+              w-full
+              pl-10 pr-4 py-3
+              bg-surface-elevated
+              border border-border-default
+              rounded-lg
+              text-sm text-text-primary
+              placeholder:text-text-subtle
+              focus:outline-none
+              focus:border-border-strong
+              transition-colors
+            "
+          />
+        </div>
+
+        {/* Brand dropdown */}
+        <div className="flex items-center gap-3">
+          <span className="text-meta text-text-muted">BRAND:</span>
+          <select
+            value={state.brand ?? ""}
+            onChange={(e) => updateState({ brand: e.target.value || null })}
+            className="
+              max-w-[200px]
+              px-4 py-3
+              bg-surface-elevated
+              border border-border-default
+              rounded-lg
+              text-sm text-text-primary
+              focus:outline-none
+              focus:border-border-strong
+              cursor-pointer
+              transition-colors
+            "
+          >
+            <option value="">All brands</option>
+            {brands.map((brand) => (
+              <option key={brand} value={brand}>
+                {brand}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Sort dropdown */}
+        <div className="flex items-center gap-3">
+          <span className="text-meta text-text-muted">SORT BY:</span>
+          <select
+            value={state.sort}
+            onChange={(e) =>
+              updateState({ sort: e.target.value as ProductSortOption })
+            }
+            className="
+              px-4 py-3
+              bg-surface-elevated
+              border border-border-default
+              rounded-lg
+              text-sm text-text-primary
+              focus:outline-none
+              focus:border-border-strong
+              cursor-pointer
+              transition-colors
+            "
+          >
+            <option value="default">
+              {hasSearchTerms(searchQuery) ? "Relevance" : "Default"}
+            </option>
+            <option value="price-asc">Price: Low to High</option>
+            <option value="price-desc">Price: High to Low</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Price range + histogram */}
+      <PriceRangeFilter
+        histogram={priceHistogram}
+        minPrice={state.minPrice}
+        maxPrice={state.maxPrice}
+        onChange={(min, max) => updateState({ minPrice: min, maxPrice: max })}
+      />
+    </>
+  );
+}
@@ -14,10 +14,32 @@
  * - "full" (default): Shows both BUY (external) and View Details (internal) buttons
  * - "buy-only": Shows only the BUY button (external link)
  * - "details-only": Shows only "View Details" button (internal link to product page)
+ *
+ * Search results pass `highlights` to emphasize the matched parts of the name.
+ * Every card has save (WishlistButton) and compare (CompareButton) toggles
+ * over the image. Buy buttons go through the shopper's preferred shopping
+ * agent (BuyLink), and the price is shown in their chosen currency
+ * (Price). The image is served from its self-hosted variants when
+ * available (ProductImage), and a dead image link shows the same
+ * "No image" block as a product without one.
  */
 
 import Link from "next/link";
-import { Product, getProductSlug } from "@/lib/products";
+import BuyLink from "@/components/BuyLink";
+import CompareButton from "@/components/CompareButton";
+import Price from "@/components/Price";
+import ProductImage from "@/components/ProductImage";
+import WishlistButton from "@/components/WishlistButton";
+import { findImageAsset } from "@/lib/images";
+import type { Product } from "@/lib/products";
+import { getProductSlug } from "@/lib/slugs";
+import type { MatchRange } from "@/lib/search";
+
+/**
+ * Rendered card image width per breakpoint (matches ProductGrid's columns).
+ */
+const CARD_IMAGE_SIZES =
+  "(min-width: 1280px) 20vw, (min-width: 1024px) 25vw, (min-width: 640px) 33vw, 50vw";
 
 /**
  * Button variant determines which CTAs are shown on the card.
@@ -39,6 +61,43 @@ interface ProductCardProps {
    * - "details-only": Only View Details (for recommendations)
    */
   buttonVariant?: ButtonVariant;
+  /** Matched ranges in product.name to highlight (from search) */
+  highlights?: MatchRange[];
+}
+
+/**
+ * Renders a product name with the matched ranges wrapped in <mark>.
+ */
+function HighlightedName({
+  name,
+  highlights,
+}: {
+  name: string;
+  highlights: MatchRange[];
+}) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  for (const { start, end } of highlights) {
+    if (start > cursor) {
+      parts.push(name.slice(cursor, start));
+    }
+    parts.push(
+      <mark
+        key={start}
+        className="bg-transparent text-text-primary font-semibold underline decoration-text-muted underline-offset-2"
+      >
+        {name.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  }
+
+  if (cursor < name.length) {
+    parts.push(name.slice(cursor));
+  }
+
+  return <>{parts}</>;
 }
 
 /**
@@ -48,8 +107,8 @@ export default function ProductCard({
   product,
   badge,
   buttonVariant = "full",
+  highlights,
 }: ProductCardProps) {
-  const displayPrice = product.priceText || "Price on site";
   const hasImage = product.imageUrl !== null && product.imageUrl !== "";
   const productSlug = getProductSlug(product);
 
@@ -71,59 +130,69 @@ export default function ProductCard({
       {/* 
         Image area: Clickable with hover zoom effect
       */}
-      <Link
-        href={`/products/${productSlug}`}
-        className="
-          relative
-          w-full
-          aspect-[4/5]
-          overflow-hidden
-          rounded-lg
-          bg-surface-raised
-          block
-        "
-      >
-        {/* Optional badge */}
-        {badge && (
-          <div
-            className="
-              absolute top-2 left-2
-              px-2 py-1
-              text-[10px] font-bold
-              uppercase tracking-wider
-              bg-text-primary text-surface-base
-              rounded
-              z-10
-            "
-          >
-            {badge}
-          </div>
-        )}
+      <div className="relative">
+        <Link
+          href={`/products/${productSlug}`}
+          className="
+            relative
+            w-full
+            aspect-[4/5]
+            overflow-hidden
+            rounded-lg
+            bg-surface-raised
+            block
+          "
+        >
+          {/* Optional badge */}
+          {badge && (
+            <div
+              className="
+                absolute top-2 left-2
+                px-2 py-1
+                text-[10px] font-bold
+                uppercase tracking-wider
+                bg-text-primary text-surface-base
+                rounded
+                z-10
+              "
+            >
+              {badge}
+            </div>
+          )}
 
-        {hasImage ? (
-          <img
-            src={product.imageUrl!}
-            alt={product.name}
-            className="
-              w-full h-full object-cover
-              transition-transform duration-500 ease-out
-              group-hover:scale-105
-            "
-          />
-        ) : (
-          <div
-            className="
-              w-full h-full
-              flex items-center justify-center
-              bg-gradient-to-br from-surface-raised to-surface-elevated
-            "
-          >
-            <span className="text-xs text-text-subtle uppercase tracking-wider">
-              No image
-            </span>
-          </div>
-        )}
-      </Link>
+          {hasImage ? (
+            <ProductImage
+              src={product.imageUrl!}
+              asset={findImageAsset(product.imageAssets, product.imageUrl!)}
+              alt={product.name}
+              sizes={CARD_IMAGE_SIZES}
+              className="
+                w-full h-full object-cover
+                transition-transform duration-500 ease-out
+                group-hover:scale-105
+              "
+            />
+          ) : (
+            <div
+              className="
+                w-full h-full
+                flex items-center justify-center
+                bg-gradient-to-br from-surface-raised to-surface-elevated
+              "
+            >
+              <span className="text-xs text-text-subtle uppercase tracking-wider">
+                No image
+              </span>
+            </div>
+          )}
+        </Link>
+
+        {/* Save + compare toggles (outside the link so they don't navigate) */}
+        <div className="absolute top-2 right-2 z-10 flex flex-col gap-2">
+          <WishlistButton productId={product.id} productName={product.name} />
+          <CompareButton productId={product.id} productName={product.name} />
+        </div>
+      </div>
 
       {/* Text area: Clickable name and price */}
       <Link href={`/products/${productSlug}`} className="mt-3 flex-grow block">
@@ -137,11 +206,18 @@ export default function ProductCard({
             transition-colors duration-200
           "
         >
-          {product.name}
+          {highlights && highlights.length > 0 ? (
+            <HighlightedName name={product.name} highlights={highlights} />
+          ) : (
+            product.name
+          )}
         </h3>
 
         <p className="mt-1 text-xs md:text-sm text-text-muted">
-          {displayPrice}
+          <Price
+            amount={product.price}
+            fallback={product.priceText || "Price on site"}
+          />
         </p>
       </Link>
 
@@ -150,14 +226,12 @@ export default function ProductCard({
         {/* FULL VARIANT */}
         {buttonVariant === "full" && (
           <>
-            <a
-              href={product.buyUrl}
-              target="_blank"
-              rel="noopener noreferrer"
+            <BuyLink
+              buyUrl={product.buyUrl}
               className="btn-primary btn-sm btn-full"
             >
               Buy
-            </a>
+            </BuyLink>
             <Link
               href={`/products/${productSlug}`}
               className="btn-secondary btn-sm btn-full"
@@ -169,14 +243,12 @@ export default function ProductCard({
 
         {/* BUY-ONLY VARIANT */}
         {buttonVariant === "buy-only" && (
-          <a
-            href={product.buyUrl}
-            target="_blank"
-            rel="noopener noreferrer"
+          <BuyLink
+            buyUrl={product.buyUrl}
             className="btn-primary btn-sm btn-full"
           >
             Buy
-          </a>
+          </BuyLink>
         )}
 
         {/* DETAILS-ONLY VARIANT */}
@@ -0,0 +1,315 @@
+"use client";
+
+/**
+ * ProductGallery Component
+ *
+ * Image gallery for the product detail page: a main image with
+ * previous/next controls and swipe, a thumbnail strip, and a fullscreen
+ * lightbox (opened by clicking the main image).
+ *
+ * Lightbox keys: ← / → to move, Esc to close.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import ProductImage from "@/components/ProductImage";
+import { ImageAsset, findImageAsset } from "@/lib/images";
+
+/**
+ * Props for the ProductGallery component.
+ */
+interface ProductGalleryProps {
+  /** Image URLs in display order, cover first (at least one) */
+  images: string[];
+  /** Self-hosted variants, by source URL (see lib/images.ts) */
+  imageAssets: ImageAsset[];
+  /** Product name, for alt text */
+  productName: string;
+}
+
+/** Minimum horizontal travel (px) for a touch to count as a swipe */
+const SWIPE_THRESHOLD = 50;
+
+/**
+ * Touch handlers that call onPrev/onNext on a horizontal swipe.
+ */
+function useSwipe(onPrev: () => void, onNext: () => void) {
+  const startX = useRef<number | null>(null);
+
+  return {
+    onTouchStart: (e: React.TouchEvent) => {
+      startX.current = e.touches[0].clientX;
+    },
+    onTouchEnd: (e: React.TouchEvent) => {
+      if (startX.current === null) return;
+      const deltaX = e.changedTouches[0].clientX - startX.current;
+      startX.current = null;
+
+      if (deltaX > SWIPE_THRESHOLD) onPrev();
+      else if (deltaX < -SWIPE_THRESHOLD) onNext();
+    },
+  };
+}
+
+/**
+ * Chevron icon for the previous/next buttons.
+ */
+function ChevronIcon({ direction }: { direction: "left" | "right" }) {
+  return (
+    <svg
+      className="w-5 h-5"
+      fill="none"
+      stroke="currentColor"
+      viewBox="0 0 24 24"
+      aria-hidden="true"
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d={direction === "left" ? "M15 19l-7-7 7-7" : "M9 5l7 7-7 7"}
+      />
+    </svg>
+  );
+}
+
+/**
+ * Round previous/next button shown over an image.
+ */
+function ArrowButton({
+  direction,
+  onClick,
+  className = "flex",
+}: {
+  direction: "left" | "right";
+  onClick: () => void;
+  /** Display classes (default: always shown) */
+  className?: string;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      aria-label={direction === "left" ? "Previous image" : "Next image"}
+      className={`
+        absolute top-1/2 -translate-y-1/2
+        ${direction === "left" ? "left-3" : "right-3"}
+        w-10 h-10
+        items-center justify-center
+        rounded-full
+        bg-black/60 text-white
+        backdrop-blur-sm
+        hover:bg-black/80
+        transition-colors
+        cursor-pointer
+        ${className}
+      `}
+    >
+      <ChevronIcon direction={direction} />
+    </button>
+  );
+}
+
+/**
+ * ProductGallery renders the main image, thumbnails and lightbox.
+ */
+export default function ProductGallery({
+  images,
+  imageAssets,
+  productName,
+}: ProductGalleryProps) {
+  const [index, setIndex] = useState(0);
+  const [isLightboxOpen, setIsLightboxOpen] = useState(false);
+  const hasMultiple = images.length > 1;
+
+  const showPrev = () => setIndex((i) => (i - 1 + images.length) % images.length);
+  const showNext = () => setIndex((i) => (i + 1) % images.length);
+  const swipeHandlers = useSwipe(showPrev, showNext);
+
+  /* Lightbox: keyboard navigation and page scroll lock while open */
+  useEffect(() => {
+    if (!isLightboxOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setIsLightboxOpen(false);
+      if (e.key === "ArrowLeft") setIndex((i) => (i - 1 + images.length) % images.length);
+      if (e.key === "ArrowRight") setIndex((i) => (i + 1) % images.length);
+    };
+
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.body.style.overflow = previousOverflow;
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [isLightboxOpen, images.length]);
+
+  const counter = `${index + 1} / ${images.length}`;
+
+  return (
+    <>
+      {/* Main image */}
+      <div
+        className="
+          relative
+          aspect-[4/5]
+          w-full
+          bg-surface-elevated
+          border border-border-default
+          rounded-2xl
+          overflow-hidden
+          shadow-[0_0_60px_rgba(0,0,0,0.5)]
+          touch-pan-y
+        "
+        {...swipeHandlers}
+      >
+        <button
+          type="button"
+          onClick={() => setIsLightboxOpen(true)}
+          aria-label="Open fullscreen gallery"
+          className="block w-full h-full cursor-zoom-in"
+        >
+          <ProductImage
+            key={images[index]}
+            src={images[index]}
+            asset={findImageAsset(imageAssets, images[index])}
+            alt={`${productName} - Image ${index + 1}`}
+            sizes="(min-width: 1024px) 45vw, 100vw"
+            priority={index === 0}
+            className="w-full h-full object-cover"
+          />
+        </button>
+
+        {/* Inner shadow overlay */}
+        <div
+          className="
+            absolute inset-0
+            pointer-events-none
+            shadow-[inset_0_0_60px_rgba(0,0,0,0.3)]
+          "
+        />
+
+        {hasMultiple && (
+          <>
+            <ArrowButton direction="left" onClick={showPrev} className="hidden md:flex" />
+            <ArrowButton direction="right" onClick={showNext} className="hidden md:flex" />
+
+            {/* Image counter */}
+            <div
+              className="
+                absolute bottom-3 right-3
+                px-2 py-1
+                text-[10px] font-mono
+                text-white
+                bg-black/60
+                backdrop-blur-sm
+                rounded
+                pointer-events-none
+              "
+            >
+              {counter}
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Thumbnails */}
+      {hasMultiple && (
+        <div className="mt-4 flex gap-2 overflow-x-auto scrollbar-hide">
+          {images.map((imageUrl, i) => (
+            <button
+              key={imageUrl}
+              type="button"
+              onClick={() => setIndex(i)}
+              aria-label={`Show image ${i + 1}`}
+              aria-current={i === index}
+              className={`
+                flex-shrink-0
+                w-16 h-16 md:w-20 md:h-20
+                rounded-lg
+                overflow-hidden
+                border
+                transition-all
+                cursor-pointer
+                ${
+                  i === index
+                    ? "border-text-primary opacity-100"
+                    : "border-border-default opacity-60 hover:opacity-100"
+                }
+              `}
+            >
+              <ProductImage
+                src={imageUrl}
+                asset={findImageAsset(imageAssets, imageUrl)}
+                alt=""
+                sizes="80px"
+                className="w-full h-full object-cover"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Fullscreen lightbox */}
+      {isLightboxOpen && (
+        <div
+          role="dialog"
+          aria-modal="true"
+          aria-label={`${productName} gallery`}
+          onClick={() => setIsLightboxOpen(false)}
+          className="
+            fixed inset-0
+            z-[100]
+            flex items-center justify-center
+            bg-black/95
+            touch-pan-y
+          "
+          {...swipeHandlers}
+        >
+          <div onClick={(e) => e.stopPropagation()} className="contents">
+            <ProductImage
+              key={images[index]}
+              src={images[index]}
+              asset={findImageAsset(imageAssets, images[index])}
+              alt={`${productName} - Image ${index + 1}`}
+              sizes="95vw"
+              priority
+              className="max-w-[95vw] max-h-[85vh] w-auto h-auto object-contain"
+            />
+          </div>
+
+          <button
+            type="button"
+            onClick={() => setIsLightboxOpen(false)}
+            aria-label="Close gallery"
+            className="
+              absolute top-4 right-4
+              w-10 h-10
+              flex items-center justify-center
+              rounded-full
+              text-white text-2xl
+              bg-white/10 hover:bg-white/20
+              transition-colors
+              cursor-pointer
+            "
+          >
+            ×
+          </button>
+
+          {hasMultiple && (
+            <>
+              <ArrowButton direction="left" onClick={showPrev} />
+              <ArrowButton direction="right" onClick={showNext} />
+              <div className="absolute bottom-6 left-1/2 -translate-x-1/2 text-xs font-mono text-neutral-400">
+                {counter}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
@@ -9,9 +9,13 @@
  * - Dense grid: 2 cols → 3 cols → 4 cols → 5 cols
  * - Tighter gaps for compact appearance
  * - Empty state message when no products to display
+ * - NEW / PRICE DROP badges from the latest catalog import take priority
+ *   over "Best Selling"
  */
 
-import { Product } from "@/lib/products";
+import { getChangeBadge } from "@/lib/catalog-changes";
+import type { Product } from "@/lib/products";
+import type { MatchRange } from "@/lib/search";
 import ProductCard from "@/components/ProductCard";
 
 /**
@@ -20,13 +24,21 @@ import ProductCard from "@/components/ProductCard";
 interface ProductGridProps {
   /** Array of products to display in the grid */
   products: Product[];
+  /** Matched name ranges by product ID, for search results */
+  highlights?: Record<number, MatchRange[]>;
+  /** Whether the first cards get a "Best Selling" badge (default: true) */
+  showBadges?: boolean;
 }
 
 /**
  * ProductGrid renders a dense responsive grid of product cards.
  * If the products array is empty, it shows an empty state message.
  */
-export default function ProductGrid({ products }: ProductGridProps) {
+export default function ProductGrid({
+  products,
+  highlights,
+  showBadges = true,
+}: ProductGridProps) {
   /**
    * Empty state: No products to display.
    * This can happen when a category filter has no matching products.
@@ -64,12 +76,17 @@ export default function ProductGrid({ products }: ProductGridProps) {
       {products.map((product, index) => (
         /* 
           Each ProductCard is keyed by product.id for efficient React reconciliation.
-          First few products get a "BEST SELLING" badge.
+          Products from the latest import get a "NEW" or "PRICE DROP" badge,
+          otherwise the first few get "BEST SELLING".
         */
         <ProductCard
           key={product.id}
           product={product}
-          badge={index < 3 ? "Best Selling" : undefined}
+          badge={
+            getChangeBadge(product.id) ??
+            (showBadges && index < 3 ? "Best Selling" : undefined)
+          }
+          highlights={highlights?.[product.id]}
         />
       ))}
     </div>
@@ -0,0 +1,166 @@
+"use client";
+
+/**
+ * ProductImage Component
+ *
+ * Renders a product image from its self-hosted variants when they exist
+ * (see lib/images.ts): next/image props for each format (getImageProps(),
+ * with a loader that only lists generated widths) in a <picture>, so the
+ * browser picks AVIF or WebP, with intrinsic dimensions to avoid layout
+ * shift and the blur placeholder painted until the image loads.
+ *
+ * Images that haven't been processed yet are shown from the source URL
+ * through next/image, which resizes and re-encodes CDN images on demand.
+ *
+ * Never shows a broken-image icon: if the self-hosted variant fails it
+ * retries the source URL, and if that fails too (dead CDN link) it renders
+ * `fallback` instead. scripts/check-images.mjs reports these links.
+ *
+ * `className` is applied to the <img>; the <picture> wrapper uses
+ * `display: contents` so layout classes behave as on a bare <img>.
+ */
+
+import { useState } from "react";
+import Image, { getImageProps } from "next/image";
+import {
+  IMAGE_FORMATS,
+  ImageAsset,
+  ImageFormat,
+  getImageAssetLoader,
+  isOptimizableImage,
+} from "@/lib/images";
+
+/**
+ * Nominal size for source images, whose dimensions aren't known until
+ * they are processed. Only the aspect ratio matters; CSS sets the size.
+ */
+const SOURCE_IMAGE_SIZE = 800;
+
+/**
+ * Props for the ProductImage component.
+ */
+interface ProductImageProps {
+  /** Source image URL */
+  src: string;
+  /** Self-hosted variants of src, or null to use src directly */
+  asset: ImageAsset | null;
+  alt: string;
+  /** Rendered width hint for srcset selection (e.g. "(min-width: 1024px) 25vw, 50vw") */
+  sizes: string;
+  className?: string;
+  /** Load immediately with high priority (above-the-fold images) */
+  priority?: boolean;
+  /** Shown when no version of the image loads (default: "No image" block) */
+  fallback?: React.ReactNode;
+}
+
+/**
+ * Which version of the image is being shown.
+ */
+type ImageStage = "asset" | "source" | "failed";
+
+/**
+ * Default stand-in for an image that failed to load.
+ */
+const DEFAULT_FALLBACK = (
+  <div
+    className="
+      w-full h-full
+      flex items-center justify-center
+      bg-gradient-to-br from-surface-raised to-surface-elevated
+    "
+  >
+    <span className="text-xs text-text-subtle uppercase tracking-wider">
+      No image
+    </span>
+  </div>
+);
+
+/**
+ * ProductImage renders an optimized, responsive product image.
+ */
+export default function ProductImage({
+  src,
+  asset,
+  alt,
+  sizes,
+  className = "",
+  priority = false,
+  fallback = DEFAULT_FALLBACK,
+}: ProductImageProps) {
+  const [stage, setStage] = useState<ImageStage>(asset ? "asset" : "source");
+
+  /** Steps down to the next version: self-hosted → source URL → fallback */
+  const handleError = () => {
+    setStage((current) => (current === "asset" ? "source" : "failed"));
+  };
+
+  /**
+   * Catches images that failed before hydration attached onError
+   * (a finished load with no pixels means it broke).
+   */
+  const checkLoaded = (img: HTMLImageElement | null) => {
+    if (img && img.complete && img.naturalWidth === 0) {
+      handleError();
+    }
+  };
+
+  if (stage === "failed") {
+    return <>{fallback}</>;
+  }
+
+  if (stage === "source" || !asset) {
+    return (
+      <Image
+        key="source"
+        ref={checkLoaded}
+        src={src}
+        alt={alt}
+        width={SOURCE_IMAGE_SIZE}
+        height={SOURCE_IMAGE_SIZE}
+        sizes={sizes}
+        unoptimized={!isOptimizableImage(src)}
+        preload={priority}
+        onError={handleError}
+        className={className}
+      />
+    );
+  }
+
+  /** next/image props for the asset in one format */
+  const getFormatProps = (format: ImageFormat) =>
+    getImageProps({
+      loader: getImageAssetLoader(asset, format),
+      src: asset.path,
+      alt,
+      width: asset.width,
+      height: asset.height,
+      sizes,
+      preload: priority,
+      placeholder: "blur",
+      blurDataURL: asset.blurDataURL,
+      className,
+    }).props;
+
+  // The <img> itself gets the most widely supported format (WebP)
+  const imgProps = getFormatProps(IMAGE_FORMATS[IMAGE_FORMATS.length - 1]);
+
+  return (
+    <picture className="contents">
+      {IMAGE_FORMATS.map((format) => (
+        <source
+          key={format}
+          type={`image/${format}`}
+          srcSet={getFormatProps(format).srcSet}
+          sizes={sizes}
+        />
+      ))}
+      <img
+        {...imgProps}
+        ref={checkLoaded}
+        alt={alt}
+        onError={handleError}
+      />
+    </picture>
+  );
+}
@@ -0,0 +1,46 @@
+/**
+ * QcVerdictBadge Component
+ *
+ * Small pill showing a QC verdict: green for GL, red for RL.
+ * Used on the quality report, the product page and /compare.
+ */
+
+import { QC_VERDICT_LABELS, QcVerdict } from "@/lib/qc";
+
+/**
+ * Props for the QcVerdictBadge component.
+ */
+interface QcVerdictBadgeProps {
+  verdict: QcVerdict;
+  /** Show the full label ("Green light") instead of "GL" */
+  showLabel?: boolean;
+}
+
+/**
+ * QcVerdictBadge renders a GL/RL pill.
+ */
+export default function QcVerdictBadge({
+  verdict,
+  showLabel = false,
+}: QcVerdictBadgeProps) {
+  const colors =
+    verdict === "GL"
+      ? "bg-emerald-500/15 text-emerald-400 border-emerald-500/30"
+      : "bg-red-500/15 text-red-400 border-red-500/30";
+
+  return (
+    <span
+      title={QC_VERDICT_LABELS[verdict]}
+      className={`
+        inline-flex items-center
+        px-2 py-0.5
+        text-[10px] font-bold
+        uppercase tracking-wider
+        border rounded
+        ${colors}
+      `}
+    >
+      {showLabel ? `${verdict} · ${QC_VERDICT_LABELS[verdict]}` : verdict}
+    </span>
+  );
+}
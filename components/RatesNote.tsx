@@ -0,0 +1,28 @@
+"use client";
+
+/**
+ * RatesNote Component
+ *
+ * Small print under converted prices, naming the source currency and the
+ * date of the exchange rates. Hidden while prices are shown in the source
+ * currency, since nothing was converted.
+ */
+
+import { SOURCE_CURRENCY, formatRatesDate } from "@/lib/currency";
+import { useCurrency } from "@/lib/use-currency";
+
+/**
+ * RatesNote renders the conversion note, or nothing.
+ */
+export default function RatesNote({ className }: { className?: string }) {
+  const { currency } = useCurrency();
+
+  if (currency.code === SOURCE_CURRENCY) {
+    return null;
+  }
+  return (
+    <span className={className}>
+      Converted from {SOURCE_CURRENCY} at rates of {formatRatesDate()}
+    </span>
+  );
+}
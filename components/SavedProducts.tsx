@@ -0,0 +1,329 @@
+"use client";
+
+/**
+ * SavedProducts Component
+ *
+ * Lists the products in the local wishlist (or in a shared list from a
+ * /saved?ids= link) with totals, plus export, import and share actions.
+ *
+ * Product data is fetched from /api/products?ids= rather than bundled, so
+ * IDs that no longer exist in the catalog simply don't come back; they are
+ * reported separately and can be removed in one click. Old IDs saved before
+ * product IDs became stable are resolved by the API and replaced in the
+ * local list.
+ *
+ * Design v2.0:
+ * - Layered grey surface colors
+ * - Refined typography
+ */
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+
+/* Component imports */
+import ProductGrid from "@/components/ProductGrid";
+
+/* Data imports */
+import type { ApiProduct, ProductListResponse } from "@/lib/api";
+import { formatPrice } from "@/lib/currency";
+import { useCurrency } from "@/lib/use-currency";
+import { useWishlist } from "@/lib/use-wishlist";
+import {
+  exportWishlist,
+  getSharedWishlistPath,
+  parseWishlistIds,
+} from "@/lib/wishlist";
+
+/** IDs per API request (MAX_PAGE_SIZE in lib/api.ts) */
+const FETCH_CHUNK_SIZE = 100;
+
+/**
+ * Props for the SavedProducts component.
+ */
+interface SavedProductsProps {
+  /** IDs from a shared link, or null to show the local wishlist */
+  sharedIds: number[] | null;
+}
+
+/**
+ * Products looked up so far, by ID. `null` marks an ID the catalog no
+ * longer has.
+ */
+type ProductLookup = Record<number, ApiProduct | null>;
+
+/**
+ * Fetches products by ID from the API, in chunks.
+ *
+ * @param ids - Product IDs to look up
+ * @returns Lookup with every requested ID (missing ones set to null), and
+ *   the requested old IDs mapped to current ones
+ */
+async function fetchProductsByIds(
+  ids: number[]
+): Promise<{ lookup: ProductLookup; redirectedIds: Record<number, number> }> {
+  const lookup: ProductLookup = Object.fromEntries(ids.map((id) => [id, null]));
+  const redirectedIds: Record<number, number> = {};
+
+  for (let i = 0; i < ids.length; i += FETCH_CHUNK_SIZE) {
+    const chunk = ids.slice(i, i + FETCH_CHUNK_SIZE);
+    const response = await fetch(
+      `/api/products?ids=${chunk.join(",")}&pageSize=${FETCH_CHUNK_SIZE}`
+    );
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const data: ProductListResponse = await response.json();
+    for (const item of data.items) {
+      lookup[item.id] = item;
+    }
+    for (const [oldId, currentId] of Object.entries(data.redirectedIds ?? {})) {
+      lookup[Number(oldId)] = lookup[currentId] ?? null;
+      redirectedIds[Number(oldId)] = currentId;
+    }
+  }
+
+  return { lookup, redirectedIds };
+}
+
+/**
+ * Offers a string as a file download.
+ */
+function downloadFile(filename: string, contents: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * SavedProducts renders the saved (or shared) list.
+ */
+export default function SavedProducts({ sharedIds }: SavedProductsProps) {
+  const wishlist = useWishlist();
+  const isShared = sharedIds !== null;
+  const viewIds = sharedIds ?? wishlist.ids;
+
+  const [lookup, setLookup] = useState<ProductLookup>({});
+  const [redirectedIds, setRedirectedIds] = useState<Record<number, number>>({});
+  const [hasError, setHasError] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const { currency } = useCurrency();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Only fetch IDs we haven't looked up yet (unsaving needs no request)
+  const unresolvedKey = viewIds.filter((id) => !(id in lookup)).join(",");
+
+  useEffect(() => {
+    if (!unresolvedKey) return;
+
+    let cancelled = false;
+    fetchProductsByIds(unresolvedKey.split(",").map(Number))
+      .then((found) => {
+        if (cancelled) return;
+        setLookup((prev) => ({ ...prev, ...found.lookup }));
+        setRedirectedIds((prev) => ({ ...prev, ...found.redirectedIds }));
+      })
+      .catch(() => {
+        if (!cancelled) setHasError(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [unresolvedKey]);
+
+  // Swap old IDs in the local list for current ones (shared links stay as-is)
+  useEffect(() => {
+    if (!isShared) wishlist.rename(redirectedIds);
+  }, [isShared, wishlist, redirectedIds]);
+
+  const isLoading =
+    (!isShared && !wishlist.ready) || (unresolvedKey !== "" && !hasError);
+  const products = viewIds
+    .map((id) => lookup[id])
+    .filter((product): product is ApiProduct => Boolean(product));
+  const missingIds = viewIds.filter((id) => lookup[id] === null);
+  const pricedProducts = products.filter((product) => product.price !== null);
+  const totalPrice = pricedProducts.reduce(
+    (sum, product) => sum + product.price!,
+    0
+  );
+
+  const handleExport = () => {
+    downloadFile(
+      "zayfinds-saved.json",
+      exportWishlist(wishlist.ids),
+      "application/json"
+    );
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const ids = parseWishlistIds(JSON.parse(await file.text()));
+      const newCount = ids.filter((id) => !wishlist.has(id)).length;
+      wishlist.add(ids);
+      setStatus(`Imported ${newCount} new ${newCount === 1 ? "item" : "items"}.`);
+    } catch (error) {
+      setStatus(
+        `Couldn't import that file: ${error instanceof Error ? error.message : "invalid JSON."}`
+      );
+    }
+  };
+
+  const handleShare = async () => {
+    const url = `${window.location.origin}${getSharedWishlistPath(wishlist.ids)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setStatus("Share link copied to clipboard.");
+    } catch {
+      setStatus(`Share this link: ${url}`);
+    }
+  };
+
+  return (
+    <>
+      {/* Totals + actions */}
+      <div
+        className="
+          px-6 md:px-12 lg:px-16
+          py-4
+          flex flex-col sm:flex-row
+          items-stretch sm:items-center
+          justify-between
+          gap-4
+          border-b border-border-default
+        "
+      >
+        <p className="text-meta text-text-muted">
+          {products.length} {products.length === 1 ? "ITEM" : "ITEMS"}
+          {pricedProducts.length > 0 && ` · ${formatPrice(totalPrice, currency.code)} TOTAL`}
+          {pricedProducts.length < products.length &&
+            ` (${products.length - pricedProducts.length} UNPRICED)`}
+        </p>
+
+        <div className="flex flex-wrap items-center gap-3">
+          {isShared ? (
+            <>
+              <button
+                type="button"
+                onClick={() => {
+                  wishlist.add(sharedIds);
+                  setStatus("Added to your saved finds.");
+                }}
+                disabled={sharedIds.length === 0}
+                className="btn-primary"
+              >
+                Save all to my list
+              </button>
+              <Link href="/saved" className="btn-secondary">
+                My saved finds
+              </Link>
+            </>
+          ) : (
+            <>
+              <button
+                type="button"
+                onClick={handleShare}
+                disabled={wishlist.ids.length === 0}
+                className="btn-secondary"
+              >
+                Copy share link
+              </button>
+              <button
+                type="button"
+                onClick={handleExport}
+                disabled={wishlist.ids.length === 0}
+                className="btn-secondary"
+              >
+                Export JSON
+              </button>
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="btn-secondary"
+              >
+                Import JSON
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                  e.target.value = "";
+                }}
+              />
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="px-6 md:px-12 lg:px-16 py-8">
+        {/* Action feedback */}
+        {status && (
+          <p className="text-sm text-text-secondary mb-6" role="status">
+            {status}
+          </p>
+        )}
+
+        {/* Saved IDs that are no longer in the catalog */}
+        {missingIds.length > 0 && (
+          <div
+            className="
+              mb-6
+              p-4
+              flex flex-col sm:flex-row
+              sm:items-center
+              justify-between
+              gap-3
+              rounded-lg
+              bg-surface-elevated
+              border border-border-default
+            "
+          >
+            <p className="text-sm text-text-muted">
+              {missingIds.length}{" "}
+              {missingIds.length === 1 ? "item is" : "items are"} no longer
+              available and {missingIds.length === 1 ? "was" : "were"} hidden.
+            </p>
+            {!isShared && (
+              <button
+                type="button"
+                onClick={() => wishlist.remove(missingIds)}
+                className="text-meta text-text-muted hover:text-text-primary transition-colors cursor-pointer"
+              >
+                REMOVE FROM LIST
+              </button>
+            )}
+          </div>
+        )}
+
+        {hasError && (
+          <p className="text-sm text-text-muted mb-6">
+            Some saved items couldn&apos;t be loaded. Try refreshing the page.
+          </p>
+        )}
+
+        {isLoading ? (
+          <p className="text-text-muted">Loading...</p>
+        ) : viewIds.length === 0 ? (
+          <div className="py-12 text-center">
+            <p className="text-text-muted text-sm mb-6">
+              {isShared
+                ? "This shared list is empty."
+                : "Nothing saved yet. Tap the heart on any find to keep it here."}
+            </p>
+            <Link href="/products" className="btn-secondary">
+              Browse products
+            </Link>
+          </div>
+        ) : (
+          <ProductGrid products={products} showBadges={false} />
+        )}
+      </div>
+    </>
+  );
+}
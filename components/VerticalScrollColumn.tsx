@@ -19,6 +19,7 @@
  */
 
 import { Product } from "@/lib/products";
+import { getChangeBadge } from "@/lib/catalog-changes";
 import ProductCard from "@/components/ProductCard";
 
 /**
@@ -76,7 +77,7 @@ export default function VerticalScrollColumn({
         */}
         {products.map((product) => (
           <div key={product.id} className="flex-shrink-0">
-            <ProductCard product={product} />
+            <ProductCard product={product} badge={getChangeBadge(product.id)} />
           </div>
         ))}
 
@@ -87,7 +88,7 @@ export default function VerticalScrollColumn({
         */}
         {products.map((product) => (
           <div key={`dup-${product.id}`} className="flex-shrink-0">
-            <ProductCard product={product} />
+            <ProductCard product={product} badge={getChangeBadge(product.id)} />
           </div>
         ))}
       </div>
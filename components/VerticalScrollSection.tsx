@@ -21,6 +21,7 @@
 "use client";
 
 import { Product } from "@/lib/products";
+import { getChangeBadge } from "@/lib/catalog-changes";
 import VerticalScrollColumn from "@/components/VerticalScrollColumn";
 import ProductCard from "@/components/ProductCard";
 import { useRef, useEffect } from "react";
@@ -263,7 +264,11 @@ export default function VerticalScrollSection({ products }: VerticalScrollSectio
                 key={`first-${product.id}`}
                 className="flex-shrink-0 w-[200px]"
               >
-                <ProductCard product={product} buttonVariant="buy-only" />
+                <ProductCard
+                  product={product}
+                  badge={getChangeBadge(product.id)}
+                  buttonVariant="buy-only"
+                />
               </div>
             ))}
 
@@ -273,7 +278,11 @@ export default function VerticalScrollSection({ products }: VerticalScrollSectio
                 key={`second-${product.id}`}
                 className="flex-shrink-0 w-[200px]"
               >
-                <ProductCard product={product} buttonVariant="buy-only" />
+                <ProductCard
+                  product={product}
+                  badge={getChangeBadge(product.id)}
+                  buttonVariant="buy-only"
+                />
               </div>
             ))}
           </div>
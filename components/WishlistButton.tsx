@@ -0,0 +1,99 @@
+"use client";
+
+/**
+ * WishlistButton Component
+ *
+ * Heart toggle that saves a product to the local wishlist (see
+ * lib/wishlist.ts). Saved products are listed on /saved.
+ *
+ * Variants:
+ * - "icon" (default): Round heart overlay for product card images
+ * - "button": Full-size outline button for the product detail page
+ */
+
+import { useWishlist } from "@/lib/use-wishlist";
+
+/**
+ * Props for the WishlistButton component.
+ */
+interface WishlistButtonProps {
+  productId: number;
+  /** Product name, for the accessible label */
+  productName: string;
+  variant?: "icon" | "button";
+}
+
+/**
+ * Heart outline, filled when the product is saved.
+ */
+function HeartIcon({ filled, className }: { filled: boolean; className: string }) {
+  return (
+    <svg
+      className={className}
+      fill={filled ? "currentColor" : "none"}
+      stroke="currentColor"
+      viewBox="0 0 24 24"
+      aria-hidden="true"
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z"
+      />
+    </svg>
+  );
+}
+
+/**
+ * WishlistButton renders a save/unsave toggle for one product.
+ */
+export default function WishlistButton({
+  productId,
+  productName,
+  variant = "icon",
+}: WishlistButtonProps) {
+  const wishlist = useWishlist();
+  const isSaved = wishlist.has(productId);
+  const label = isSaved ? `Remove ${productName} from saved` : `Save ${productName}`;
+
+  if (variant === "button") {
+    return (
+      <button
+        type="button"
+        onClick={() => wishlist.toggle(productId)}
+        aria-pressed={isSaved}
+        aria-label={label}
+        className="btn-secondary btn-lg"
+      >
+        <HeartIcon filled={isSaved} className="w-4 h-4" />
+        {isSaved ? "Saved" : "Save"}
+      </button>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => wishlist.toggle(productId)}
+      aria-pressed={isSaved}
+      aria-label={label}
+      title={isSaved ? "Remove from saved" : "Save"}
+      className={`
+        w-8 h-8
+        flex items-center justify-center
+        rounded-full
+        bg-surface-base/70
+        backdrop-blur-sm
+        border border-border-default
+        cursor-pointer
+        transition-all duration-200
+        hover:scale-110
+        hover:border-border-strong
+        ${isSaved ? "text-text-primary" : "text-text-muted hover:text-text-primary"}
+      `}
+    >
+      <HeartIcon filled={isSaved} className="w-4 h-4" />
+    </button>
+  );
+}
@@ -0,0 +1,158 @@
+/**
+ * Shopping Agents
+ *
+ * Buy links for several shopping agents, built from the table in
+ * data/agents.json. Each product's buyUrl is parsed into its listing
+ * (platform + item ID, see lib/seller.ts) and rebuilt from the agent's URL
+ * template, with our referral code appended when we have one.
+ *
+ * The file is edited by hand, so it is validated once at module load and
+ * a malformed agent fails loudly. The shopper's choice is stored by
+ * lib/use-preferred-agent.ts; BuyLink renders the result.
+ */
+
+import agentsData from "@/data/agents.json";
+import { Platform, getListingUrl, parseListing } from "@/lib/seller";
+
+/* ===========================================
+   TYPES
+   =========================================== */
+
+/**
+ * One shopping agent from data/agents.json.
+ */
+export interface ShoppingAgent {
+  /** Stable key, stored as the shopper's preference */
+  id: string;
+  /** Display name (e.g. "Mulebuy") */
+  name: string;
+  /** Link template with {itemId}, {shopType} and/or {listingUrl} */
+  url: string;
+  /** The agent's shop_type code per platform, for {shopType} */
+  shopTypes: Partial<Record<Platform, string>>;
+  /** Query parameter carrying the referral code */
+  refParam: string;
+  /** Referral code, empty if we have none with this agent */
+  ref: string;
+}
+
+/* ===========================================
+   VALIDATION
+   =========================================== */
+
+/**
+ * Checks a condition while validating, naming the agent on failure.
+ */
+function check(condition: boolean, agentId: string, message: string): void {
+  if (!condition) {
+    throw new Error(`data/agents.json: agent ${agentId}: ${message}`);
+  }
+}
+
+/**
+ * Validates the agent table.
+ *
+ * @param data - Parsed data/agents.json
+ * @returns Agents in display order
+ */
+function loadAgents(data: { agents: unknown[] }): ShoppingAgent[] {
+  const seenIds = new Set<string>();
+
+  const agents = data.agents.map((value, index) => {
+    const agent = (value ?? {}) as Record<string, unknown>;
+    const agentId = typeof agent.id === "string" ? agent.id : `#${index}`;
+
+    check(/^[a-z0-9-]+$/.test(agentId), agentId, "id must be a lowercase key");
+    check(!seenIds.has(agentId), agentId, "duplicate id");
+    check(typeof agent.name === "string" && agent.name !== "", agentId, "name is required");
+    check(
+      typeof agent.url === "string" && /^https:\/\/\S+$/.test(agent.url),
+      agentId,
+      "url must be an https URL template"
+    );
+    check(
+      /\{(itemId|listingUrl)\}/.test(agent.url as string),
+      agentId,
+      "url must contain {itemId} or {listingUrl}"
+    );
+    check(
+      !(agent.url as string).includes("{shopType}") ||
+        (typeof agent.shopTypes === "object" && agent.shopTypes !== null),
+      agentId,
+      "shopTypes is required when url uses {shopType}"
+    );
+    check(typeof agent.refParam === "string" && agent.refParam !== "", agentId, "refParam is required");
+    check(typeof agent.ref === "string", agentId, "ref must be a string (empty for none)");
+
+    seenIds.add(agentId);
+    return {
+      id: agentId,
+      name: agent.name as string,
+      url: agent.url as string,
+      shopTypes: (agent.shopTypes ?? {}) as ShoppingAgent["shopTypes"],
+      refParam: agent.refParam as string,
+      ref: agent.ref as string,
+    };
+  });
+
+  if (agents.length === 0) {
+    throw new Error("data/agents.json: at least one agent is required");
+  }
+  return agents;
+}
+
+/**
+ * Agents in display order, validated once at module load.
+ */
+const agents = loadAgents(agentsData);
+
+/**
+ * The agent used until the shopper picks one (the first in the table).
+ */
+export const DEFAULT_AGENT: ShoppingAgent = agents[0];
+
+/* ===========================================
+   DATA ACCESS FUNCTIONS
+   =========================================== */
+
+/**
+ * Get every agent, in display order.
+ */
+export function getAgents(): ShoppingAgent[] {
+  return agents;
+}
+
+/**
+ * Get an agent by ID, falling back to the default for unknown IDs (e.g. a
+ * stored preference for an agent that was removed).
+ *
+ * @param agentId - Agent ID, or null for the default
+ */
+export function getAgent(agentId: string | null): ShoppingAgent {
+  return agents.find((agent) => agent.id === agentId) ?? DEFAULT_AGENT;
+}
+
+/**
+ * Builds the buy link for a product on an agent.
+ *
+ * @param buyUrl - The product's buyUrl from the catalog
+ * @param agent - Agent to buy through
+ * @returns Agent link, or the original buyUrl if the listing isn't
+ *   recognized or the agent doesn't support its platform
+ */
+export function getAgentBuyUrl(buyUrl: string, agent: ShoppingAgent): string {
+  const listing = parseListing(buyUrl);
+  if (!listing) return buyUrl;
+
+  const shopType = agent.shopTypes[listing.platform];
+  if (agent.url.includes("{shopType}") && !shopType) return buyUrl;
+
+  const url = agent.url
+    .replace("{itemId}", listing.itemId)
+    .replace("{shopType}", shopType ?? "")
+    .replace("{listingUrl}", encodeURIComponent(getListingUrl(listing)));
+
+  if (!agent.ref) return url;
+  const separator = url.includes("?") ? "&" : "?";
+  return `${url}${separator}${agent.refParam}=${encodeURIComponent(agent.ref)}`;
+}
@@ -0,0 +1,191 @@
+/**
+ * Catalog API Helpers
+ *
+ * Response schema and shared helpers for the read-only JSON API under
+ * app/api. All data comes from lib/products.ts.
+ *
+ * Endpoints:
+ * - GET /api/products          → ProductListResponse
+ * - GET /api/products/[slug]   → ProductDetailResponse
+ * - GET /api/categories        → CategoryListResponse
+ *
+ * Every response carries an ETag and Cache-Control header; requests with a
+ * matching If-None-Match get an empty 304.
+ */
+
+import { createHash } from "crypto";
+import { PriceHistogram, Product, getProductSlug } from "@/lib/products";
+import { PRODUCTS_PAGE_SIZE } from "@/lib/product-url-state";
+import type { MatchRange } from "@/lib/search";
+
+/* ===========================================
+   RESPONSE SCHEMA
+   =========================================== */
+
+/**
+ * A product as returned by the API.
+ */
+export interface ApiProduct extends Product {
+  /** Site path of the product detail page */
+  url: string;
+  /** Site path of the quality check page */
+  qualityUrl: string;
+  /** Matched ranges in `name` (only in search results) */
+  highlights?: MatchRange[];
+}
+
+/**
+ * Response for GET /api/products.
+ */
+export interface ProductListResponse {
+  items: ApiProduct[];
+  /** Number of products matching the filters */
+  total: number;
+  /** Current page (1-based) */
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  /** Price distribution of the matches, ignoring minPrice/maxPrice */
+  priceHistogram: PriceHistogram;
+  /**
+   * Requested old IDs mapped to the current IDs they resolved to (only
+   * with `ids`, when some were old; see resolveProductId())
+   */
+  redirectedIds?: Record<number, number>;
+}
+
+/**
+ * Response for GET /api/products/[slug].
+ */
+export interface ProductDetailResponse {
+  item: ApiProduct;
+  related: ApiProduct[];
+}
+
+/**
+ * A subcategory with its product count.
+ */
+export interface ApiSubcategory {
+  name: string;
+  productCount: number;
+  /** Site path of the filtered product listing */
+  url: string;
+}
+
+/**
+ * A category with its product count.
+ */
+export interface ApiCategory {
+  name: string;
+  /** Emoji from data/taxonomy.json */
+  icon: string;
+  productCount: number;
+  /** Site path of the category landing page (/category/[slug]) */
+  url: string;
+  /** In taxonomy order; empty if the category has none */
+  subcategories: ApiSubcategory[];
+}
+
+/**
+ * Response for GET /api/categories.
+ */
+export interface CategoryListResponse {
+  items: ApiCategory[];
+}
+
+/**
+ * Error body for 4xx responses.
+ */
+export interface ApiErrorResponse {
+  error: {
+    code: "invalid_parameter" | "not_found";
+    message: string;
+  };
+}
+
+/* ===========================================
+   CONSTANTS
+   =========================================== */
+
+/** Default page size for GET /api/products (same as the /products listing) */
+export const DEFAULT_PAGE_SIZE = PRODUCTS_PAGE_SIZE;
+
+/** Largest page size a client may request */
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Catalog data only changes on deploy, so let CDNs hold responses for a
+ * while and serve stale copies during revalidation.
+ */
+const CACHE_CONTROL =
+  "public, max-age=60, s-maxage=300, stale-while-revalidate=86400";
+
+/* ===========================================
+   HELPERS
+   =========================================== */
+
+/**
+ * Converts a product to its API representation.
+ *
+ * @param product - The product to convert
+ * @param highlights - Matched name ranges, when the product is a search hit
+ * @returns Product with site URLs attached
+ */
+export function toApiProduct(
+  product: Product,
+  highlights?: MatchRange[]
+): ApiProduct {
+  const slug = getProductSlug(product);
+
+  return {
+    ...product,
+    url: `/products/${slug}`,
+    qualityUrl: `/quality/${slug}`,
+    ...(highlights ? { highlights } : {}),
+  };
+}
+
+/**
+ * Builds a cacheable JSON response.
+ * Computes a strong ETag from the body and answers 304 when the client's
+ * If-None-Match already matches it.
+ *
+ * @param request - The incoming request (for If-None-Match)
+ * @param body - The response payload
+ * @returns JSON response with ETag and Cache-Control headers
+ */
+export function cachedJson<T>(request: Request, body: T): Response {
+  const json = JSON.stringify(body);
+  const etag = `"${createHash("sha1").update(json).digest("base64url")}"`;
+  const headers = {
+    ETag: etag,
+    "Cache-Control": CACHE_CONTROL,
+  };
+
+  const ifNoneMatch = request.headers.get("if-none-match");
+  if (ifNoneMatch && ifNoneMatch.split(/\s*,\s*/).includes(etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(json, {
+    status: 200,
+    headers: { ...headers, "Content-Type": "application/json; charset=utf-8" },
+  });
+}
+
+/**
+ * Builds a JSON error response.
+ *
+ * @param status - HTTP status code
+ * @param code - Machine-readable error code
+ * @param message - Human-readable description
+ * @returns JSON error response
+ */
+export function errorJson(
+  status: 400 | 404,
+  code: ApiErrorResponse["error"]["code"],
+  message: string
+): Response {
+  const body: ApiErrorResponse = { error: { code, message } };
+  return Response.json(body, { status });
+}
@@ -0,0 +1,112 @@
+/**
+ * Catalog Changes
+ *
+ * The latest catalog changelog from data/catalog-changes.json, written by
+ * `npm run catalog -- build` whenever an import changes the catalog (see
+ * scripts/catalog/changelog.mjs). Drives the /new page and the NEW and
+ * PRICE DROP badges on product cards.
+ *
+ * Only IDs, names and changed values, so client components (ProductGrid
+ * under InfiniteProductGrid) can import it without bundling the catalog.
+ */
+
+import changesData from "@/data/catalog-changes.json";
+
+/* ===========================================
+   TYPES
+   =========================================== */
+
+/**
+ * A product as recorded in the changelog.
+ */
+export interface ChangedProduct {
+  id: number;
+  slug: string;
+  name: string;
+  price: number | null;
+}
+
+/**
+ * A product whose field changed, with the old and new value.
+ */
+export interface ProductChange<Value> extends ChangedProduct {
+  from: Value;
+  to: Value;
+}
+
+/**
+ * The changelog of one import, matched by buyUrl against the previous
+ * catalog.
+ */
+export interface CatalogChanges {
+  /** When the changelog was written (ISO 8601), null before the first build */
+  generatedAt: string | null;
+  /** Labels of the compared catalog versions, null before the first build */
+  from: string | null;
+  to: string | null;
+  summary: Record<string, number>;
+  added: ChangedProduct[];
+  removed: ChangedProduct[];
+  repriced: ProductChange<number | null>[];
+  renamed: ProductChange<string>[];
+  recategorized: ProductChange<string | null>[];
+  /** Cover image URLs (a gallery-only change keeps the same cover) */
+  reimaged: ProductChange<string | null>[];
+}
+
+/**
+ * Badge shown on cards of recently added or cheaper products.
+ */
+export type ChangeBadge = "New" | "Price Drop";
+
+/* ===========================================
+   DATA
+   =========================================== */
+
+const changes = changesData as CatalogChanges;
+
+/**
+ * Repriced products that got cheaper.
+ */
+const priceDrops = changes.repriced.filter(
+  (change) => change.from !== null && change.to !== null && change.to < change.from
+);
+
+/**
+ * Badge per product ID, built once at module load.
+ */
+const changeBadges = new Map<number, ChangeBadge>([
+  ...priceDrops.map((change) => [change.id, "Price Drop"] as const),
+  ...changes.added.map((product) => [product.id, "New"] as const),
+]);
+
+/* ===========================================
+   QUERIES
+   =========================================== */
+
+/**
+ * Get the latest changelog.
+ */
+export function getCatalogChanges(): CatalogChanges {
+  return changes;
+}
+
+/**
+ * Get the products that got cheaper in the latest import, biggest
+ * percentage drop first.
+ */
+export function getPriceDrops(): ProductChange<number | null>[] {
+  return [...priceDrops].sort(
+    (a, b) => (b.from! - b.to!) / b.from! - (a.from! - a.to!) / a.from!
+  );
+}
+
+/**
+ * Get the NEW / PRICE DROP badge for a product, if the latest import
+ * added it or lowered its price.
+ *
+ * @param productId - Current product ID
+ */
+export function getChangeBadge(productId: number): ChangeBadge | undefined {
+  return changeBadges.get(productId);
+}
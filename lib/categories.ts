@@ -0,0 +1,303 @@
+/**
+ * Product Categories
+ *
+ * The category taxonomy from data/taxonomy.json: categories in display
+ * order, their subcategories and icons, and the keyword rules the catalog
+ * build assigns them with (scripts/catalog/stages/categorize.mjs, through
+ * tsx).
+ *
+ * Kept apart from lib/products.ts (which imports the full catalog) so
+ * client components can use it cheaply. The file is edited by hand, so it
+ * is validated once at module load.
+ */
+
+import taxonomyData from "@/data/taxonomy.json";
+import { slugify } from "@/lib/slugs";
+
+/* ===========================================
+   TYPES
+   =========================================== */
+
+/**
+ * A subcategory, assigned from keywords in the product name.
+ */
+export interface SubcategoryDefinition {
+  name: string;
+  /** Lowercase name keywords (whole words, plurals included) */
+  keywords: string[];
+}
+
+/**
+ * A site category and the rules that assign it.
+ */
+export interface CategoryDefinition {
+  name: string;
+  /** Emoji shown on category cards */
+  icon: string;
+  /** Matched against the sheet's category header (lowercase) */
+  sheetRules: {
+    /** Whole headers */
+    exact: string[];
+    /** Substrings of the header */
+    contains: string[];
+  };
+  /** Matched against the product name (lowercase) */
+  nameRules: {
+    /** Whole words or phrases (space or hyphen delimited) */
+    words: string[];
+    /** Substrings anywhere in the name */
+    phrases: string[];
+    /** Groups of whole words that must all appear */
+    combos: string[][];
+  };
+  /** In match order (the first with a keyword in the name wins) */
+  subcategories: SubcategoryDefinition[];
+}
+
+/* ===========================================
+   VALIDATION
+   =========================================== */
+
+/**
+ * Checks a condition while validating, naming the problem on failure.
+ */
+function check(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`data/taxonomy.json: ${message}`);
+  }
+}
+
+/**
+ * Reads an optional list of lowercase keywords.
+ *
+ * @param value - Raw list from the file
+ * @param label - Where the list is, for error messages
+ */
+function readKeywords(value: unknown, label: string): string[] {
+  const keywords = value ?? [];
+  check(
+    Array.isArray(keywords) &&
+      keywords.every((keyword) => typeof keyword === "string" && keyword === keyword.toLowerCase()),
+    `${label} must be a list of lowercase strings`
+  );
+  return keywords as string[];
+}
+
+/**
+ * Validates the taxonomy file.
+ *
+ * @param data - Parsed data/taxonomy.json
+ * @returns Categories in display order, and the same categories in match order
+ */
+function loadTaxonomy(data: Record<string, unknown>): {
+  categories: CategoryDefinition[];
+  matchOrder: CategoryDefinition[];
+} {
+  check(Array.isArray(data.categories), "categories is required");
+
+  const categories = (data.categories as Record<string, unknown>[]).map((entry) => {
+    const name = entry.name as string;
+    check(typeof name === "string" && name !== "", "every category needs a name");
+    check(typeof entry.icon === "string" && entry.icon !== "", `${name}: icon is required`);
+
+    const sheetRules = (entry.sheetRules ?? {}) as Record<string, unknown>;
+    const nameRules = (entry.nameRules ?? {}) as Record<string, unknown>;
+    const combos = (nameRules.combos ?? []) as unknown[];
+    check(Array.isArray(combos), `${name}: nameRules.combos must be a list`);
+
+    const subcategories = (entry.subcategories ?? []) as Record<string, unknown>[];
+    check(Array.isArray(subcategories), `${name}: subcategories must be a list`);
+
+    return {
+      name,
+      icon: entry.icon as string,
+      sheetRules: {
+        exact: readKeywords(sheetRules.exact, `${name}: sheetRules.exact`),
+        contains: readKeywords(sheetRules.contains, `${name}: sheetRules.contains`),
+      },
+      nameRules: {
+        words: readKeywords(nameRules.words, `${name}: nameRules.words`),
+        phrases: readKeywords(nameRules.phrases, `${name}: nameRules.phrases`),
+        combos: combos.map((combo) => readKeywords(combo, `${name}: nameRules.combos`)),
+      },
+      subcategories: subcategories.map((subcategory) => {
+        check(
+          typeof subcategory.name === "string" && subcategory.name !== "",
+          `${name}: every subcategory needs a name`
+        );
+        return {
+          name: subcategory.name as string,
+          keywords: readKeywords(subcategory.keywords, `${name} → ${subcategory.name}: keywords`),
+        };
+      }),
+    };
+  });
+
+  const byName = new Map(categories.map((category) => [category.name, category]));
+  check(byName.size === categories.length, "category names must be unique");
+  for (const category of categories) {
+    const subcategoryNames = new Set(category.subcategories.map((subcategory) => subcategory.name));
+    check(
+      subcategoryNames.size === category.subcategories.length,
+      `${category.name}: subcategory names must be unique`
+    );
+  }
+
+  const matchOrder = (data.matchOrder ?? []) as string[];
+  check(
+    Array.isArray(matchOrder) &&
+      matchOrder.length === categories.length &&
+      matchOrder.every((name) => byName.has(name)),
+    "matchOrder must list every category once"
+  );
+
+  return {
+    categories,
+    matchOrder: [...new Set(matchOrder)].map((name) => byName.get(name)!),
+  };
+}
+
+/**
+ * The taxonomy, validated once at module load.
+ */
+const taxonomy = loadTaxonomy(taxonomyData);
+
+/* ===========================================
+   CATEGORY CONSTANTS
+   =========================================== */
+
+/**
+ * Every category name, in display order.
+ * This is the single source of truth for all category operations.
+ */
+export const NEW_CATEGORIES: readonly string[] = taxonomy.categories.map(
+  (category) => category.name
+);
+
+/**
+ * Where a product's category came from, set by the catalog build:
+ * - override: a manual decision in data/category-overrides.json
+ * - sheet: the source sheet's category header
+ * - rules: the taxonomy's keyword rules (alone or agreeing with the classifier)
+ * - classifier: a confident classifier prediction the rules had no answer for
+ */
+export const CATEGORY_SOURCES = ["override", "sheet", "rules", "classifier"] as const;
+
+/**
+ * One of CATEGORY_SOURCES.
+ */
+export type CategorySource = (typeof CATEGORY_SOURCES)[number];
+
+/* ===========================================
+   HELPERS
+   =========================================== */
+
+/**
+ * Returns the list of all valid categories, in display order.
+ *
+ * @returns Array of category names
+ */
+export function getAllCategories(): string[] {
+  return [...NEW_CATEGORIES];
+}
+
+/**
+ * Returns every category definition, in display order.
+ */
+export function getCategoryDefinitions(): CategoryDefinition[] {
+  return taxonomy.categories;
+}
+
+/**
+ * Returns every category definition in the order the catalog build tries
+ * their rules.
+ */
+export function getCategoryMatchOrder(): CategoryDefinition[] {
+  return taxonomy.matchOrder;
+}
+
+/**
+ * Whether a value is a category name.
+ */
+export function isCategory(value: unknown): value is string {
+  return (NEW_CATEGORIES as readonly unknown[]).includes(value);
+}
+
+/**
+ * Returns the icon for a category, or 📦 for unknown names.
+ *
+ * @param category - Category name
+ */
+export function getCategoryIcon(category: string): string {
+  return taxonomy.categories.find((entry) => entry.name === category)?.icon ?? "📦";
+}
+
+/**
+ * Returns a category's subcategory names, in match order.
+ *
+ * @param category - Category name
+ * @returns Subcategory names, or an empty array for unknown categories
+ */
+export function getSubcategories(category: string): string[] {
+  const definition = taxonomy.categories.find((entry) => entry.name === category);
+  return definition ? definition.subcategories.map((subcategory) => subcategory.name) : [];
+}
+
+/**
+ * Whether a subcategory belongs to a category.
+ *
+ * @param category - Category name
+ * @param subcategory - Subcategory name
+ */
+export function isSubcategoryOf(category: string, subcategory: string): boolean {
+  return getSubcategories(category).includes(subcategory);
+}
+
+/**
+ * Gets the URL slug for a category (e.g. "Room decor" → "room-decor").
+ *
+ * @param category - Category name
+ * @returns URL-safe slug for /category/[slug]
+ */
+export function getCategorySlug(category: string): string {
+  return slugify(category);
+}
+
+/**
+ * Looks up a category by its URL slug.
+ *
+ * @param slug - The category slug from the URL
+ * @returns The category name, or undefined if not found
+ */
+export function getCategoryBySlug(slug: string): string | undefined {
+  const normalizedSlug = slug.toLowerCase();
+  return NEW_CATEGORIES.find((category) => getCategorySlug(category) === normalizedSlug);
+}
+
+/**
+ * Site path of the filterable product listing for a category or
+ * subcategory.
+ *
+ * @param category - Category name
+ * @param subcategory - Optional subcategory of `category`
+ * @returns e.g. "/products?category=Tops&subcategory=Hoodies"
+ */
+export function getCategoryListingUrl(category: string, subcategory?: string | null): string {
+  const url = `/products?category=${encodeURIComponent(category)}`;
+  return subcategory ? `${url}&subcategory=${encodeURIComponent(subcategory)}` : url;
+}
+
+/**
+ * Site path to link a category or subcategory to: the category's landing
+ * page (/category/[slug]), or the filtered listing for a subcategory, which
+ * has no landing page of its own.
+ *
+ * @param category - Category name
+ * @param subcategory - Optional subcategory of `category`
+ * @returns e.g. "/category/tops" or "/products?category=Tops&subcategory=Hoodies"
+ */
+export function getCategoryUrl(category: string, subcategory?: string | null): string {
+  return subcategory
+    ? getCategoryListingUrl(category, subcategory)
+    : `/category/${getCategorySlug(category)}`;
+}
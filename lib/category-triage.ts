@@ -0,0 +1,159 @@
+/**
+ * Category Triage
+ *
+ * Server-side data for the dev-only /dev/categories page, where
+ * uncategorized products are given a category by hand.
+ *
+ * The catalog build lists every product it couldn't categorize in
+ * data/uncategorized-products.json, with the sheet category and name-based
+ * suggestions (see scripts/catalog/stages/categorize.mjs). Decisions are
+ * saved to data/category-overrides.json, which the next build applies.
+ *
+ * Both files are read from disk on every request rather than imported, so
+ * the page always shows the latest decisions. Only available in
+ * development: production deployments can't write to the repo.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+
+import { NEW_CATEGORIES } from "@/lib/categories";
+import { Product, getProductById } from "@/lib/products";
+
+/* ===========================================
+   TYPES
+   =========================================== */
+
+/**
+ * A category suggested by the build, from keywords in the product name.
+ */
+export interface CategorySuggestion {
+  category: string;
+  /** 0-1: 1 for a lone whole-word match, lower for partial or competing ones */
+  confidence: number;
+  /** Name keywords that matched */
+  keywords: string[];
+}
+
+/**
+ * An uncategorized product waiting for (or given) a manual decision.
+ */
+export interface TriageItem {
+  /** The product, or undefined if it left the catalog since the last build */
+  product: Product | undefined;
+  id: number;
+  name: string;
+  /** Category header from the sheet, null if it had none */
+  originalCategory: string | null;
+  /** Most confident first; empty if no keyword matched */
+  suggestions: CategorySuggestion[];
+  /** Whether a decision is saved in data/category-overrides.json */
+  decided: boolean;
+  /** The saved category, or null for "keep uncategorized" */
+  decision: string | null;
+}
+
+/**
+ * data/category-overrides.json: product id -> category, plus _ notes.
+ */
+type CategoryOverrides = Record<string, string | null>;
+
+/* ===========================================
+   FILES
+   =========================================== */
+
+const UNCATEGORIZED_PATH = join(process.cwd(), "data", "uncategorized-products.json");
+const OVERRIDES_PATH = join(process.cwd(), "data", "category-overrides.json");
+
+/**
+ * Whether triage is available (the dev server only).
+ */
+export function isTriageEnabled(): boolean {
+  return process.env.NODE_ENV === "development";
+}
+
+/**
+ * Reads and parses a JSON data file.
+ *
+ * @param path - Absolute file path
+ * @param fallback - Returned when the file doesn't exist
+ */
+function readJsonFile<T>(path: string, fallback: T): T {
+  return existsSync(path) ? (JSON.parse(readFileSync(path, "utf-8")) as T) : fallback;
+}
+
+/**
+ * Reads the saved decisions.
+ */
+function readOverrides(): CategoryOverrides {
+  return readJsonFile<CategoryOverrides>(OVERRIDES_PATH, {});
+}
+
+/**
+ * Writes the decisions back, keeping the _comment/_instructions notes
+ * first and the rest sorted by id so diffs stay small.
+ *
+ * @param overrides - Every decision, plus notes
+ */
+function writeOverrides(overrides: CategoryOverrides): void {
+  const keys = Object.keys(overrides);
+  const sorted = [
+    ...keys.filter((key) => key.startsWith("_")),
+    ...keys.filter((key) => !key.startsWith("_")).sort((a, b) => Number(a) - Number(b)),
+  ];
+  const data = Object.fromEntries(sorted.map((key) => [key, overrides[key]]));
+  writeFileSync(OVERRIDES_PATH, `${JSON.stringify(data, null, 2)}\n`, "utf-8");
+}
+
+/* ===========================================
+   TRIAGE
+   =========================================== */
+
+/**
+ * Get the products from the last build's uncategorized list, with their
+ * current decisions. Undecided products come first.
+ */
+export function getTriageItems(): TriageItem[] {
+  const overrides = readOverrides();
+  const uncategorized = readJsonFile<
+    Omit<TriageItem, "product" | "decided" | "decision">[]
+  >(UNCATEGORIZED_PATH, []);
+
+  const items = uncategorized.map((entry) => ({
+    product: getProductById(entry.id),
+    id: entry.id,
+    name: entry.name,
+    originalCategory: entry.originalCategory,
+    suggestions: entry.suggestions ?? [],
+    decided: String(entry.id) in overrides,
+    decision: overrides[String(entry.id)] ?? null,
+  }));
+
+  return items.sort((a, b) => Number(a.decided) - Number(b.decided));
+}
+
+/**
+ * Save a decision for a product.
+ *
+ * @param id - Product ID
+ * @param category - One of NEW_CATEGORIES, or null to keep it uncategorized
+ * @throws {Error} - If the category is unknown
+ */
+export function saveCategoryDecision(id: number, category: string | null): void {
+  if (category !== null && !(NEW_CATEGORIES as readonly string[]).includes(category)) {
+    throw new Error(`Unknown category "${category}"`);
+  }
+  writeOverrides({ ...readOverrides(), [id]: category });
+}
+
+/**
+ * Remove a product's decision, so the build categorizes it automatically
+ * again.
+ *
+ * @param id - Product ID
+ */
+export function clearCategoryDecision(id: number): void {
+  const overrides = readOverrides();
+  delete overrides[String(id)];
+  writeOverrides(overrides);
+}
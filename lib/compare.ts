@@ -0,0 +1,35 @@
+/**
+ * Product Comparison
+ *
+ * Helpers for /compare?ids=…, which shows up to MAX_COMPARE_ITEMS products
+ * side by side. The selection itself lives in localStorage and is read
+ * through useCompare() (lib/use-compare.ts); this module has no React
+ * imports so server components can use it too.
+ */
+
+import { parseSharedIds } from "@/lib/wishlist";
+
+/** Most products the compare page shows side by side */
+export const MAX_COMPARE_ITEMS = 4;
+
+/**
+ * Builds the /compare URL for a list of product IDs.
+ *
+ * @param ids - Product IDs, in column order
+ * @returns Site path, e.g. "/compare?ids=12,34"
+ */
+export function getComparePath(ids: number[]): string {
+  return `/compare?ids=${ids.join(",")}`;
+}
+
+/**
+ * Parses the `ids` parameter of a /compare link.
+ * Invalid and duplicate IDs are dropped, and only the first
+ * MAX_COMPARE_ITEMS are kept.
+ *
+ * @param value - e.g. "12,34"
+ * @returns Product IDs in column order
+ */
+export function parseCompareIds(value: string): number[] {
+  return parseSharedIds(value).slice(0, MAX_COMPARE_ITEMS);
+}
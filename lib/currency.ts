@@ -0,0 +1,191 @@
+/**
+ * Currency
+ *
+ * Price conversion and display from the rates in data/currency-rates.json.
+ * Catalog prices are in the file's sourceCurrency (USD today; CNY is
+ * supported, since marketplace prices are natively yuan) and are shown in
+ * the shopper's chosen currency (lib/use-currency.ts), formatted with Intl
+ * in that currency's locale.
+ *
+ * The file is edited by hand, so it is validated once at module load.
+ */
+
+import ratesData from "@/data/currency-rates.json";
+
+/* ===========================================
+   TYPES
+   =========================================== */
+
+/**
+ * One display currency.
+ */
+export interface Currency {
+  /** ISO 4217 code (e.g. "EUR") */
+  code: string;
+  /** Units per 1 of the base currency */
+  rate: number;
+  /** Locale for Intl formatting (e.g. "de-DE") */
+  locale: string;
+}
+
+/* ===========================================
+   VALIDATION
+   =========================================== */
+
+/**
+ * Checks a condition while validating, naming the field on failure.
+ */
+function check(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`data/currency-rates.json: ${message}`);
+  }
+}
+
+/**
+ * Validates the rates file.
+ *
+ * @param data - Parsed data/currency-rates.json
+ * @returns Currencies by code, in display order
+ */
+function loadCurrencies(data: Record<string, unknown>): Map<string, Currency> {
+  check(
+    typeof data.date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(data.date),
+    "date must be YYYY-MM-DD"
+  );
+  check(typeof data.currencies === "object" && data.currencies !== null, "currencies is required");
+
+  const currencies = new Map<string, Currency>();
+  for (const [code, value] of Object.entries(data.currencies as Record<string, unknown>)) {
+    const currency = (value ?? {}) as Record<string, unknown>;
+    check(/^[A-Z]{3}$/.test(code), `${code}: code must be ISO 4217`);
+    check(
+      typeof currency.rate === "number" && currency.rate > 0,
+      `${code}: rate must be a positive number`
+    );
+    check(typeof currency.locale === "string", `${code}: locale is required`);
+    currencies.set(code, {
+      code,
+      rate: currency.rate as number,
+      locale: currency.locale as string,
+    });
+  }
+
+  check(currencies.get(data.base as string)?.rate === 1, "base must be listed with rate 1");
+  check(currencies.has(data.sourceCurrency as string), "sourceCurrency must be listed");
+  return currencies;
+}
+
+/**
+ * Currencies by code, validated once at module load.
+ */
+const currencies = loadCurrencies(ratesData);
+
+/* ===========================================
+   CONSTANTS
+   =========================================== */
+
+/**
+ * Currency the rates are quoted against (rate 1).
+ */
+export const BASE_CURRENCY: string = ratesData.base;
+
+/**
+ * Currency of catalog prices (Product.price), and so of price filters.
+ */
+export const SOURCE_CURRENCY: string = ratesData.sourceCurrency;
+
+/**
+ * Symbol of the source currency for compact labels (e.g. "$", "¥").
+ */
+export const SOURCE_CURRENCY_SYMBOL: string =
+  new Intl.NumberFormat(currencies.get(SOURCE_CURRENCY)!.locale, {
+    style: "currency",
+    currency: SOURCE_CURRENCY,
+    currencyDisplay: "narrowSymbol",
+  })
+    .formatToParts(0)
+    .find((part) => part.type === "currency")!.value;
+
+/**
+ * Currency shown until the shopper picks one (the first listed).
+ */
+export const DEFAULT_CURRENCY: string = currencies.keys().next().value!;
+
+/**
+ * Date the rates were taken (YYYY-MM-DD).
+ */
+export const RATES_DATE: string = ratesData.date;
+
+/* ===========================================
+   HELPERS
+   =========================================== */
+
+/**
+ * Get every display currency, in order.
+ */
+export function getCurrencies(): Currency[] {
+  return [...currencies.values()];
+}
+
+/**
+ * Whether a currency is listed in the rates file.
+ *
+ * @param code - Currency code
+ */
+export function hasCurrency(code: string): boolean {
+  return currencies.has(code);
+}
+
+/**
+ * Resolve a currency code, falling back to the default for unknown codes
+ * (e.g. a stored choice for a currency that was removed).
+ *
+ * @param code - Currency code, or null for the default
+ */
+export function getCurrency(code: string | null): Currency {
+  return currencies.get(code ?? "") ?? currencies.get(DEFAULT_CURRENCY)!;
+}
+
+/**
+ * Convert an amount between two listed currencies.
+ *
+ * @param amount - Amount in `from`
+ * @param from - Source currency code
+ * @param to - Target currency code
+ */
+export function convertPrice(amount: number, from: string, to: string): number {
+  return (amount / getCurrency(from).rate) * getCurrency(to).rate;
+}
+
+/**
+ * Format a catalog price in a display currency.
+ *
+ * Examples (from USD 90):
+ * - "USD" → "$90.00"
+ * - "EUR" → "77,40 €"
+ * - "CNY" → "¥640.80"
+ *
+ * @param amount - Price in SOURCE_CURRENCY
+ * @param code - Display currency code
+ */
+export function formatPrice(amount: number, code: string): string {
+  const currency = getCurrency(code);
+  return new Intl.NumberFormat(currency.locale, {
+    style: "currency",
+    currency: currency.code,
+  }).format(convertPrice(amount, SOURCE_CURRENCY, currency.code));
+}
+
+/**
+ * Format the rates date for display (e.g. "OCT 18, 2026").
+ */
+export function formatRatesDate(): string {
+  return new Date(`${RATES_DATE}T00:00:00Z`)
+    .toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      timeZone: "UTC",
+    })
+    .toUpperCase();
+}
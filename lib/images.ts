@@ -0,0 +1,120 @@
+/**
+ * Product Image Assets
+ *
+ * Types and helpers for the self-hosted image variants generated by
+ * scripts/optimize-images.mjs. Each source image is downloaded once and
+ * re-encoded as AVIF and WebP at several widths under
+ * public/images/products/, with its dimensions and a tiny blur placeholder
+ * recorded on the product (`imageAssets`).
+ *
+ * Images without an asset (not processed yet, or added by an override) are
+ * still shown from their source URL, resized and re-encoded on demand by
+ * the Next.js image optimizer when they come from the marketplace CDN
+ * (`images` in next.config.ts).
+ *
+ * No data imports, so client components can use this module.
+ */
+
+/* ===========================================
+   TYPES
+   =========================================== */
+
+/**
+ * Self-hosted variants of one product image.
+ */
+export interface ImageAsset {
+  /** Source URL the variants were generated from (matches an entry in `images`) */
+  src: string;
+  /** Public path prefix; variants live at `${path}-${width}.avif` / `.webp` */
+  path: string;
+  /** Intrinsic width of the source image, in pixels */
+  width: number;
+  /** Intrinsic height of the source image, in pixels */
+  height: number;
+  /** Generated variant widths, ascending */
+  widths: number[];
+  /** Tiny inline WebP shown while the image loads */
+  blurDataURL: string;
+}
+
+/**
+ * Encodings generated for every variant, best compression first.
+ */
+export const IMAGE_FORMATS = ["avif", "webp"] as const;
+
+export type ImageFormat = (typeof IMAGE_FORMATS)[number];
+
+/**
+ * Hosts the Next.js image optimizer may fetch source images from.
+ * Images from anywhere else (e.g. an override) are shown as-is.
+ */
+export const OPTIMIZED_IMAGE_HOSTS = ["si.geilicdn.com"];
+
+/* ===========================================
+   HELPERS
+   =========================================== */
+
+/**
+ * Finds the self-hosted asset for one of a product's image URLs.
+ *
+ * @param imageAssets - The product's `imageAssets`
+ * @param src - Source image URL
+ * @returns The matching asset, or null if the image hasn't been processed
+ */
+export function findImageAsset(
+  imageAssets: ImageAsset[],
+  src: string
+): ImageAsset | null {
+  return imageAssets.find((asset) => asset.src === src) ?? null;
+}
+
+/**
+ * URL of one generated variant.
+ *
+ * @param asset - Image asset
+ * @param width - One of asset.widths
+ * @param format - Encoding
+ * @returns Public URL (e.g. "/images/products/3f2a9c1b-640.webp")
+ */
+export function getImageVariantUrl(
+  asset: ImageAsset,
+  width: number,
+  format: ImageFormat
+): string {
+  return `${asset.path}-${width}.${format}`;
+}
+
+/**
+ * Picks the generated variant for a requested width: the smallest one at
+ * least as wide, or the largest there is. For use as a next/image loader,
+ * so srcsets only list files that exist.
+ *
+ * @param asset - Image asset
+ * @param format - Encoding
+ * @returns Loader mapping a requested width to a variant URL
+ */
+export function getImageAssetLoader(
+  asset: ImageAsset,
+  format: ImageFormat
+): (params: { width: number }) => string {
+  return ({ width }) => {
+    const variantWidth =
+      asset.widths.find((candidate) => candidate >= width) ??
+      asset.widths[asset.widths.length - 1];
+    return getImageVariantUrl(asset, variantWidth, format);
+  };
+}
+
+/**
+ * Whether a source image can go through the Next.js image optimizer.
+ *
+ * @param src - Source image URL
+ */
+export function isOptimizableImage(src: string): boolean {
+  try {
+    const url = new URL(src);
+    return url.protocol === "https:" && OPTIMIZED_IMAGE_HOSTS.includes(url.hostname);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Product Index
+ *
+ * Lookup tables over the product catalog, built once so that queries in
+ * lib/products.ts are O(1) instead of a linear scan per request.
+ *
+ * Kept free of data imports so it can be built over any product list
+ * (see scripts/benchmark-lookups.mts).
+ */
+
+import type { Product } from "@/lib/products";
+
+/* ===========================================
+   TYPES
+   =========================================== */
+
+/**
+ * Precomputed lookup tables for a product list.
+ */
+export interface ProductIndex {
+  /** Product ID → product */
+  byId: Map<number, Product>;
+  /** Lowercased slug → product */
+  bySlug: Map<string, Product>;
+  /** Category name → products in original catalog order */
+  byCategory: Map<string, Product[]>;
+  /** Brand name → products in original catalog order */
+  byBrand: Map<string, Product[]>;
+}
+
+/* ===========================================
+   INDEX BUILDING
+   =========================================== */
+
+/**
+ * Appends a product to the bucket for `key`, creating it if needed.
+ */
+function addToBucket(
+  buckets: Map<string, Product[]>,
+  key: string,
+  product: Product
+): void {
+  const bucket = buckets.get(key);
+  if (bucket) {
+    bucket.push(product);
+  } else {
+    buckets.set(key, [product]);
+  }
+}
+
+/**
+ * Builds id, slug, category and brand indexes in a single pass.
+ * If two products share an id or slug, the first one wins, matching the
+ * previous `Array.find()` behavior.
+ *
+ * @param products - The products to index
+ * @returns Lookup tables for the given products
+ */
+export function buildProductIndex(products: Product[]): ProductIndex {
+  const byId = new Map<number, Product>();
+  const bySlug = new Map<string, Product>();
+  const byCategory = new Map<string, Product[]>();
+  const byBrand = new Map<string, Product[]>();
+
+  for (const product of products) {
+    if (!byId.has(product.id)) {
+      byId.set(product.id, product);
+    }
+
+    const slug = product.slug.toLowerCase();
+    if (!bySlug.has(slug)) {
+      bySlug.set(slug, product);
+    }
+
+    if (product.category) {
+      addToBucket(byCategory, product.category, product);
+    }
+
+    if (product.brand) {
+      addToBucket(byBrand, product.brand, product);
+    }
+  }
+
+  return { byId, bySlug, byCategory, byBrand };
+}
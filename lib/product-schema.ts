@@ -0,0 +1,255 @@
+/**
+ * Product Schema
+ *
+ * Runtime checks for the Product shape, shared by lib/products.ts (which
+ * validates data/products.json once at module load, so a malformed catalog
+ * fails loudly instead of rendering broken pages) and the catalog scripts
+ * (`npm run catalog -- build` / `lint`, run through tsx).
+ *
+ * Also home of the one price parser. Sheet prices ("90.00$", "1,090.80$")
+ * are parsed strictly; anything else is reported rather than half-read the
+ * way parseFloat would ("1,090.80$" → 1).
+ *
+ * Its only data import is the category taxonomy (data/taxonomy.json,
+ * through lib/categories.ts), used to check categories and subcategories.
+ * It doesn't load the catalog.
+ */
+
+import { CATEGORY_SOURCES, isCategory, isSubcategoryOf } from "@/lib/categories";
+import type { Product } from "@/lib/products";
+
+/* ===========================================
+   TYPES
+   =========================================== */
+
+/**
+ * One schema violation on a product.
+ */
+export interface SchemaIssue {
+  /** Field at fault, or "product" for the object itself */
+  field: string;
+  message: string;
+}
+
+/**
+ * Checks one field value, returning an error message or null if valid.
+ */
+type FieldCheck = (value: unknown) => string | null;
+
+/* ===========================================
+   PRIMITIVE CHECKS
+   =========================================== */
+
+/**
+ * Sheet price format: optional "$" or "¥" on either side (or a trailing
+ * "元"), optional thousands separators, optional decimals.
+ */
+const PRICE_TEXT_PATTERN = /^\s*[$¥￥]?\s*(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?\s*(?:[$¥￥]|元)?\s*$/;
+
+/**
+ * Parses price text from the sheet into a number.
+ *
+ * Examples:
+ * - "90.00$" → 90
+ * - "1,090.80$" → 1090.8
+ * - "¥640" or "640元" → 640 (yuan-priced sheets)
+ * - "90-120$" → null (ranges aren't a price)
+ *
+ * @param priceText - Raw price string
+ * @returns Price in the sheet's currency (sourceCurrency in
+ *   data/currency-rates.json), or null if the text isn't a single price
+ */
+export function parsePriceText(priceText: string): number | null {
+  const match = PRICE_TEXT_PATTERN.exec(priceText);
+  if (!match) return null;
+
+  return Number(match[1].replace(/,/g, "") + (match[2] ?? ""));
+}
+
+/**
+ * Whether a value is an absolute http(s) URL.
+ */
+export function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== "string") return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a value can be an image src: an http(s) URL or a public/ path.
+ */
+function isImageSrc(value: unknown): value is string {
+  return isHttpUrl(value) || (typeof value === "string" && /^\/\S+$/.test(value));
+}
+
+/**
+ * Whether a value is a string with visible content.
+ */
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+/**
+ * Whether a value is a positive integer (ids, widths, heights).
+ */
+function isPositiveInteger(value: unknown): value is number {
+  return Number.isSafeInteger(value) && (value as number) > 0;
+}
+
+/**
+ * Checks one self-hosted image asset (see lib/images.ts).
+ */
+function isImageAsset(value: unknown): boolean {
+  if (typeof value !== "object" || value === null) return false;
+  const asset = value as Record<string, unknown>;
+
+  return (
+    isImageSrc(asset.src) &&
+    typeof asset.path === "string" &&
+    asset.path.startsWith("/") &&
+    isPositiveInteger(asset.width) &&
+    isPositiveInteger(asset.height) &&
+    Array.isArray(asset.widths) &&
+    asset.widths.length > 0 &&
+    asset.widths.every(isPositiveInteger) &&
+    typeof asset.blurDataURL === "string" &&
+    asset.blurDataURL.startsWith("data:image/")
+  );
+}
+
+/* ===========================================
+   SCHEMA
+   =========================================== */
+
+/**
+ * One check per Product field. Typed over `keyof Product`, so adding a
+ * field to the interface without a check here fails the type-check.
+ */
+const FIELD_CHECKS: { [Field in keyof Product]-?: FieldCheck } = {
+  id: (value) => (isPositiveInteger(value) ? null : "must be a positive integer"),
+  slug: (value) =>
+    typeof value === "string" && /^[a-z0-9_-]+$/.test(value)
+      ? null
+      : "must be a lowercase URL slug",
+  name: (value) => (isNonEmptyString(value) ? null : "is required"),
+  brand: (value) =>
+    value === null || isNonEmptyString(value) ? null : "must be a name or null",
+  price: (value) =>
+    value === null || (typeof value === "number" && Number.isFinite(value) && value >= 0)
+      ? null
+      : "must be a non-negative number or null",
+  priceText: (value) => (typeof value === "string" ? null : "must be a string"),
+  category: (value) =>
+    value === null || isCategory(value)
+      ? null
+      : `must be a category from data/taxonomy.json or null (got ${JSON.stringify(value)})`,
+  categorySource: (value) =>
+    value === null || (CATEGORY_SOURCES as readonly unknown[]).includes(value)
+      ? null
+      : `must be one of ${CATEGORY_SOURCES.join(", ")} or null`,
+  subcategory: (value) =>
+    value === null || isNonEmptyString(value) ? null : "must be a name or null",
+  buyUrl: (value) => (isHttpUrl(value) ? null : "must be an http(s) URL"),
+  imageUrl: (value) =>
+    value === null || isImageSrc(value) ? null : "must be an http(s) URL, a /path or null",
+  images: (value) =>
+    Array.isArray(value) && value.every(isImageSrc)
+      ? null
+      : "must be an array of http(s) URLs or /paths",
+  imageAssets: (value) =>
+    Array.isArray(value) && value.every(isImageAsset)
+      ? null
+      : "must be an array of image assets (see lib/images.ts)",
+};
+
+/**
+ * Checks one product against the schema. Extra fields are allowed (the
+ * catalog build carries pipeline-only fields until it writes).
+ *
+ * @param value - Candidate product
+ * @returns Every violation, empty if the product is valid
+ */
+export function validateProduct(value: unknown): SchemaIssue[] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return [{ field: "product", message: "must be an object" }];
+  }
+
+  const product = value as Record<string, unknown>;
+  const issues: SchemaIssue[] = [];
+
+  for (const [field, checkField] of Object.entries(FIELD_CHECKS)) {
+    const message =
+      field in product ? checkField(product[field]) : "is missing";
+    if (message) {
+      issues.push({ field, message });
+    }
+  }
+
+  // The subcategory has to belong to the product's category
+  if (
+    typeof product.subcategory === "string" &&
+    !(isCategory(product.category) && isSubcategoryOf(product.category, product.subcategory))
+  ) {
+    issues.push({
+      field: "subcategory",
+      message: `"${product.subcategory}" is not a subcategory of ${JSON.stringify(product.category)}`,
+    });
+  }
+
+  // Categorized products say where the category came from, others don't
+  if ((product.category === null) !== (product.categorySource === null)) {
+    issues.push({
+      field: "categorySource",
+      message:
+        product.category === null
+          ? "must be null for uncategorized products"
+          : "is required for categorized products",
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Validates a whole catalog: every product against the schema, plus
+ * unique ids and slugs.
+ *
+ * @param data - Parsed data/products.json
+ * @param source - File name for error messages
+ * @returns The products, typed
+ * @throws Error listing the first problems if anything is invalid
+ */
+export function parseProducts(data: unknown, source = "data/products.json"): Product[] {
+  if (!Array.isArray(data)) {
+    throw new Error(`${source}: expected an array of products`);
+  }
+
+  const problems: string[] = [];
+  const seenIds = new Set<unknown>();
+  const seenSlugs = new Set<unknown>();
+
+  data.forEach((value, index) => {
+    const product = value as Record<string, unknown> | null;
+    const label = `product ${product?.id ?? `#${index}`}`;
+
+    for (const issue of validateProduct(value)) {
+      problems.push(`${label}: ${issue.field} ${issue.message}`);
+    }
+    if (seenIds.has(product?.id)) problems.push(`${label}: duplicate id`);
+    if (seenSlugs.has(product?.slug)) problems.push(`${label}: duplicate slug "${product?.slug}"`);
+    seenIds.add(product?.id);
+    seenSlugs.add(product?.slug);
+  });
+
+  if (problems.length > 0) {
+    const shown = problems.slice(0, 10).join("; ");
+    const more = problems.length > 10 ? ` (and ${problems.length - 10} more)` : "";
+    throw new Error(`${source}: ${shown}${more}`);
+  }
+
+  return data as Product[];
+}
@@ -0,0 +1,290 @@
+/**
+ * Product SEO
+ *
+ * Per-product page metadata (title, description, canonical URL, Open
+ * Graph/Twitter images) and schema.org JSON-LD for the product and
+ * quality check pages:
+ * - /products/[slug]: a Product with an Offer for the seller listing
+ * - /quality/[slug]: a Review of that Product (the latest QC photo set)
+ *
+ * Pure builders over Product and QcReport; the pages render the JSON-LD
+ * with components/JsonLd.tsx.
+ */
+
+import type { Metadata } from "next";
+
+import { SOURCE_CURRENCY, formatPrice } from "@/lib/currency";
+import { findImageAsset, getImageVariantUrl } from "@/lib/images";
+import type { Product } from "@/lib/products";
+import { QC_VERDICT_LABELS, type QcReport } from "@/lib/qc";
+import { getPlatformName } from "@/lib/seller";
+import { SITE_NAME, getAbsoluteUrl } from "@/lib/site";
+import { getProductSlug } from "@/lib/slugs";
+
+/* ===========================================
+   TYPES
+   =========================================== */
+
+/**
+ * A schema.org JSON-LD object.
+ */
+export type JsonLdObject = Record<string, unknown>;
+
+/**
+ * An image for link previews.
+ */
+interface PreviewImage {
+  /** Site path or absolute URL */
+  url: string;
+  /** Pixel size, when known (self-hosted variants only) */
+  width?: number;
+  height?: number;
+  alt: string;
+}
+
+/* ===========================================
+   URLS & IMAGES
+   =========================================== */
+
+/**
+ * Site path of a product's detail page.
+ *
+ * @param product - The product
+ * @returns e.g. "/products/chrome-hearts-cross-hoodie"
+ */
+export function getProductPageUrl(product: Product): string {
+  return `/products/${getProductSlug(product)}`;
+}
+
+/**
+ * Site path of a product's quality check page.
+ *
+ * @param product - The product
+ * @returns e.g. "/quality/chrome-hearts-cross-hoodie"
+ */
+export function getQualityPageUrl(product: Product): string {
+  return `/quality/${getProductSlug(product)}`;
+}
+
+/**
+ * The product's cover image for link previews: the largest self-hosted
+ * WebP variant if one has been generated (faster, and it has a known
+ * size), otherwise the seller's image URL.
+ *
+ * @param product - The product
+ * @returns The image, or null if the product has none
+ */
+function getPreviewImage(product: Product): PreviewImage | null {
+  if (!product.imageUrl) {
+    return null;
+  }
+
+  const asset = findImageAsset(product.imageAssets, product.imageUrl);
+  if (!asset || asset.widths.length === 0) {
+    return { url: product.imageUrl, alt: product.name };
+  }
+
+  const width = asset.widths[asset.widths.length - 1];
+  return {
+    url: getImageVariantUrl(asset, width, "webp"),
+    width,
+    height: Math.round((asset.height / asset.width) * width),
+    alt: product.name,
+  };
+}
+
+/**
+ * Open Graph and Twitter metadata sharing one title, description and image.
+ * Without an image, the site-wide og-image.png from app/layout.tsx is kept.
+ */
+function getPreviewMetadata(
+  url: string,
+  title: string,
+  description: string,
+  image: PreviewImage | null
+): Pick<Metadata, "openGraph" | "twitter"> {
+  return {
+    openGraph: {
+      type: "website",
+      url,
+      siteName: SITE_NAME,
+      title,
+      description,
+      ...(image && { images: [image] }),
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      creator: "@zayfinds",
+      ...(image && { images: [image.url] }),
+    },
+  };
+}
+
+/**
+ * The marketplace a product is sold on, for prose and structured data.
+ *
+ * @param product - The product
+ * @returns e.g. "Weidian", "Taobao", "1688", or null for unrecognized links
+ */
+function getMarketplaceName(product: Product): string | null {
+  const platform = getPlatformName(product.buyUrl);
+  return platform === "SELLER" ? null : platform.charAt(0) + platform.slice(1).toLowerCase();
+}
+
+/* ===========================================
+   PAGE METADATA
+   =========================================== */
+
+/**
+ * Describe a product for search results and link previews, e.g.
+ * "Chrome Hearts Cross Hoodie by Chrome Hearts: $90.00 on Weidian.
+ * A hand-picked tops find on ZAYFINDS."
+ */
+function describeProduct(product: Product): string {
+  const brand = product.brand ? ` by ${product.brand}` : "";
+  const price = product.price !== null ? formatPrice(product.price, SOURCE_CURRENCY) : "price";
+  const marketplace = getMarketplaceName(product) ?? "the seller's site";
+  const category = product.category ? ` ${product.category.toLowerCase()}` : "";
+
+  return `${product.name}${brand}: ${price} on ${marketplace}. A hand-picked${category} find on ${SITE_NAME}.`;
+}
+
+/**
+ * Metadata for a product's detail page.
+ *
+ * @param product - The product
+ */
+export function getProductMetadata(product: Product): Metadata {
+  const url = getProductPageUrl(product);
+  const description = describeProduct(product);
+
+  return {
+    title: product.name,
+    description,
+    alternates: { canonical: url },
+    ...getPreviewMetadata(url, product.name, description, getPreviewImage(product)),
+  };
+}
+
+/**
+ * Metadata for a product's quality check page. Pages without QC photos
+ * yet are kept out of the index.
+ *
+ * @param product - The product
+ * @param report - Its QC report, or null if none has been posted
+ */
+export function getQualityMetadata(product: Product, report: QcReport | null): Metadata {
+  const url = getQualityPageUrl(product);
+  const title = `QC: ${product.name}`;
+  const latest = report?.latest;
+  const description = latest
+    ? `${QC_VERDICT_LABELS[latest.verdict]} quality check of ${product.name}: ${latest.photos.length} photos from the ${latest.batch} batch, ${latest.date}.`
+    : `No QC photos posted yet for ${product.name}.`;
+  const image: PreviewImage | null = latest?.photos.length
+    ? { url: latest.photos[0], alt: `QC photo of ${product.name}` }
+    : getPreviewImage(product);
+
+  return {
+    title,
+    description,
+    alternates: { canonical: url },
+    robots: { index: report !== null, follow: true },
+    ...getPreviewMetadata(url, title, description, image),
+  };
+}
+
+/* ===========================================
+   JSON-LD
+   =========================================== */
+
+/**
+ * schema.org Product for a product, with an Offer for its seller listing
+ * when it has a price. Everything in the catalog is a live listing, so the
+ * offer is InStock; prices are in the catalog's source currency.
+ *
+ * @param product - The product
+ * @returns Product JSON-LD, without @context (see withContext())
+ */
+function getProductSchema(product: Product): JsonLdObject {
+  const images = product.images.length > 0 ? product.images : product.imageUrl ? [product.imageUrl] : [];
+  const marketplace = getMarketplaceName(product);
+
+  return {
+    "@type": "Product",
+    name: product.name,
+    url: getAbsoluteUrl(getProductPageUrl(product)),
+    sku: String(product.id),
+    ...(images.length > 0 && { image: images }),
+    ...(product.brand && { brand: { "@type": "Brand", name: product.brand } }),
+    ...(product.category && {
+      category: product.subcategory ? `${product.category} > ${product.subcategory}` : product.category,
+    }),
+    ...(product.price !== null && {
+      offers: {
+        "@type": "Offer",
+        url: product.buyUrl,
+        price: product.price.toFixed(2),
+        priceCurrency: SOURCE_CURRENCY,
+        availability: "https://schema.org/InStock",
+        ...(marketplace && { seller: { "@type": "Organization", name: marketplace } }),
+      },
+    }),
+  };
+}
+
+/**
+ * Adds the schema.org @context to a top-level JSON-LD object.
+ */
+function withContext(schema: JsonLdObject): JsonLdObject {
+  return { "@context": "https://schema.org", ...schema };
+}
+
+/**
+ * JSON-LD for a product's detail page.
+ *
+ * @param product - The product
+ * @returns schema.org Product
+ */
+export function getProductJsonLd(product: Product): JsonLdObject {
+  return withContext(getProductSchema(product));
+}
+
+/**
+ * JSON-LD for a product's quality check page: the latest QC photo set as a
+ * Review of the product. The GL/RL verdict is a pass/fail rating (1 or 0
+ * out of 1); flaws and notes make up the review body.
+ *
+ * @param product - The product
+ * @param report - Its QC report
+ * @returns schema.org Review
+ */
+export function getQcReviewJsonLd(product: Product, report: QcReport): JsonLdObject {
+  const { latest } = report;
+  const reviewBody = [
+    latest.flaws.length > 0 ? `Flaws: ${latest.flaws.join("; ")}.` : "No flaws spotted.",
+    latest.notes,
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  return withContext({
+    "@type": "Review",
+    name: `${QC_VERDICT_LABELS[latest.verdict]}: ${product.name} (${latest.batch} batch)`,
+    url: getAbsoluteUrl(getQualityPageUrl(product)),
+    datePublished: latest.date,
+    author: { "@type": "Person", name: latest.reviewer },
+    publisher: { "@type": "Organization", name: SITE_NAME },
+    reviewBody,
+    ...(latest.photos.length > 0 && { image: latest.photos }),
+    reviewRating: {
+      "@type": "Rating",
+      name: QC_VERDICT_LABELS[latest.verdict],
+      ratingValue: latest.verdict === "GL" ? 1 : 0,
+      bestRating: 1,
+      worstRating: 0,
+    },
+    itemReviewed: getProductSchema(product),
+  });
+}
@@ -0,0 +1,237 @@
+/**
+ * Product Browser URL State
+ *
+ * Typed schema for the /products query string. Every filter, the sort and
+ * the current page live in the URL so they survive refreshes,
+ * back/forward and shared links.
+ *
+ * Each field declares its query parameter, default and parser. Missing or
+ * malformed values fall back to the default instead of throwing, and
+ * defaults are left out of serialized URLs to keep them short.
+ *
+ * The parameter names match GET /api/products, so a browser URL's query
+ * string can be replayed against the API as-is.
+ *
+ * Data-free (brands are passed in) so client components can build URLs
+ * without bundling the catalog.
+ */
+
+import { isCategory, isSubcategoryOf } from "@/lib/categories";
+import type { ProductSortOption } from "@/lib/products";
+
+/* ===========================================
+   TYPES
+   =========================================== */
+
+/**
+ * Everything the /products browser shows, as stored in the URL.
+ */
+export interface ProductBrowserState {
+  /** Category from NEW_CATEGORIES, or "all" */
+  category: string;
+  /** Subcategory of `category` (see data/taxonomy.json), or null for all of it */
+  subcategory: string | null;
+  /** Brand from getAllBrands(), or null for every brand */
+  brand: string | null;
+  /** Raw search text */
+  search: string;
+  /** Lowest price in SOURCE_CURRENCY, or null for no minimum */
+  minPrice: number | null;
+  /** Highest price in SOURCE_CURRENCY, or null for no maximum */
+  maxPrice: number | null;
+  sort: ProductSortOption;
+  /** Current page of results (1-based) */
+  page: number;
+}
+
+/**
+ * How one state field maps to a query parameter.
+ */
+interface ParamSchema<T> {
+  /** Query parameter name */
+  param: string;
+  /** Value used when the parameter is missing or invalid */
+  defaultValue: T;
+  /** Returns the parsed value, or undefined if `raw` is invalid */
+  parse: (raw: string, brands: ReadonlySet<string>) => T | undefined;
+  serialize: (value: T) => string;
+}
+
+type ProductBrowserSchema = {
+  [K in keyof ProductBrowserState]: ParamSchema<ProductBrowserState[K]>;
+};
+
+/* ===========================================
+   CONSTANTS
+   =========================================== */
+
+/** Products per listing page (also the API's default page size) */
+export const PRODUCTS_PAGE_SIZE = 20;
+
+/** Highest page a URL may ask for (the whole catalog fits well below this) */
+const MAX_PAGE = 500;
+
+const SORT_OPTIONS: readonly ProductSortOption[] = [
+  "default",
+  "price-asc",
+  "price-desc",
+];
+
+/* ===========================================
+   SCHEMA
+   =========================================== */
+
+/**
+ * Parses a non-negative price, rejecting anything that is not a plain number.
+ */
+function parsePrice(raw: string): number | null | undefined {
+  if (!/^\d+(\.\d+)?$/.test(raw)) return undefined;
+  return parseFloat(raw);
+}
+
+/**
+ * Serializes an optional price (null is never written; it is the default).
+ */
+function serializePrice(value: number | null): string {
+  return String(value);
+}
+
+const SCHEMA: ProductBrowserSchema = {
+  category: {
+    param: "category",
+    defaultValue: "all",
+    parse: (raw) => (isCategory(raw) ? raw : undefined),
+    serialize: (value) => value,
+  },
+  subcategory: {
+    param: "subcategory",
+    defaultValue: null,
+    // Checked against the category in parseProductBrowserState()
+    parse: (raw) => raw,
+    serialize: (value) => value ?? "",
+  },
+  brand: {
+    param: "brand",
+    defaultValue: null,
+    parse: (raw, brands) => (brands.has(raw) ? raw : undefined),
+    serialize: (value) => value ?? "",
+  },
+  search: {
+    param: "q",
+    defaultValue: "",
+    parse: (raw) => raw,
+    serialize: (value) => value,
+  },
+  minPrice: {
+    param: "minPrice",
+    defaultValue: null,
+    parse: parsePrice,
+    serialize: serializePrice,
+  },
+  maxPrice: {
+    param: "maxPrice",
+    defaultValue: null,
+    parse: parsePrice,
+    serialize: serializePrice,
+  },
+  sort: {
+    param: "sort",
+    defaultValue: "default",
+    parse: (raw) =>
+      SORT_OPTIONS.includes(raw as ProductSortOption)
+        ? (raw as ProductSortOption)
+        : undefined,
+    serialize: (value) => value,
+  },
+  page: {
+    param: "page",
+    defaultValue: 1,
+    parse: (raw) => {
+      if (!/^\d+$/.test(raw)) return undefined;
+      const page = parseInt(raw, 10);
+      return page >= 1 && page <= MAX_PAGE ? page : undefined;
+    },
+    serialize: (value) => String(value),
+  },
+};
+
+const STATE_KEYS = Object.keys(SCHEMA) as (keyof ProductBrowserState)[];
+
+/* ===========================================
+   PARSING & SERIALIZING
+   =========================================== */
+
+/**
+ * Reads one field from the query string, falling back to its default.
+ */
+function parseField<K extends keyof ProductBrowserState>(
+  params: URLSearchParams,
+  key: K,
+  brands: ReadonlySet<string>
+): ProductBrowserState[K] {
+  const field = SCHEMA[key];
+  const raw = params.get(field.param);
+  if (raw === null) return field.defaultValue;
+
+  return field.parse(raw, brands) ?? field.defaultValue;
+}
+
+/**
+ * Parses the /products query string into browser state.
+ * Never throws: unknown categories, brands or sorts, non-numeric prices and
+ * out-of-range pages all fall back to their defaults, and an inverted price
+ * range or a subcategory outside the category is dropped.
+ *
+ * @param params - The current query string
+ * @param brands - Valid brand names (from getAllBrands())
+ * @returns Fully populated browser state
+ */
+export function parseProductBrowserState(
+  params: URLSearchParams,
+  brands: readonly string[]
+): ProductBrowserState {
+  const brandSet = new Set(brands);
+  const state = Object.fromEntries(
+    STATE_KEYS.map((key) => [key, parseField(params, key, brandSet)])
+  ) as unknown as ProductBrowserState;
+
+  if (
+    state.subcategory !== null &&
+    !isSubcategoryOf(state.category, state.subcategory)
+  ) {
+    state.subcategory = null;
+  }
+
+  if (
+    state.minPrice !== null &&
+    state.maxPrice !== null &&
+    state.minPrice > state.maxPrice
+  ) {
+    state.minPrice = null;
+    state.maxPrice = null;
+  }
+
+  return state;
+}
+
+/**
+ * Builds the /products URL for a browser state.
+ * Fields at their default value are omitted.
+ *
+ * @param state - The state to serialize
+ * @returns Site path, e.g. "/products?category=Shoes&sort=price-asc"
+ */
+export function getProductBrowserUrl(state: ProductBrowserState): string {
+  const params = new URLSearchParams();
+
+  for (const key of STATE_KEYS) {
+    const field = SCHEMA[key] as ParamSchema<ProductBrowserState[typeof key]>;
+    const value = state[key];
+    if (value !== field.defaultValue) {
+      params.set(field.param, field.serialize(value));
+    }
+  }
+
+  const query = params.toString();
+  return query ? `/products?${query}` : "/products";
+}
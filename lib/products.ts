@@ -2,19 +2,42 @@
  * Product Data Layer
  *
  * Single source of truth for all product data in the app.
- * Imports from data/products.json and applies image overrides.
+ * Imports from data/products.json, validates it against the Product schema
+ * (lib/product-schema.ts) and applies image overrides.
  *
  * All product queries should go through this module:
  * - getAllProducts()
  * - getAllCategories()
  * - getProductsByCategory()
+ * - getProductsBySubcategory()
+ * - getAllBrands()
+ * - getProductsByBrand()
  * - searchProducts()
  * - getProductBySlug()
  * - getRelatedProducts()
+ * - queryProducts()
+ * - getPriceHistogram()
+ * - getPriceSummary()
  */
 
 import productsData from "@/data/products.json";
 import imageOverrides from "@/data/image-overrides.json";
+import idRedirects from "@/data/id-redirects.json";
+import { type CategorySource, isCategory, isSubcategoryOf } from "@/lib/categories";
+import { BASE_CURRENCY, SOURCE_CURRENCY, convertPrice } from "@/lib/currency";
+import type { ImageAsset } from "@/lib/images";
+import { buildProductIndex } from "@/lib/product-index";
+import { parseProducts } from "@/lib/product-schema";
+import { slugify } from "@/lib/slugs";
+import { MatchRange, buildSearchIndex, hasSearchTerms, search } from "@/lib/search";
+
+/**
+ * Category and slug helpers live in data-free modules so client components
+ * can use them without bundling products.json; re-exported here so server
+ * code keeps a single import.
+ */
+export { NEW_CATEGORIES, getAllCategories, getSubcategories } from "@/lib/categories";
+export { getProductSlug, slugify } from "@/lib/slugs";
 
 /* ===========================================
    TYPES
@@ -24,107 +47,228 @@ import imageOverrides from "@/data/image-overrides.json";
  * Product interface matching the JSON schema from products.json.
  */
 export interface Product {
-  /** Unique sequential identifier */
+  /**
+   * Unique, stable identifier derived from the platform and item ID in
+   * buyUrl, so it never changes when the sheet is reordered (see
+   * deriveProductId() in scripts/catalog/listing.mjs)
+   */
   id: number;
+  /** Persisted, unique URL slug (kept when the name is edited) */
+  slug: string;
   /** Product display name */
   name: string;
-  /** Numeric price in USD for sorting/filtering, null if unparseable */
+  /** Brand extracted from the name at import, null if no alias matched */
+  brand: string | null;
+  /** Numeric price in SOURCE_CURRENCY for sorting/filtering, null if unparseable */
   price: number | null;
   /** Original price string for display (e.g., "90.00$") */
   priceText: string;
   /** Category name from CSV header, null for uncategorized products */
   category: string | null;
+  /** Which catalog build step assigned `category`, null for uncategorized products */
+  categorySource: CategorySource | null;
+  /** Subcategory within `category` (see data/taxonomy.json), null if none matched */
+  subcategory: string | null;
   /** External URL to the seller's product page */
   buyUrl: string;
-  /** URL to the product image */
+  /** URL to the cover image (images[0] when the gallery has been fetched) */
   imageUrl: string | null;
+  /** Gallery image URLs in listing order, cover first; empty if not fetched */
+  images: string[];
+  /** Self-hosted variants of `images`, by source URL (see lib/images.ts) */
+  imageAssets: ImageAsset[];
+}
+
+/**
+ * Sort options for product listings.
+ */
+export type ProductSortOption = "default" | "price-asc" | "price-desc";
+
+/**
+ * Filters, sorting and pagination for queryProducts().
+ */
+export interface ProductQuery {
+  /**
+   * Only these product IDs, in this order. Old IDs are resolved with
+   * resolveProductId(); unknown IDs are skipped
+   */
+  ids?: number[];
+  /** Category name from NEW_CATEGORIES, or "all" / undefined for every product */
+  category?: string;
+  /** Subcategory of `category` (ignored without a category) */
+  subcategory?: string;
+  /** Brand name from getAllBrands(), or undefined for every brand */
+  brand?: string;
+  /**
+   * Name search, as in searchProducts(): every word must match a word of
+   * the name (prefixes and small typos allowed). Ranks by relevance under
+   * the "default" sort
+   */
+  search?: string;
+  /** Lowest price to include, in SOURCE_CURRENCY (inclusive). Excludes unpriced products */
+  minPrice?: number;
+  /** Highest price to include, in SOURCE_CURRENCY (inclusive). Excludes unpriced products */
+  maxPrice?: number;
+  /** Sort order (default: catalog order) */
+  sort?: ProductSortOption;
+  /** Number of matching products to skip (default: 0) */
+  offset?: number;
+  /** Maximum number of products to return (default: all) */
+  limit?: number;
+}
+
+/**
+ * Result of queryProducts(): one page of products plus the total match count.
+ */
+export interface ProductQueryResult {
+  /** Products on the requested page */
+  products: Product[];
+  /** Number of products matching the filters, before pagination */
+  total: number;
+  /** Matched name ranges by product ID (empty when not searching) */
+  highlights: Record<number, MatchRange[]>;
+  /** Price distribution of the matches, before the price range is applied */
+  priceHistogram: PriceHistogram;
+}
+
+/**
+ * One bar of a price histogram.
+ */
+export interface PriceBucket {
+  /** Lower bound in SOURCE_CURRENCY (inclusive) */
+  min: number;
+  /**
+   * Upper bound in SOURCE_CURRENCY (exclusive), null for the open-ended
+   * last bucket.
+   * Price filters are inclusive, so PriceRangeFilter selects a bucket as
+   * min to max minus a cent.
+   */
+  max: number | null;
+  /** Number of products in the bucket */
+  count: number;
+}
+
+/**
+ * Price distribution over a product list.
+ */
+export interface PriceHistogram {
+  buckets: PriceBucket[];
+  /** Products with a null price (not counted in any bucket) */
+  unpricedCount: number;
+}
+
+/**
+ * Lowest, median and highest price over a product list.
+ */
+export interface PriceSummary {
+  /** Lowest price in SOURCE_CURRENCY */
+  min: number;
+  /** Median price in SOURCE_CURRENCY (mean of the middle two for an even count) */
+  median: number;
+  /** Highest price in SOURCE_CURRENCY */
+  max: number;
+  /** Products with a price (unpriced products are left out) */
+  pricedCount: number;
 }
 
 /**
- * Image overrides type - maps product ID to image URL.
+ * Image overrides type - maps product ID to a cover image URL or to a
+ * full, ordered gallery.
  */
-type ImageOverrides = Record<string, string | null>;
+type ImageOverrides = Record<string, string | string[] | null>;
 
 /**
  * Apply image overrides to products.
- * If an override exists for a product ID and is not null, use it.
+ * A string replaces the cover (moved to the front of the gallery);
+ * a non-empty array replaces the whole gallery. null is ignored.
  */
 function applyImageOverrides(
   rawProducts: Product[],
   overrides: ImageOverrides
 ): Product[] {
   return rawProducts.map((product) => {
-    const overrideUrl = overrides[String(product.id)];
-    if (overrideUrl) {
-      return { ...product, imageUrl: overrideUrl };
+    const override = overrides[String(product.id)];
+    if (Array.isArray(override) && override.length > 0) {
+      return { ...product, imageUrl: override[0], images: override };
+    }
+    if (typeof override === "string" && override) {
+      return {
+        ...product,
+        imageUrl: override,
+        images: [override, ...product.images.filter((url) => url !== override)],
+      };
     }
     return product;
   });
 }
 
+/**
+ * Old product ID -> current ID, from data/id-redirects.json.
+ * Keys starting with "_" are comments.
+ */
+type IdRedirects = Record<string, number | string>;
+
 /**
  * Load and process products with image overrides applied.
+ * parseProducts() throws on a malformed catalog, failing the build.
  */
 const products: Product[] = applyImageOverrides(
-  productsData as Product[],
+  parseProducts(productsData),
   imageOverrides as ImageOverrides
 );
 
-/* ===========================================
-   SLUG UTILITIES
-   =========================================== */
+/**
+ * Id, slug, category and brand lookup tables, built once at module load.
+ * All single-product and per-category queries go through these.
+ */
+const productIndex = buildProductIndex(products);
 
 /**
- * Converts a product name to a URL-safe slug.
- *
- * Examples:
- * - "Vetements Silk Road Tee" → "vetements-silk-road-tee"
- * - "Yeezy 350 V2 (High Quality)" → "yeezy-350-v2-high-quality"
- *
- * @param name - The product name to convert
- * @returns URL-safe lowercase slug
+ * Tokenized product names for searchProducts()/queryProducts(),
+ * built once at module load.
  */
-export function slugify(name: string): string {
-  return name
-    .toLowerCase()
-    .trim()
-    .replace(/[^\w\s-]/g, "") // Remove special characters except spaces and hyphens
-    .replace(/\s+/g, "-") // Replace spaces with hyphens
-    .replace(/-+/g, "-") // Replace multiple hyphens with single hyphen
-    .replace(/^-|-$/g, ""); // Remove leading/trailing hyphens
-}
+const searchIndex = buildSearchIndex(products);
 
 /**
- * Gets the slug for a product.
- * Derives slug from the product name.
- *
- * @param product - The product to get slug for
- * @returns URL-safe slug string
+ * Every brand with a product, sorted by name, built once at module load.
  */
-export function getProductSlug(product: Product): string {
-  return slugify(product.name);
+const sortedBrands = [...productIndex.byBrand.keys()].sort((a, b) =>
+  a.localeCompare(b, "en", { sensitivity: "base" })
+);
+
+/**
+ * Brand slug → brand name for getBrandBySlug(). If two brands share a
+ * slug, the first in sorted order wins.
+ */
+const brandsBySlug = new Map<string, string>();
+for (const brand of sortedBrands) {
+  const slug = getBrandSlug(brand);
+  if (!brandsBySlug.has(slug)) {
+    brandsBySlug.set(slug, brand);
+  }
 }
 
 /* ===========================================
-   CATEGORY CONSTANTS
+   PRICE CONSTANTS
    =========================================== */
 
 /**
- * The 8 new categories for zayfinds.
- * This is the single source of truth for all category operations.
- * Must match the categories defined in scripts/csv-to-products.mjs
+ * Histogram bucket boundaries in the base currency (USD).
+ * Budget-style steps rather than equal widths: most finds are under $100,
+ * so equal-width buckets over the full range would put nearly everything
+ * in the first bar.
  */
-export const NEW_CATEGORIES = [
-  'Tops',
-  'Shorts',
-  'Pants',
-  'Shoes',
-  'Outerwear',
-  'Accessories',
-  'Room decor',
-  'Electronics',
-  'Vehicle Modifications',
-] as const;
+const BASE_PRICE_BUCKET_EDGES = [0, 25, 50, 75, 100, 150, 200, 300];
+
+/**
+ * Bucket boundaries for the price histogram, in SOURCE_CURRENCY: the base
+ * steps converted and rounded to two significant digits (e.g. ¥180, ¥360
+ * for a CNY catalog), so the bars stay budget-sized whatever the catalog
+ * is priced in.
+ */
+export const PRICE_BUCKET_EDGES: readonly number[] = BASE_PRICE_BUCKET_EDGES.map((edge) =>
+  Number(convertPrice(edge, BASE_CURRENCY, SOURCE_CURRENCY).toPrecision(2))
+);
 
 /* ===========================================
    DATA ACCESS FUNCTIONS
@@ -140,68 +284,301 @@ export function getAllProducts(): Product[] {
 }
 
 /**
- * Returns the list of all valid categories.
- * Uses the NEW_CATEGORIES constant as the single source of truth.
+ * Gets products filtered by category.
+ * Only accepts categories from NEW_CATEGORIES.
  *
- * @returns Array of category names (the 8 new categories)
+ * @param category - The category name to filter by (must be one of NEW_CATEGORIES)
+ * @returns New array of products in that category (safe to sort or modify)
  */
-export function getAllCategories(): string[] {
-  return [...NEW_CATEGORIES];
+export function getProductsByCategory(category: string): Product[] {
+  // Only return products if category is in the valid list
+  if (!isCategory(category)) {
+    return [];
+  }
+
+  return [...(productIndex.byCategory.get(category) ?? [])];
 }
 
 /**
- * Gets products filtered by category.
- * Only accepts categories from NEW_CATEGORIES.
+ * Gets products filtered by subcategory.
  *
- * @param category - The category name to filter by (must be one of NEW_CATEGORIES)
- * @returns Array of products in that category
+ * @param category - Category name
+ * @param subcategory - One of the category's subcategories (see data/taxonomy.json)
+ * @returns Array of products in that subcategory, empty for unknown names
  */
-export function getProductsByCategory(category: string): Product[] {
-  // Only filter if category is in the valid list
-  const validCategories = [...NEW_CATEGORIES] as readonly string[];
-  if (!validCategories.includes(category)) {
+export function getProductsBySubcategory(category: string, subcategory: string): Product[] {
+  if (!isSubcategoryOf(category, subcategory)) {
     return [];
   }
-  
-  return products.filter((product) => product.category === category);
+
+  return getProductsByCategory(category).filter(
+    (product) => product.subcategory === subcategory
+  );
 }
 
 /**
- * Searches products by name (case-insensitive).
+ * Returns every brand that has at least one product, sorted by name.
+ *
+ * @returns Array of brand display names
+ */
+export function getAllBrands(): string[] {
+  return [...sortedBrands];
+}
+
+/**
+ * Gets products by brand.
+ *
+ * @param brand - The brand display name (as returned by getAllBrands())
+ * @returns New array of products from that brand (safe to sort or modify)
+ */
+export function getProductsByBrand(brand: string): Product[] {
+  return [...(productIndex.byBrand.get(brand) ?? [])];
+}
+
+/**
+ * Gets the URL slug for a brand (e.g. "Chrome Hearts" → "chrome-hearts").
+ *
+ * @param brand - The brand display name
+ * @returns URL-safe slug for /brands/[brand]
+ */
+export function getBrandSlug(brand: string): string {
+  return slugify(brand);
+}
+
+/**
+ * Looks up a brand by its URL slug.
+ *
+ * @param slug - The brand slug from the URL
+ * @returns The brand display name, or undefined if not found
+ */
+export function getBrandBySlug(slug: string): string | undefined {
+  return brandsBySlug.get(slug.toLowerCase());
+}
+
+/**
+ * Searches products by name.
+ * Every word of the query must match a word of the name, allowing
+ * prefixes and small typos. Results are ranked by relevance.
  *
  * @param query - Search query string
- * @returns Array of matching products
+ * @returns Array of matching products, most relevant first
  */
 export function searchProducts(query: string): Product[] {
-  const normalizedQuery = query.toLowerCase().trim();
-  if (!normalizedQuery) return products;
+  if (!hasSearchTerms(query)) return products;
 
-  return products.filter((product) =>
-    product.name.toLowerCase().includes(normalizedQuery)
-  );
+  return search(searchIndex, query).map((hit) => hit.product);
+}
+
+/**
+ * Counts products per price bucket (see PRICE_BUCKET_EDGES).
+ *
+ * @param productList - The products to count
+ * @returns Bucket counts plus the number of unpriced products
+ */
+export function getPriceHistogram(productList: Product[]): PriceHistogram {
+  const buckets: PriceBucket[] = PRICE_BUCKET_EDGES.map((min, i) => ({
+    min,
+    max: PRICE_BUCKET_EDGES[i + 1] ?? null,
+    count: 0,
+  }));
+  let unpricedCount = 0;
+
+  for (const product of productList) {
+    if (product.price === null) {
+      unpricedCount++;
+      continue;
+    }
+
+    // Last bucket whose lower bound is at or below the price
+    let index = buckets.length - 1;
+    while (index > 0 && product.price < buckets[index].min) {
+      index--;
+    }
+    buckets[index].count++;
+  }
+
+  return { buckets, unpricedCount };
+}
+
+/**
+ * Summarizes the prices of a product list.
+ *
+ * @param productList - The products to summarize
+ * @returns The price summary, or null if none of them has a price
+ */
+export function getPriceSummary(productList: Product[]): PriceSummary | null {
+  const prices = productList
+    .map((product) => product.price)
+    .filter((price): price is number => price !== null)
+    .sort((a, b) => a - b);
+  if (prices.length === 0) {
+    return null;
+  }
+
+  const middle = Math.floor(prices.length / 2);
+  return {
+    min: prices[0],
+    median: prices.length % 2 === 1 ? prices[middle] : (prices[middle - 1] + prices[middle]) / 2,
+    max: prices[prices.length - 1],
+    pricedCount: prices.length,
+  };
+}
+
+/**
+ * Compares two prices for sorting, always putting unpriced products last.
+ */
+function comparePrices(
+  a: number | null,
+  b: number | null,
+  direction: 1 | -1
+): number {
+  if (a === null || b === null) {
+    return (a === null ? 1 : 0) - (b === null ? 1 : 0);
+  }
+  return (a - b) * direction;
+}
+
+/**
+ * Filters, sorts and paginates products.
+ * Used by both the /products page and /api/products:
+ * ID, category and brand filters, then name search, then price range,
+ * then sort.
+ *
+ * With a search query, the "default" sort ranks by relevance. Unpriced
+ * products are dropped when a price range is set and sort last in price
+ * sorts.
+ *
+ * @param query - Filters, sort order and pagination window
+ * @returns The requested page of products, the total match count and
+ *   highlight ranges for the matched names
+ */
+export function queryProducts(query: ProductQuery = {}): ProductQueryResult {
+  const {
+    ids,
+    category,
+    subcategory,
+    brand,
+    search: searchQuery = "",
+    minPrice,
+    maxPrice,
+    sort = "default",
+    offset = 0,
+    limit,
+  } = query;
+  const highlights: Record<number, MatchRange[]> = {};
+
+  const hasCategory = Boolean(category && category !== "all");
+  const hasSubcategory = hasCategory && Boolean(subcategory);
+  let result = hasSubcategory
+    ? getProductsBySubcategory(category!, subcategory!)
+    : hasCategory
+      ? getProductsByCategory(category!)
+      : getAllProducts();
+  const currentIds = ids && [...new Set(ids.map(resolveProductId))];
+
+  if (currentIds) {
+    result = currentIds
+      .map((id) => productIndex.byId.get(id))
+      .filter(
+        (product): product is Product =>
+          product !== undefined &&
+          (!hasCategory || product.category === category) &&
+          (!hasSubcategory || product.subcategory === subcategory)
+      );
+  }
+
+  if (brand) {
+    result = result.filter((product) => product.brand === brand);
+  }
+
+  if (hasSearchTerms(searchQuery)) {
+    let hits = search(searchIndex, searchQuery);
+    if (hasCategory) {
+      hits = hits.filter((hit) => hit.product.category === category);
+    }
+    if (hasSubcategory) {
+      hits = hits.filter((hit) => hit.product.subcategory === subcategory);
+    }
+    if (brand) {
+      hits = hits.filter((hit) => hit.product.brand === brand);
+    }
+    if (currentIds) {
+      const idSet = new Set(currentIds);
+      hits = hits.filter((hit) => idSet.has(hit.product.id));
+    }
+
+    result = hits.map((hit) => hit.product);
+    for (const hit of hits) {
+      highlights[hit.product.id] = hit.matches;
+    }
+  }
+
+  // Histogram before the range filter, so the bars show what the range cuts
+  const priceHistogram = getPriceHistogram(result);
+
+  if (minPrice !== undefined || maxPrice !== undefined) {
+    result = result.filter(
+      (product) =>
+        product.price !== null &&
+        (minPrice === undefined || product.price >= minPrice) &&
+        (maxPrice === undefined || product.price <= maxPrice)
+    );
+  }
+
+  if (sort === "price-asc") {
+    result = [...result].sort((a, b) => comparePrices(a.price, b.price, 1));
+  } else if (sort === "price-desc") {
+    result = [...result].sort((a, b) => comparePrices(a.price, b.price, -1));
+  }
+
+  const end = limit !== undefined ? offset + limit : undefined;
+  const page = result.slice(offset, end);
+
+  return {
+    products: page,
+    total: result.length,
+    highlights: Object.fromEntries(
+      page
+        .filter((product) => highlights[product.id])
+        .map((product) => [product.id, highlights[product.id]])
+    ),
+    priceHistogram,
+  };
 }
 
 /**
  * Looks up a single product by its slug.
- * Matches against derived slug from product name.
+ * Matches against the persisted product slug.
  *
  * @param slug - The URL slug to search for
  * @returns The matching product, or undefined if not found
  */
 export function getProductBySlug(slug: string): Product | undefined {
-  const normalizedSlug = slug.toLowerCase();
+  return productIndex.bySlug.get(slug.toLowerCase());
+}
+
+/**
+ * Maps an ID from before the switch to stable IDs (still in old saved
+ * lists and shared links) to the product's current ID.
+ *
+ * @param id - A current or old product ID
+ * @returns The current ID, or `id` unchanged if it isn't an old ID
+ */
+export function resolveProductId(id: number): number {
+  if (productIndex.byId.has(id)) return id;
 
-  return products.find((product) => slugify(product.name) === normalizedSlug);
+  const target = (idRedirects as IdRedirects)[String(id)];
+  return typeof target === "number" ? target : id;
 }
 
 /**
- * Looks up a single product by its ID.
+ * Looks up a single product by its ID (old IDs are resolved too).
  *
  * @param id - The product ID to search for
  * @returns The matching product, or undefined if not found
  */
 export function getProductById(id: number): Product | undefined {
-  return products.find((product) => product.id === id);
+  return productIndex.byId.get(resolveProductId(id));
 }
 
 /**
@@ -218,8 +595,11 @@ export function getRelatedProducts(
   limit: number = 4
 ): Product[] {
   // Get products in the same category (excluding current product)
-  const sameCategoryProducts = products.filter(
-    (p) => p.category === product.category && p.id !== product.id
+  const categoryProducts = product.category
+    ? productIndex.byCategory.get(product.category) ?? []
+    : products.filter((p) => p.category === null);
+  const sameCategoryProducts = categoryProducts.filter(
+    (p) => p.id !== product.id
   );
 
   // If we have enough same-category products, return those
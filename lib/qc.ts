@@ -0,0 +1,217 @@
+/**
+ * Quality Check Reports
+ *
+ * QC photo sets from data/qc-reports.json, keyed by product ID. Each
+ * product can have several sets (one per batch or purchase), each with
+ * its own photos, measurements, flaws and a GL/RL verdict.
+ *
+ * The file is edited by hand, so it is validated once at module load and
+ * a malformed entry fails loudly with the product ID and field at fault.
+ * Keys starting with "_" (comments, the example) are ignored.
+ */
+
+import qcData from "@/data/qc-reports.json";
+
+/* ===========================================
+   TYPES
+   =========================================== */
+
+/**
+ * QC verdict: GL (green light, ship it) or RL (red light, return/exchange).
+ */
+export type QcVerdict = "GL" | "RL";
+
+/**
+ * One measurement taken from the QC photos.
+ */
+export interface QcMeasurement {
+  /** What was measured (e.g. "Pit to pit") */
+  label: string;
+  /** Measured value with unit (e.g. "58 cm") */
+  value: string;
+  /** Value from the seller's size chart, null if not compared */
+  expected: string | null;
+}
+
+/**
+ * One set of QC photos for a product, from a single batch or purchase.
+ */
+export interface QcPhotoSet {
+  /** Date the photos were taken (YYYY-MM-DD) */
+  date: string;
+  /** Batch or factory name (e.g. "LJR") */
+  batch: string;
+  verdict: QcVerdict;
+  /** Who reviewed the photos */
+  reviewer: string;
+  /** QC photo URLs, in display order */
+  photos: string[];
+  measurements: QcMeasurement[];
+  /** Flaws spotted in the photos, empty if none */
+  flaws: string[];
+  /** Reviewer notes, null if none */
+  notes: string | null;
+}
+
+/**
+ * All QC sets for one product.
+ */
+export interface QcReport {
+  productId: number;
+  /** Photo sets, newest first */
+  sets: QcPhotoSet[];
+  /** Newest photo set (sets[0]) */
+  latest: QcPhotoSet;
+}
+
+/* ===========================================
+   VALIDATION
+   =========================================== */
+
+/**
+ * Display labels for each verdict.
+ */
+export const QC_VERDICT_LABELS: Record<QcVerdict, string> = {
+  GL: "Green light",
+  RL: "Red light",
+};
+
+/**
+ * Checks a condition while validating, naming the product and field on failure.
+ */
+function check(condition: boolean, productId: string, message: string): void {
+  if (!condition) {
+    throw new Error(`data/qc-reports.json: product ${productId}: ${message}`);
+  }
+}
+
+/**
+ * Whether a value is an array of strings.
+ */
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+/**
+ * Validates one photo set from the JSON file.
+ *
+ * @param productId - Key the set was listed under (for error messages)
+ * @param value - Raw set from the JSON file
+ * @returns Typed photo set
+ * @throws Error naming the product and field if the set is malformed
+ */
+function parsePhotoSet(productId: string, value: unknown): QcPhotoSet {
+  check(typeof value === "object" && value !== null, productId, "set must be an object");
+  const set = value as Record<string, unknown>;
+
+  check(
+    typeof set.date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(set.date),
+    productId,
+    "date must be YYYY-MM-DD"
+  );
+  check(typeof set.batch === "string" && set.batch !== "", productId, "batch is required");
+  check(set.verdict === "GL" || set.verdict === "RL", productId, 'verdict must be "GL" or "RL"');
+  check(typeof set.reviewer === "string" && set.reviewer !== "", productId, "reviewer is required");
+  check(isStringArray(set.photos), productId, "photos must be an array of URLs");
+  check(isStringArray(set.flaws), productId, "flaws must be an array of strings");
+  check(
+    set.notes === undefined || set.notes === null || typeof set.notes === "string",
+    productId,
+    "notes must be a string or null"
+  );
+  check(Array.isArray(set.measurements), productId, "measurements must be an array");
+
+  const measurements = (set.measurements as unknown[]).map((item) => {
+    const measurement = item as Record<string, unknown> | null;
+    check(
+      typeof measurement?.label === "string" && typeof measurement.value === "string",
+      productId,
+      "each measurement needs a label and a value"
+    );
+    check(
+      measurement!.expected === undefined ||
+        measurement!.expected === null ||
+        typeof measurement!.expected === "string",
+      productId,
+      "measurement expected must be a string"
+    );
+    return {
+      label: measurement!.label as string,
+      value: measurement!.value as string,
+      expected: (measurement!.expected as string | null | undefined) ?? null,
+    };
+  });
+
+  return {
+    date: set.date as string,
+    batch: set.batch as string,
+    verdict: set.verdict as QcVerdict,
+    reviewer: set.reviewer as string,
+    photos: set.photos as string[],
+    measurements,
+    flaws: set.flaws as string[],
+    notes: (set.notes as string | null | undefined) || null,
+  };
+}
+
+/**
+ * Validates the whole QC file and builds the per-product lookup.
+ *
+ * @param data - Parsed data/qc-reports.json
+ * @returns Reports by product ID
+ */
+function loadQcReports(data: Record<string, unknown>): Map<number, QcReport> {
+  const reports = new Map<number, QcReport>();
+
+  for (const [key, value] of Object.entries(data)) {
+    if (key.startsWith("_")) continue;
+
+    check(/^\d+$/.test(key), key, "key must be a product ID");
+    check(Array.isArray(value) && value.length > 0, key, "expected a non-empty array of sets");
+
+    const sets = (value as unknown[])
+      .map((set) => parsePhotoSet(key, set))
+      .sort((a, b) => b.date.localeCompare(a.date));
+
+    const productId = parseInt(key, 10);
+    reports.set(productId, { productId, sets, latest: sets[0] });
+  }
+
+  return reports;
+}
+
+/**
+ * QC reports by product ID, validated once at module load.
+ */
+const qcReports = loadQcReports(qcData);
+
+/* ===========================================
+   DATA ACCESS FUNCTIONS
+   =========================================== */
+
+/**
+ * Gets the QC report for a product.
+ *
+ * @param productId - Product ID
+ * @returns The product's QC sets, or null if none have been posted
+ */
+export function getQcReport(productId: number): QcReport | null {
+  return qcReports.get(productId) ?? null;
+}
+
+/**
+ * Formats a QC date for display.
+ *
+ * @param date - YYYY-MM-DD
+ * @returns e.g. "JAN 15, 2026"
+ */
+export function formatQcDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`)
+    .toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      timeZone: "UTC",
+    })
+    .toUpperCase();
+}
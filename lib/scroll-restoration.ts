@@ -0,0 +1,156 @@
+"use client";
+
+/**
+ * Scroll Restoration
+ *
+ * Remembers the scroll position of long client-rendered listings so
+ * back/forward lands where the user left off.
+ *
+ * The browser's own restoration runs before client components render, when
+ * the page is still a short loading state, so it lands at the top. Instead
+ * positions are saved per URL in sessionStorage and re-applied after the
+ * listing mounts, but only when the visit is a history traversal (or a
+ * reload) — following a fresh link still starts at the top.
+ *
+ * A position only means something with the same content above it, so
+ * listings that grow as you scroll (infinite scroll) save how many pages
+ * they had loaded alongside it, and load them again before it is applied.
+ */
+
+import { useEffect, useRef, useState } from "react";
+
+/** sessionStorage key prefix for saved positions */
+const STORAGE_PREFIX = "zayfinds:scroll:";
+
+/**
+ * Saved position for one URL.
+ */
+interface SavedScroll {
+  /** window.scrollY when saved */
+  top: number;
+  /** Pages the listing had loaded when saved */
+  loadedPages: number;
+}
+
+/**
+ * Options for listings that load more pages as you scroll.
+ */
+export interface ScrollRestorationOptions {
+  /** Pages currently loaded */
+  loadedPages: number;
+  /**
+   * Loads pages until `loadedPages` reaches the given count.
+   * Resolves once done (or given up), before the position is applied.
+   */
+  loadPages: (loadedPages: number) => Promise<void>;
+}
+
+/**
+ * Set by popstate, consumed by the next mount. Covers client-side
+ * back/forward, which the Navigation Timing API reports as "navigate".
+ */
+let pendingHistoryTraversal = false;
+
+/** Whether the initial document navigation has been checked yet */
+let checkedInitialNavigation = false;
+
+if (typeof window !== "undefined") {
+  window.addEventListener("popstate", () => {
+    pendingHistoryTraversal = true;
+  });
+}
+
+/**
+ * Whether the current mount is the result of back/forward or a reload.
+ */
+function isHistoryTraversal(): boolean {
+  if (pendingHistoryTraversal) {
+    pendingHistoryTraversal = false;
+    return true;
+  }
+
+  if (!checkedInitialNavigation) {
+    checkedInitialNavigation = true;
+    const [entry] = performance.getEntriesByType(
+      "navigation"
+    ) as PerformanceNavigationTiming[];
+    return entry?.type === "back_forward" || entry?.type === "reload";
+  }
+
+  return false;
+}
+
+/**
+ * Reads the saved position for the current URL, or null when none.
+ */
+function readSavedScroll(storageKey: string): SavedScroll | null {
+  try {
+    const saved = JSON.parse(sessionStorage.getItem(storageKey) ?? "null");
+    return saved && saved.top > 0 ? saved : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Saves the scroll position for the current URL while mounted and
+ * restores it on back/forward.
+ *
+ * Call from the component that renders the scrollable content, after the
+ * state that determines its height is known (e.g. parsed from the URL).
+ *
+ * @param options - For infinite scroll: pages loaded, and how to load more
+ */
+export function useScrollRestoration(options?: ScrollRestorationOptions): void {
+  const loadedPages = options?.loadedPages ?? 1;
+  const loadedPagesRef = useRef(loadedPages);
+  const loadPagesRef = useRef(options?.loadPages);
+  const [pendingTop, setPendingTop] = useState<number | null>(null);
+
+  useEffect(() => {
+    loadedPagesRef.current = loadedPages;
+    loadPagesRef.current = options?.loadPages;
+  });
+
+  useEffect(() => {
+    const storageKey = () =>
+      `${STORAGE_PREFIX}${window.location.pathname}${window.location.search}`;
+
+    if (isHistoryTraversal()) {
+      const saved = readSavedScroll(storageKey());
+      const loadPages = loadPagesRef.current;
+
+      if (saved && loadPages && saved.loadedPages > loadedPagesRef.current) {
+        // Apply after the render that shows the reloaded pages
+        loadPages(saved.loadedPages).then(() => setPendingTop(saved.top));
+      } else if (saved) {
+        window.scrollTo({ top: saved.top, behavior: "instant" });
+      }
+    }
+
+    // Save at most once per frame while scrolling
+    let frame = 0;
+    const handleScroll = () => {
+      if (frame) return;
+      frame = requestAnimationFrame(() => {
+        frame = 0;
+        const saved: SavedScroll = {
+          top: Math.round(window.scrollY),
+          loadedPages: loadedPagesRef.current,
+        };
+        sessionStorage.setItem(storageKey(), JSON.stringify(saved));
+      });
+    };
+
+    window.addEventListener("scroll", handleScroll, { passive: true });
+    return () => {
+      window.removeEventListener("scroll", handleScroll);
+      cancelAnimationFrame(frame);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (pendingTop === null) return;
+    window.scrollTo({ top: pendingTop, behavior: "instant" });
+  }, [pendingTop]);
+}
@@ -0,0 +1,377 @@
+/**
+ * Product Search
+ *
+ * Tokenized, typo-tolerant search over product names.
+ *
+ * - The query is split into tokens and every token must match (AND).
+ * - A query token matches a name token exactly, as a prefix, as a substring,
+ *   or within a small edit distance ("balenciga" → "Balenciaga").
+ * - Hits are ranked by match quality, with bonuses for matching the brand
+ *   (first word), matching in order, and matching the whole phrase.
+ * - Each hit carries the character ranges of the name that matched, so the
+ *   UI can highlight them.
+ *
+ * Kept free of data imports; lib/products.ts builds the index once.
+ */
+
+import type { Product } from "@/lib/products";
+
+/* ===========================================
+   TYPES
+   =========================================== */
+
+/**
+ * A half-open character range [start, end) in a product name.
+ */
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * A product that matched a search, with its relevance score.
+ */
+export interface SearchHit {
+  product: Product;
+  /** Higher is more relevant */
+  score: number;
+  /** Matched ranges in product.name, sorted and non-overlapping */
+  matches: MatchRange[];
+}
+
+/**
+ * A single word of a product name.
+ */
+interface NameToken {
+  /** Normalized (lowercase, accent-free) text */
+  text: string;
+  /** Offset of the token in the original name */
+  start: number;
+  end: number;
+  /**
+   * Original range of the character each character of `text` came from.
+   * Normalizing can change the length ("ﬁ" → "fi", "½" → "1⁄2"), so
+   * offsets within `text` don't carry over to the name as they are
+   */
+  sources: MatchRange[];
+}
+
+/**
+ * A product prepared for searching.
+ */
+interface SearchEntry {
+  product: Product;
+  tokens: NameToken[];
+  /** Normalized tokens joined by single spaces, for phrase matching */
+  normalizedName: string;
+}
+
+/**
+ * Prebuilt search data for a product list.
+ */
+export interface SearchIndex {
+  entries: SearchEntry[];
+}
+
+/* ===========================================
+   SCORING CONSTANTS
+   =========================================== */
+
+const SCORE_EXACT = 1;
+const SCORE_PREFIX = 0.8;
+const SCORE_FUZZY = 0.6;
+const SCORE_FUZZY_PREFIX = 0.5;
+const SCORE_SUBSTRING = 0.4;
+
+const BONUS_BRAND = 0.5; // First query token matches the first word of the name
+const BONUS_IN_ORDER = 0.25; // Query tokens match name tokens left to right
+const BONUS_PHRASE = 1; // Whole normalized query appears in the name
+
+/** Minimum query token length for substring matches ("ring" in "earring") */
+const MIN_SUBSTRING_LENGTH = 3;
+
+/* ===========================================
+   TEXT UTILITIES
+   =========================================== */
+
+/**
+ * Lowercases text and strips accents so "Café" matches "cafe".
+ */
+function normalize(text: string): string {
+  return text.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+/**
+ * Splits text into word tokens, keeping their offsets in the original text.
+ * Each character is normalized on its own so every normalized character
+ * can be traced back to the original one.
+ */
+function tokenize(text: string): NameToken[] {
+  const tokens: NameToken[] = [];
+
+  for (const match of text.matchAll(/[\p{L}\p{N}\p{M}]+/gu)) {
+    const start = match.index ?? 0;
+    let normalized = "";
+    const sources: MatchRange[] = [];
+    let offset = start;
+
+    for (const char of match[0]) {
+      const piece = normalize(char);
+      const source = { start: offset, end: offset + char.length };
+      for (let i = 0; i < piece.length; i++) sources.push(source);
+      normalized += piece;
+      offset += char.length;
+    }
+
+    // A run of accents alone normalizes to nothing
+    if (normalized) {
+      tokens.push({ text: normalized, start, end: offset, sources });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Maps a range of a token's normalized text back to the original name.
+ *
+ * @param token - Name token
+ * @param from - Start offset in token.text
+ * @param to - End offset in token.text (exclusive, greater than from)
+ */
+function toNameRange(token: NameToken, from: number, to: number): MatchRange {
+  return { start: token.sources[from].start, end: token.sources[to - 1].end };
+}
+
+/**
+ * Number of typos tolerated for a query token of the given length.
+ * Short tokens must match exactly, otherwise "tee" would match "tie".
+ */
+function maxEditsFor(length: number): number {
+  if (length <= 3) return 0;
+  if (length <= 7) return 1;
+  return 2;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent swaps),
+ * giving up early once the distance is known to exceed `max`.
+ *
+ * @returns The edit distance, or max + 1 if it exceeds max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        prev[j] + 1, // deletion
+        current[j - 1] + 1, // insertion
+        prev[j - 1] + cost // substitution
+      );
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1); // transposition
+      }
+
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) return max + 1;
+
+    prevPrev = prev;
+    prev = current;
+  }
+
+  return prev[b.length];
+}
+
+/* ===========================================
+   MATCHING
+   =========================================== */
+
+/**
+ * Best match of one query token against one name token.
+ */
+interface TokenMatch {
+  score: number;
+  range: MatchRange;
+}
+
+/**
+ * Scores a query token against a name token.
+ *
+ * @returns The match, or null if the tokens don't match
+ */
+function matchToken(query: string, token: NameToken): TokenMatch | null {
+  const whole = { start: token.start, end: token.end };
+  const text = token.text;
+
+  if (text === query) {
+    return { score: SCORE_EXACT, range: whole };
+  }
+
+  if (text.startsWith(query)) {
+    return { score: SCORE_PREFIX, range: toNameRange(token, 0, query.length) };
+  }
+
+  const maxEdits = maxEditsFor(query.length);
+  if (maxEdits > 0) {
+    if (editDistance(query, text, maxEdits) <= maxEdits) {
+      return { score: SCORE_FUZZY, range: whole };
+    }
+
+    // Typo in a partially typed word ("balenc" → "balenciaga")
+    if (
+      text.length > query.length &&
+      editDistance(query, text.slice(0, query.length), maxEdits) <= maxEdits
+    ) {
+      return {
+        score: SCORE_FUZZY_PREFIX,
+        range: toNameRange(token, 0, query.length),
+      };
+    }
+  }
+
+  if (query.length >= MIN_SUBSTRING_LENGTH) {
+    const offset = text.indexOf(query);
+    if (offset > 0) {
+      return {
+        score: SCORE_SUBSTRING,
+        range: toNameRange(token, offset, offset + query.length),
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Sorts ranges and merges overlapping or touching ones.
+ */
+function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: MatchRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Matches every query token against a product.
+ *
+ * @returns The hit, or null if any query token has no match
+ */
+function matchEntry(
+  entry: SearchEntry,
+  queryTokens: string[],
+  normalizedQuery: string
+): SearchHit | null {
+  let score = 0;
+  const ranges: MatchRange[] = [];
+  const positions: number[] = [];
+
+  for (const queryToken of queryTokens) {
+    let best: TokenMatch | null = null;
+    let bestPosition = -1;
+
+    for (let position = 0; position < entry.tokens.length; position++) {
+      const match = matchToken(queryToken, entry.tokens[position]);
+      if (match && (!best || match.score > best.score)) {
+        best = match;
+        bestPosition = position;
+      }
+    }
+
+    if (!best) return null;
+
+    score += best.score;
+    ranges.push(best.range);
+    positions.push(bestPosition);
+  }
+
+  if (positions[0] === 0) {
+    score += BONUS_BRAND;
+  }
+  if (positions.length > 1 && positions.every((p, i) => i === 0 || p > positions[i - 1])) {
+    score += BONUS_IN_ORDER;
+  }
+  if (queryTokens.length > 1 && entry.normalizedName.includes(normalizedQuery)) {
+    score += BONUS_PHRASE;
+  }
+
+  return { product: entry.product, score, matches: mergeRanges(ranges) };
+}
+
+/* ===========================================
+   PUBLIC API
+   =========================================== */
+
+/**
+ * Prepares a product list for searching.
+ *
+ * @param products - The products to index
+ * @returns Search index over the products' names
+ */
+export function buildSearchIndex(products: Product[]): SearchIndex {
+  return {
+    entries: products.map((product) => {
+      const tokens = tokenize(product.name);
+      return {
+        product,
+        tokens,
+        normalizedName: tokens.map((token) => token.text).join(" "),
+      };
+    }),
+  };
+}
+
+/**
+ * Whether a query has anything to search for. Punctuation-only queries
+ * ("-", "&") have no tokens, and are treated like an empty query.
+ *
+ * @param query - Free-text search query
+ */
+export function hasSearchTerms(query: string): boolean {
+  return tokenize(query).length > 0;
+}
+
+/**
+ * Searches the index, returning hits ranked by relevance.
+ * Hits with equal scores keep catalog order. An empty query returns no hits.
+ *
+ * @param index - Index built by buildSearchIndex()
+ * @param query - Free-text search query
+ * @returns Matching products, most relevant first
+ */
+export function search(index: SearchIndex, query: string): SearchHit[] {
+  const queryTokens = tokenize(query).map((token) => token.text);
+  if (queryTokens.length === 0) return [];
+
+  const normalizedQuery = queryTokens.join(" ");
+  const hits: SearchHit[] = [];
+
+  for (const entry of index.entries) {
+    const hit = matchEntry(entry, queryTokens, normalizedQuery);
+    if (hit) hits.push(hit);
+  }
+
+  // Array.prototype.sort is stable, so ties keep catalog order
+  return hits.sort((a, b) => b.score - a.score);
+}
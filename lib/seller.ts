@@ -0,0 +1,178 @@
+/**
+ * Seller Links
+ *
+ * Helpers for reading the marketplace listing behind a product's buyUrl.
+ * Every link is parsed into a canonical (platform, item ID) pair, which is
+ * what product IDs are derived from (scripts/catalog/listing.mjs) and what
+ * buy links for other shopping agents are built from (lib/agents.ts).
+ *
+ * Supported links:
+ * - Shopping-agent links with shop_type and id parameters
+ *   (https://mulebuy.com/product/?shop_type=weidian&id=7611168397&ref=...)
+ * - Weidian:  https://weidian.com/item.html?itemID=7611168397
+ * - Taobao:   https://item.taobao.com/item.htm?id=674321987654
+ * - 1688:     https://detail.1688.com/offer/674321987654.html
+ *
+ * No data imports, so the catalog scripts (through tsx) and client
+ * components can use this module.
+ */
+
+/* ===========================================
+   TYPES
+   =========================================== */
+
+/**
+ * Marketplace a listing lives on.
+ */
+export type Platform = "weidian" | "taobao" | "1688";
+
+/**
+ * A marketplace listing, independent of the agent link it came from.
+ */
+export interface Listing {
+  platform: Platform;
+  /** Item ID on the marketplace (digits only) */
+  itemId: string;
+}
+
+/**
+ * The marketplace listing a buy link points at, for display.
+ */
+export interface SellerListing {
+  /** Marketplace display name (e.g. "WEIDIAN") */
+  platform: string;
+  /** Item ID on the marketplace, null if the link doesn't carry one */
+  itemId: string | null;
+  /** Direct link to the listing on the marketplace, null if unknown */
+  listingUrl: string | null;
+}
+
+/* ===========================================
+   CONSTANTS
+   =========================================== */
+
+/**
+ * Agent shop_type values -> platforms.
+ */
+const SHOP_TYPES: Record<string, Platform> = {
+  weidian: "weidian",
+  taobao: "taobao",
+  tmall: "taobao",
+  ali_1688: "1688",
+  "1688": "1688",
+};
+
+/**
+ * Display names by platform.
+ */
+const PLATFORM_NAMES: Record<Platform, string> = {
+  weidian: "WEIDIAN",
+  taobao: "TAOBAO",
+  1688: "1688",
+};
+
+/**
+ * Direct listing URL builders by platform.
+ */
+const LISTING_URLS: Record<Platform, (itemId: string) => string> = {
+  weidian: (itemId) => `https://weidian.com/item.html?itemID=${itemId}`,
+  taobao: (itemId) => `https://item.taobao.com/item.htm?id=${itemId}`,
+  1688: (itemId) => `https://detail.1688.com/offer/${itemId}.html`,
+};
+
+/* ===========================================
+   HELPERS
+   =========================================== */
+
+/**
+ * Whether a hostname is a domain or one of its subdomains
+ * ("item.taobao.com" is taobao.com, "evilweidian.com" is not weidian.com).
+ */
+function isHostOf(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * Extracts the platform and item ID from a buy link.
+ *
+ * @param buyUrl - Agent or marketplace link
+ * @returns The listing, or null if the link isn't recognized
+ */
+export function parseListing(buyUrl: string): Listing | null {
+  let url: URL;
+  try {
+    url = new URL(buyUrl);
+  } catch {
+    return null;
+  }
+
+  const host = url.hostname;
+  let platform: Platform | null = null;
+  let itemId: string | null = null;
+
+  if (isHostOf(host, "weidian.com")) {
+    platform = "weidian";
+    itemId = url.searchParams.get("itemID") || url.searchParams.get("itemId");
+  } else if (isHostOf(host, "taobao.com") || isHostOf(host, "tmall.com")) {
+    platform = "taobao";
+    itemId = url.searchParams.get("id");
+  } else if (isHostOf(host, "1688.com")) {
+    platform = "1688";
+    itemId = url.pathname.match(/\/offer\/(\d+)\.html/)?.[1] ?? null;
+  } else {
+    // Shopping agent link
+    const shopType = url.searchParams.get("shop_type")?.toLowerCase() ?? "";
+    platform = SHOP_TYPES[shopType] ?? null;
+    itemId = url.searchParams.get("id");
+  }
+
+  if (!platform || !itemId || !/^\d+$/.test(itemId)) {
+    return null;
+  }
+  return { platform, itemId };
+}
+
+/**
+ * Stable key for a listing, used to spot the same item linked twice.
+ *
+ * @returns e.g. "weidian:7611168397"
+ */
+export function getListingKey(listing: Listing): string {
+  return `${listing.platform}:${listing.itemId}`;
+}
+
+/**
+ * Direct link to a listing on its marketplace.
+ *
+ * @returns e.g. "https://weidian.com/item.html?itemID=7611168397"
+ */
+export function getListingUrl(listing: Listing): string {
+  return LISTING_URLS[listing.platform](listing.itemId);
+}
+
+/**
+ * Get platform name from buy URL.
+ *
+ * @param url - The product's buyUrl
+ * @returns "TAOBAO", "WEIDIAN", "1688" or "SELLER" when unrecognized
+ */
+export function getPlatformName(url: string): string {
+  const listing = parseListing(url);
+  return listing ? PLATFORM_NAMES[listing.platform] : "SELLER";
+}
+
+/**
+ * Describes the marketplace listing behind a buy link.
+ *
+ * @param url - The product's buyUrl
+ * @returns Platform, item ID and direct listing URL (when known)
+ */
+export function getSellerListing(url: string): SellerListing {
+  const listing = parseListing(url);
+
+  return {
+    platform: listing ? PLATFORM_NAMES[listing.platform] : "SELLER",
+    itemId: listing?.itemId ?? null,
+    listingUrl: listing ? getListingUrl(listing) : null,
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * Site Identity
+ *
+ * The production origin and name, for metadata and structured data that
+ * need absolute URLs (app/layout.tsx sets metadataBase from SITE_URL;
+ * JSON-LD in lib/product-seo.ts can't rely on it).
+ */
+
+/**
+ * Production origin, without a trailing slash.
+ */
+export const SITE_URL = "https://zayfinds.com";
+
+/**
+ * Site name, as shown in titles and link previews.
+ */
+export const SITE_NAME = "ZAYFINDS";
+
+/**
+ * Resolves a site path against the production origin. Absolute URLs
+ * (e.g. seller-hosted images) are returned unchanged.
+ *
+ * @param path - Site path or absolute URL
+ * @returns e.g. "https://zayfinds.com/products/chrome-hearts-hoodie"
+ */
+export function getAbsoluteUrl(path: string): string {
+  return new URL(path, SITE_URL).href;
+}
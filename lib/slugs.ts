@@ -0,0 +1,46 @@
+/**
+ * Slug Utilities
+ *
+ * Pure slug helpers, kept apart from lib/products.ts (which imports the
+ * full catalog) so client components can use them cheaply.
+ */
+
+import type { Product } from "@/lib/products";
+
+/* ===========================================
+   SLUG UTILITIES
+   =========================================== */
+
+/**
+ * Converts a product name to a URL-safe slug.
+ * Must match slugify() in scripts/catalog/stages/dedupe.mjs, which uses it to
+ * derive the persisted slug for new products.
+ *
+ * Examples:
+ * - "Vetements Silk Road Tee" → "vetements-silk-road-tee"
+ * - "Yeezy 350 V2 (High Quality)" → "yeezy-350-v2-high-quality"
+ *
+ * @param name - The product name to convert
+ * @returns URL-safe lowercase slug
+ */
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^\w\s-]/g, "") // Remove special characters except spaces and hyphens
+    .replace(/\s+/g, "-") // Replace spaces with hyphens
+    .replace(/-+/g, "-") // Replace multiple hyphens with single hyphen
+    .replace(/^-|-$/g, ""); // Remove leading/trailing hyphens
+}
+
+/**
+ * Gets the slug for a product.
+ * Uses the slug persisted in products.json, which is unique across the
+ * catalog and survives renames (old slugs redirect via slug-redirects.json).
+ *
+ * @param product - The product to get slug for
+ * @returns URL-safe slug string
+ */
+export function getProductSlug(product: Product): string {
+  return product.slug;
+}
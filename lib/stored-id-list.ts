@@ -0,0 +1,182 @@
+/**
+ * Stored ID Lists
+ *
+ * Factory for small lists of product IDs kept in localStorage and shared by
+ * every component (and every open tab) through a hook. Used for saved finds
+ * (lib/use-wishlist.ts) and the compare selection (lib/use-compare.ts).
+ *
+ * Renders as an empty list on the server and during hydration, then picks
+ * up the stored value. Corrupt or unavailable storage reads as empty.
+ */
+
+import { useMemo, useSyncExternalStore } from "react";
+
+/* ===========================================
+   TYPES
+   =========================================== */
+
+/**
+ * List state and actions returned by the generated hook.
+ */
+export interface StoredIdList {
+  /** False on the server and during hydration, before storage is read */
+  ready: boolean;
+  /** Stored product IDs, in list order */
+  ids: number[];
+  /** Whether the list has reached its limit */
+  isFull: boolean;
+  /** Whether a product is in the list */
+  has: (id: number) => boolean;
+  /** Adds or removes a product (adding to a full list does nothing) */
+  toggle: (id: number) => void;
+  /** Adds products; ones already listed keep their position */
+  add: (ids: number[]) => void;
+  /** Removes products */
+  remove: (ids: number[]) => void;
+  /** Replaces IDs in place (old ID → current ID); duplicates keep the first position */
+  rename: (renamed: Record<number, number>) => void;
+  /** Empties the list */
+  clear: () => void;
+}
+
+/**
+ * Options for createStoredIdList().
+ */
+interface StoredIdListOptions {
+  /** localStorage key */
+  storageKey: string;
+  /** Where new IDs go: "start" (newest first) or "end" (oldest first) */
+  insertAt: "start" | "end";
+  /** Maximum list length; extra IDs are dropped (default: unlimited) */
+  limit?: number;
+}
+
+/* ===========================================
+   FACTORY
+   =========================================== */
+
+/**
+ * Subscription for values that never change after hydration.
+ */
+function subscribeNever(): () => void {
+  return () => {};
+}
+
+/**
+ * Creates a hook for one localStorage-backed ID list.
+ *
+ * @param options - Storage key, insertion order and size limit
+ * @returns Hook returning the current list plus actions
+ */
+export function createStoredIdList({
+  storageKey,
+  insertAt,
+  limit = Infinity,
+}: StoredIdListOptions): () => StoredIdList {
+  /** Same-tab subscribers (the storage event only fires in other tabs) */
+  const listeners = new Set<() => void>();
+
+  /**
+   * Reads the raw stored value, or null when storage is unavailable
+   * (e.g. blocked in private mode).
+   */
+  const readRaw = (): string | null => {
+    try {
+      return localStorage.getItem(storageKey);
+    } catch {
+      return null;
+    }
+  };
+
+  /**
+   * Parses a raw stored value, keeping only unique positive integers.
+   */
+  const parseStored = (raw: string | null): number[] => {
+    if (!raw) return [];
+
+    try {
+      const value: unknown = JSON.parse(raw);
+      if (!Array.isArray(value)) return [];
+
+      const ids = value.filter(
+        (id): id is number => Number.isInteger(id) && id > 0
+      );
+      return [...new Set(ids)].slice(0, limit);
+    } catch {
+      return [];
+    }
+  };
+
+  const readIds = (): number[] => parseStored(readRaw());
+
+  /**
+   * Saves the list and notifies same-tab subscribers.
+   */
+  const writeIds = (ids: number[]): void => {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(ids.slice(0, limit)));
+    } catch {
+      // Storage full or unavailable: the stored list stays as it was
+    }
+    listeners.forEach((listener) => listener());
+  };
+
+  /**
+   * Subscribes to changes from this tab and from other tabs.
+   */
+  const subscribe = (listener: () => void): (() => void) => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === storageKey) listener();
+    };
+
+    listeners.add(listener);
+    window.addEventListener("storage", handleStorage);
+    return () => {
+      listeners.delete(listener);
+      window.removeEventListener("storage", handleStorage);
+    };
+  };
+
+  /**
+   * Inserts new IDs at the configured end of the list.
+   */
+  const insert = (current: number[], newIds: number[]): number[] => {
+    const added = newIds.filter((id) => !current.includes(id));
+    return insertAt === "start" ? [...added, ...current] : [...current, ...added];
+  };
+
+  return function useStoredIdList(): StoredIdList {
+    const raw = useSyncExternalStore(subscribe, readRaw, () => null);
+    const ready = useSyncExternalStore(subscribeNever, () => true, () => false);
+
+    return useMemo(() => {
+      const ids = parseStored(raw);
+      const listed = new Set(ids);
+
+      return {
+        ready,
+        ids,
+        isFull: ids.length >= limit,
+        has: (id) => listed.has(id),
+        toggle: (id) => {
+          const current = readIds();
+          if (current.includes(id)) {
+            writeIds(current.filter((listedId) => listedId !== id));
+          } else if (current.length < limit) {
+            writeIds(insert(current, [id]));
+          }
+        },
+        add: (newIds) => writeIds(insert(readIds(), newIds)),
+        remove: (removedIds) =>
+          writeIds(readIds().filter((id) => !removedIds.includes(id))),
+        rename: (renamed) => {
+          const current = readIds();
+          if (current.some((id) => id in renamed)) {
+            writeIds([...new Set(current.map((id) => renamed[id] ?? id))]);
+          }
+        },
+        clear: () => writeIds([]),
+      };
+    }, [raw, ready]);
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Stored Values
+ *
+ * Factory for a single string setting kept in localStorage and shared by
+ * every component (and every open tab) through a hook. Used for the
+ * preferred shopping agent (lib/use-preferred-agent.ts) and display
+ * currency (lib/use-currency.ts).
+ *
+ * Reads as null on the server and during hydration, then picks up the
+ * stored value. Unavailable storage reads as null.
+ */
+
+import { useSyncExternalStore } from "react";
+
+/**
+ * Creates a hook for one localStorage-backed string.
+ *
+ * @param storageKey - localStorage key
+ * @returns Hook returning the stored value (null when unset) and a setter
+ */
+export function createStoredValue(
+  storageKey: string
+): () => [string | null, (value: string) => void] {
+  /** Same-tab subscribers (the storage event only fires in other tabs) */
+  const listeners = new Set<() => void>();
+
+  /**
+   * Reads the stored value, or null when unset or storage is unavailable.
+   */
+  const read = (): string | null => {
+    try {
+      return localStorage.getItem(storageKey);
+    } catch {
+      return null;
+    }
+  };
+
+  /**
+   * Saves the value and notifies same-tab subscribers.
+   */
+  const write = (value: string): void => {
+    try {
+      localStorage.setItem(storageKey, value);
+    } catch {
+      // Storage full or unavailable: the stored value stays as it was
+    }
+    listeners.forEach((listener) => listener());
+  };
+
+  /**
+   * Subscribes to changes from this tab and from other tabs.
+   */
+  const subscribe = (listener: () => void): (() => void) => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === storageKey) listener();
+    };
+
+    listeners.add(listener);
+    window.addEventListener("storage", handleStorage);
+    return () => {
+      listeners.delete(listener);
+      window.removeEventListener("storage", handleStorage);
+    };
+  };
+
+  return function useStoredValue() {
+    const value = useSyncExternalStore(subscribe, read, () => null);
+    return [value, write];
+  };
+}
@@ -0,0 +1,24 @@
+/**
+ * useCompare Hook
+ *
+ * The products selected for side-by-side comparison, persisted in
+ * localStorage so the selection survives navigation. Kept in the order
+ * they were picked, which is the column order on /compare.
+ */
+
+import { MAX_COMPARE_ITEMS } from "@/lib/compare";
+import { StoredIdList, createStoredIdList } from "@/lib/stored-id-list";
+
+/**
+ * Compare selection state and actions returned by useCompare().
+ */
+export type CompareSelection = StoredIdList;
+
+/**
+ * Current compare selection plus actions.
+ */
+export const useCompare: () => CompareSelection = createStoredIdList({
+  storageKey: "zayfinds:compare",
+  insertAt: "end",
+  limit: MAX_COMPARE_ITEMS,
+});
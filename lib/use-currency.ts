@@ -0,0 +1,36 @@
+/**
+ * useCurrency Hook
+ *
+ * The currency prices are shown in, persisted in localStorage and shared
+ * by every price on the page (and every open tab).
+ *
+ * Renders in the default currency on the server and during hydration,
+ * then picks up the stored choice. Unknown codes read as the default. See
+ * lib/currency.ts for rates and formatting.
+ */
+
+import { Currency, getCurrency } from "@/lib/currency";
+import { createStoredValue } from "@/lib/stored-value";
+
+/**
+ * Display currency state and setter returned by useCurrency().
+ */
+export interface DisplayCurrency {
+  /** The chosen currency, or the default until one is picked */
+  currency: Currency;
+  /** Stores a new choice */
+  setCurrency: (code: string) => void;
+}
+
+/**
+ * Stored currency code.
+ */
+const useStoredCurrencyCode = createStoredValue("zayfinds:currency");
+
+/**
+ * Current display currency plus setter.
+ */
+export function useCurrency(): DisplayCurrency {
+  const [code, setCurrency] = useStoredCurrencyCode();
+  return { currency: getCurrency(code), setCurrency };
+}
@@ -0,0 +1,36 @@
+/**
+ * usePreferredAgent Hook
+ *
+ * The shopping agent the shopper buys through, persisted in localStorage
+ * and shared by every Buy button (and every open tab).
+ *
+ * Renders with the default agent on the server and during hydration, then
+ * picks up the stored choice. Unknown values read as the default. See
+ * lib/agents.ts for the agent table.
+ */
+
+import { ShoppingAgent, getAgent } from "@/lib/agents";
+import { createStoredValue } from "@/lib/stored-value";
+
+/**
+ * Preferred agent state and setter returned by usePreferredAgent().
+ */
+export interface PreferredAgent {
+  /** The chosen agent, or the default until one is picked */
+  agent: ShoppingAgent;
+  /** Stores a new choice */
+  setAgent: (agentId: string) => void;
+}
+
+/**
+ * Stored agent ID.
+ */
+const useStoredAgentId = createStoredValue("zayfinds:agent");
+
+/**
+ * Current preferred agent plus setter.
+ */
+export function usePreferredAgent(): PreferredAgent {
+  const [agentId, setAgent] = useStoredAgentId();
+  return { agent: getAgent(agentId), setAgent };
+}
@@ -0,0 +1,23 @@
+/**
+ * useWishlist Hook
+ *
+ * The saved product ID list, persisted in localStorage and shared by every
+ * component (and every open tab). Newest saves come first.
+ *
+ * See lib/wishlist.ts for the export format and import/share helpers.
+ */
+
+import { StoredIdList, createStoredIdList } from "@/lib/stored-id-list";
+
+/**
+ * Wishlist state and actions returned by useWishlist().
+ */
+export type Wishlist = StoredIdList;
+
+/**
+ * Current wishlist plus actions.
+ */
+export const useWishlist: () => Wishlist = createStoredIdList({
+  storageKey: "zayfinds:wishlist",
+  insertAt: "start",
+});
@@ -0,0 +1,96 @@
+/**
+ * Wishlist (Saved Finds)
+ *
+ * Parsing, export and share-link helpers for saved product IDs. The list
+ * itself lives in localStorage and is read through useWishlist()
+ * (lib/use-wishlist.ts); this module has no React imports so server
+ * components can use it too.
+ *
+ * Only IDs are saved; product data is looked up when displayed, so a
+ * saved ID may point at a product that has since been removed from
+ * data/products.json. Callers decide how to show those.
+ *
+ * Export format (also accepted by import):
+ *   { "version": 1, "ids": [12, 34], "exportedAt": "2026-01-01T00:00:00.000Z" }
+ */
+
+/* ===========================================
+   TYPES
+   =========================================== */
+
+/**
+ * JSON file written by exportWishlist().
+ */
+export interface WishlistExport {
+  version: 1;
+  ids: number[];
+  exportedAt: string;
+}
+
+/* ===========================================
+   PARSING & EXPORT
+   =========================================== */
+
+/**
+ * Extracts a clean ID list from stored or imported JSON.
+ * Accepts a bare array or a WishlistExport object; drops anything that is
+ * not a positive integer and removes duplicates (first occurrence wins).
+ *
+ * @param value - Parsed JSON
+ * @returns Valid, unique product IDs
+ * @throws Error if the value is neither an array nor has an `ids` array
+ */
+export function parseWishlistIds(value: unknown): number[] {
+  const list = Array.isArray(value)
+    ? value
+    : (value as { ids?: unknown } | null)?.ids;
+
+  if (!Array.isArray(list)) {
+    throw new Error('Expected an array of IDs or an object with an "ids" array.');
+  }
+
+  const ids = list.filter(
+    (id): id is number => Number.isInteger(id) && id > 0
+  );
+  return [...new Set(ids)];
+}
+
+/**
+ * Parses the comma-separated `ids` parameter of a shared /saved link.
+ *
+ * @param value - e.g. "12,34,56"
+ * @returns Valid, unique product IDs in link order
+ */
+export function parseSharedIds(value: string): number[] {
+  return parseWishlistIds(
+    value
+      .split(",")
+      .filter((part) => /^\d+$/.test(part.trim()))
+      .map((part) => parseInt(part, 10))
+  );
+}
+
+/**
+ * Builds the export file contents for a list of IDs.
+ *
+ * @param ids - Saved product IDs
+ * @returns Pretty-printed WishlistExport JSON
+ */
+export function exportWishlist(ids: number[]): string {
+  const data: WishlistExport = {
+    version: 1,
+    ids,
+    exportedAt: new Date().toISOString(),
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Builds the site path of a shareable link for a list of IDs.
+ *
+ * @param ids - Product IDs to share
+ * @returns Site path, e.g. "/saved?ids=12,34"
+ */
+export function getSharedWishlistPath(ids: number[]): string {
+  return `/saved?ids=${ids.join(",")}`;
+}
@@ -1,7 +1,68 @@
 import type { NextConfig } from "next";
+import slugRedirects from "./data/slug-redirects.json";
+import { OPTIMIZED_IMAGE_HOSTS } from "./lib/images";
+
+/**
+ * Permanent redirects for retired product slugs.
+ * Keys starting with "_" are comments in the JSON file.
+ */
+function getSlugRedirects() {
+  return Object.entries(slugRedirects as Record<string, string>)
+    .filter(([from]) => !from.startsWith("_"))
+    .flatMap(([from, to]) => [
+      {
+        source: `/products/${from}`,
+        destination: `/products/${to}`,
+        statusCode: 301 as const,
+      },
+      {
+        source: `/quality/${from}`,
+        destination: `/quality/${to}`,
+        statusCode: 301 as const,
+      },
+      {
+        source: `/api/products/${from}`,
+        destination: `/api/products/${to}`,
+        statusCode: 301 as const,
+      },
+    ]);
+}
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  async redirects() {
+    return getSlugRedirects();
+  },
+
+  /**
+   * Source images not yet self-hosted (see lib/images.ts) are resized and
+   * re-encoded on demand from the marketplace CDN. Self-hosted variants
+   * bypass the optimizer with their own loader.
+   */
+  images: {
+    formats: ["image/avif", "image/webp"],
+    remotePatterns: OPTIMIZED_IMAGE_HOSTS.map((hostname) => ({
+      protocol: "https" as const,
+      hostname,
+    })),
+  },
+
+  /**
+   * Self-hosted product images (scripts/optimize-images.mjs) are named by
+   * a hash of their source URL, so a file never changes once written.
+   */
+  async headers() {
+    return [
+      {
+        source: "/images/products/:file*",
+        headers: [
+          {
+            key: "Cache-Control",
+            value: "public, max-age=31536000, immutable",
+          },
+        ],
+      },
+    ];
+  },
 };
 
 export default nextConfig;
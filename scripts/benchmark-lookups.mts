@@ -0,0 +1,135 @@
+/**
+ * Product Lookup Benchmark
+ *
+ * Measures lookup cost in the product data layer as the catalog grows.
+ * Synthetic catalogs are built by cloning data/products.json with unique
+ * ids and slugs, then timed with:
+ * - "scan": the old Array.find/filter approach (re-slugifying names)
+ * - "index": the Map-based lookups from lib/product-index.ts
+ *
+ * Usage:
+ *   npm run bench:lookups
+ *   npx tsx scripts/benchmark-lookups.mts 2500 10000 50000   # Custom sizes
+ */
+
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { performance } from 'perf_hooks';
+
+import { buildProductIndex } from '../lib/product-index';
+import { slugify, type Product } from '../lib/products';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const PROJECT_ROOT = join(__dirname, '..');
+const PRODUCTS_PATH = join(PROJECT_ROOT, 'data', 'products.json');
+
+// Configuration
+const DEFAULT_SIZES = [2_500, 5_000, 10_000, 25_000, 50_000];
+const LOOKUPS_PER_RUN = 2_000; // Random index lookups timed per catalog size
+const SCAN_LOOKUPS_PER_RUN = 50; // Linear scans are slow, so time fewer of them
+
+/**
+ * Builds a synthetic catalog of `size` products by cloning the real one.
+ * Clones get a numeric suffix so ids, names and slugs stay unique.
+ */
+function buildCatalog(base: Product[], size: number): Product[] {
+  const catalog: Product[] = [];
+
+  for (let i = 0; i < size; i++) {
+    const source = base[i % base.length];
+    const copy = Math.floor(i / base.length);
+    const suffix = copy === 0 ? '' : ` ${copy + 1}`;
+
+    catalog.push({
+      ...source,
+      id: i + 1,
+      name: `${source.name}${suffix}`,
+      slug: copy === 0 ? source.slug : `${source.slug}-${copy + 1}`,
+    });
+  }
+
+  return catalog;
+}
+
+/**
+ * Picks `count` random products to look up (deterministic per size).
+ */
+function pickTargets(catalog: Product[], count: number): Product[] {
+  let seed = catalog.length;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+
+  return Array.from({ length: count }, () => catalog[Math.floor(random() * catalog.length)]);
+}
+
+/**
+ * Runs `fn` for every target and returns the mean time per call in µs.
+ */
+function time<T>(targets: T[], fn: (target: T) => unknown): number {
+  const start = performance.now();
+  for (const target of targets) {
+    fn(target);
+  }
+  return ((performance.now() - start) * 1000) / targets.length;
+}
+
+/**
+ * Formats a microsecond value for the results table.
+ */
+function formatMicros(value: number): string {
+  return value >= 1000 ? `${(value / 1000).toFixed(2)} ms` : `${value.toFixed(2)} µs`;
+}
+
+/**
+ * Main function
+ */
+function main() {
+  const args = process.argv.slice(2).map((arg) => parseInt(arg, 10)).filter((n) => n > 0);
+  const sizes = args.length > 0 ? args : DEFAULT_SIZES;
+
+  console.log('⏱️  Product Lookup Benchmark');
+  console.log('===========================\n');
+
+  const base = JSON.parse(readFileSync(PRODUCTS_PATH, 'utf-8')) as Product[];
+  console.log(`📂 Loaded ${base.length} products as the base catalog`);
+  console.log(`🎯 ${LOOKUPS_PER_RUN} index / ${SCAN_LOOKUPS_PER_RUN} scan lookups per size\n`);
+
+  const rows = [];
+
+  for (const size of sizes) {
+    const catalog = buildCatalog(base, size);
+    const targets = pickTargets(catalog, LOOKUPS_PER_RUN);
+    const scanTargets = targets.slice(0, SCAN_LOOKUPS_PER_RUN);
+
+    const buildStart = performance.now();
+    const index = buildProductIndex(catalog);
+    const buildMs = performance.now() - buildStart;
+
+    rows.push({
+      size: size.toLocaleString(),
+      'index build': `${buildMs.toFixed(2)} ms`,
+      'slug (scan)': formatMicros(
+        time(scanTargets, (t) => catalog.find((p) => slugify(p.name) === slugify(t.name)))
+      ),
+      'slug (index)': formatMicros(time(targets, (t) => index.bySlug.get(t.slug))),
+      'id (scan)': formatMicros(time(scanTargets, (t) => catalog.find((p) => p.id === t.id))),
+      'id (index)': formatMicros(time(targets, (t) => index.byId.get(t.id))),
+      'category (scan)': formatMicros(
+        time(scanTargets, (t) => catalog.filter((p) => p.category === t.category))
+      ),
+      'category (index)': formatMicros(
+        time(targets, (t) => (t.category ? index.byCategory.get(t.category) : undefined))
+      ),
+    });
+  }
+
+  console.table(rows);
+  console.log('\n🎉 Done!');
+}
+
+// Run
+main();
@@ -0,0 +1,310 @@
+/**
+ * Catalog CLI
+ *
+ * Single entry point for refreshing the product catalog.
+ *
+ * `build` turns data/raw/Sheet1.csv (exported from Google Sheets) into
+ * data/products.json through these stages (scripts/catalog/stages/):
+ *
+ *   parse → normalize → categorize → dedupe → images → validate → write
+ *
+ * - Product ids come from the platform and item id in each buyUrl, so re-imports
+ *   never renumber the catalog; slugs and images carry over by id
+ * - The build fails if an existing id would change meaning
+ * - Products it can't categorize are listed, with suggestions, for the
+ *   dev-only /dev/categories triage page; decisions made there are saved
+ *   to data/category-overrides.json and applied on the next build
+ * - Each stage is cached in .cache/catalog/ and only re-runs when its
+ *   inputs change (see scripts/catalog/pipeline.mjs)
+ * - Ends with a summary of what changed versus the current products.json,
+ *   saved as data/catalog-changes.json/.md (see scripts/catalog/changelog.mjs)
+ *
+ * Self-hosted image variants are still generated separately afterwards:
+ *   npm run images:optimize
+ *
+ * `diff` compares any two versions of the catalog, each a products.json
+ * path or a git revision (defaults: HEAD against the working copy).
+ *
+ * `lint` reports data problems in data/products.json (see
+ * scripts/catalog/lint.mjs) and exits non-zero on errors.
+ *
+ * `classifier` trains the name → category model the build uses for
+ * products the sheet doesn't categorize (see scripts/catalog/classifier.mjs).
+ * `evaluate` measures it on held-out products first; `train` saves it to
+ * data/category-model.json. Retrain after categories change a lot (new
+ * sheet categories, a round of triage), then rebuild.
+ *
+ * Runs through tsx, since the stages share lib/product-schema.ts with the
+ * app.
+ *
+ * Usage:
+ *   npm run catalog -- build                 # Import the sheet
+ *   npm run catalog -- build --dry-run       # Show what would change, write nothing
+ *   npm run catalog -- build --no-cache      # Re-run every stage
+ *   npm run catalog -- build --reslug        # Re-derive slugs for renamed products
+ *                                            # and record 301 redirects for the old ones
+ *   npm run catalog -- build --fetch-images  # Also fetch Weidian images for products without one
+ *   npm run catalog -- diff                  # Changelog of uncommitted catalog changes
+ *   npm run catalog -- diff HEAD~3 HEAD      # Changelog between two revisions
+ *   npm run catalog -- diff old.json --json  # As JSON instead of Markdown
+ *   npm run catalog -- diff HEAD~1 --write   # Publish as the latest changes (/new, badges)
+ *   npm run catalog -- lint                  # Report data problems
+ *   npm run catalog -- lint --verbose        # List every issue, not just samples
+ *   npm run catalog -- lint --json           # Print the report as JSON (for CI)
+ *   npm run catalog -- classifier evaluate   # Precision/recall on held-out products
+ *   npm run catalog -- classifier evaluate --json
+ *   npm run catalog -- classifier train      # Save the model (confidence threshold 0.9)
+ *   npm run catalog -- classifier train --threshold=0.95
+ */
+
+import { runPipeline } from './catalog/pipeline.mjs';
+import { diffCatalogs, printDiff } from './catalog/diff.mjs';
+import {
+  buildChangelog,
+  formatChangelogMarkdown,
+  hasChanges,
+  writeChangelog,
+} from './catalog/changelog.mjs';
+import {
+  PRODUCTS_JSON_PATH,
+  describeCatalogVersion,
+  loadCatalogVersion,
+  loadCurrentCatalog,
+} from './catalog/files.mjs';
+import { lintCatalog } from './catalog/lint.mjs';
+import {
+  DEFAULT_CONFIDENCE_THRESHOLD,
+  evaluateClassifier,
+  formatEvaluation,
+  saveCategoryModel,
+} from './catalog/classifier.mjs';
+import { parseStage } from './catalog/stages/parse.mjs';
+import { normalizeStage } from './catalog/stages/normalize.mjs';
+import { categorizeStage, inferCategoryFromName } from './catalog/stages/categorize.mjs';
+import { dedupeStage } from './catalog/stages/dedupe.mjs';
+import { imagesStage } from './catalog/stages/images.mjs';
+import { validateStage } from './catalog/stages/validate.mjs';
+import { writeStage } from './catalog/stages/write.mjs';
+
+// Build stages, in order
+const BUILD_STAGES = [
+  parseStage,
+  normalizeStage,
+  categorizeStage,
+  dedupeStage,
+  imagesStage,
+  validateStage,
+  writeStage,
+];
+
+/**
+ * Runs the build pipeline and prints the diff against the current catalog.
+ *
+ * @param {string[]} args - Command line flags
+ */
+async function build(args) {
+  const options = {
+    dryRun: args.includes('--dry-run'),
+    useCache: !args.includes('--no-cache'),
+    reslug: args.includes('--reslug'),
+    fetchImages: args.includes('--fetch-images'),
+  };
+
+  console.log('🏗️  Catalog Build');
+  console.log('================');
+  if (options.dryRun) {
+    console.log('🧪 Dry run: nothing will be written');
+  }
+
+  const current = loadCurrentCatalog();
+  console.log(`📂 Current catalog: ${current.products.length} products`);
+
+  const context = { options, current, artifacts: {} };
+  const products = await runPipeline(BUILD_STAGES, context);
+
+  const diff = diffCatalogs(current.products, products);
+  printDiff(diff);
+
+  const changelog = buildChangelog(diff, { from: 'previous data/products.json', to: 'data/products.json' });
+  if (!options.dryRun && hasChanges(changelog)) {
+    writeChangelog(changelog);
+    console.log('📰 Changelog saved to data/catalog-changes.json and .md');
+  }
+
+  console.log(options.dryRun ? '\n🧪 Dry run complete, no files changed' : '\n🎉 Catalog build complete!');
+}
+
+/**
+ * Prints the changelog between two catalog versions, as Markdown or JSON,
+ * and optionally publishes it as the latest changes.
+ *
+ * @param {string[]} args - Up to two versions (file or git revision), then flags
+ */
+function diff(args) {
+  const [from = 'HEAD', to = PRODUCTS_JSON_PATH] = args.filter((arg) => !arg.startsWith('--'));
+  const changelog = buildChangelog(
+    diffCatalogs(loadCatalogVersion(from), loadCatalogVersion(to)),
+    { from: describeCatalogVersion(from), to: describeCatalogVersion(to) }
+  );
+
+  console.log(args.includes('--json') ? JSON.stringify(changelog, null, 2) : formatChangelogMarkdown(changelog));
+
+  if (args.includes('--write')) {
+    writeChangelog(changelog);
+    console.error('📰 Changelog saved to data/catalog-changes.json and .md');
+  }
+}
+
+// Issues listed per lint rule, unless --verbose
+const MAX_LINT_SAMPLES = 5;
+
+/**
+ * Lints the current catalog and prints the issues grouped by rule.
+ * Sets a non-zero exit code if any error-level rule has issues.
+ *
+ * @param {string[]} args - Command line flags
+ */
+function lint(args) {
+  const verbose = args.includes('--verbose');
+  const products = loadCurrentCatalog().products;
+  const results = lintCatalog(products);
+
+  const countIssues = (severity) => results
+    .filter((result) => result.severity === severity)
+    .reduce((sum, result) => sum + result.issues.length, 0);
+  const errors = countIssues('error');
+  const warnings = countIssues('warning');
+
+  if (errors > 0) {
+    process.exitCode = 1;
+  }
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify({ productsChecked: products.length, errors, warnings, rules: results }, null, 2));
+    return;
+  }
+
+  console.log('🧹 Catalog Lint');
+  console.log('===============');
+  console.log(`📂 Checked ${products.length} products`);
+
+  for (const result of results) {
+    if (result.issues.length === 0) continue;
+
+    const icon = result.severity === 'error' ? '❌' : '⚠️ ';
+    console.log(`\n${icon} ${result.rule} (${result.issues.length}): ${result.description}`);
+
+    const shown = verbose ? result.issues : result.issues.slice(0, MAX_LINT_SAMPLES);
+    for (const issue of shown) {
+      console.log(`   - id ${issue.id} ${JSON.stringify(issue.name)}: ${issue.message}`);
+    }
+    if (shown.length < result.issues.length) {
+      console.log(`   ... and ${result.issues.length - shown.length} more (--verbose lists all)`);
+    }
+  }
+
+  console.log('\n📊 Summary');
+  console.log('==========');
+  console.log(`   Errors: ${errors}`);
+  console.log(`   Warnings: ${warnings}`);
+  console.log(errors > 0 ? '\n❌ Catalog has errors' : '\n✅ No errors');
+}
+
+// Confidence thresholds compared in the evaluation report
+const EVALUATION_THRESHOLDS = [0.5, 0.7, 0.8, 0.9, 0.95, 0.99];
+
+// Most confident mistakes listed in the evaluation report
+const MAX_CLASSIFIER_MISTAKES = 15;
+
+/**
+ * Reads a numeric `--name=value` flag.
+ *
+ * @param {string[]} args - Command line flags
+ * @param {string} name - Flag name, without dashes
+ * @param {number} fallback - Value when the flag is absent
+ * @returns {number}
+ * @throws {Error} - If the value isn't a number
+ */
+function readNumberFlag(args, name, fallback) {
+  const flag = args.find((arg) => arg.startsWith(`--${name}=`));
+  if (!flag) {
+    return fallback;
+  }
+
+  const value = Number(flag.slice(name.length + 3));
+  if (!Number.isFinite(value)) {
+    throw new Error(`--${name} must be a number`);
+  }
+  return value;
+}
+
+/**
+ * Evaluates or trains the category classifier on the current catalog.
+ *
+ * @param {string[]} args - "evaluate" or "train", then flags
+ */
+function classifier(args) {
+  const [action] = args;
+  const products = loadCurrentCatalog().products;
+
+  if (action === 'evaluate') {
+    const report = evaluateClassifier(products, EVALUATION_THRESHOLDS, inferCategoryFromName);
+    if (args.includes('--json')) {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    console.log('🧠 Category Classifier Evaluation');
+    console.log('=================================');
+    console.log(formatEvaluation(report, MAX_CLASSIFIER_MISTAKES));
+    return;
+  }
+
+  if (action === 'train') {
+    const threshold = readNumberFlag(args, 'threshold', DEFAULT_CONFIDENCE_THRESHOLD);
+    if (threshold <= 0 || threshold > 1) {
+      throw new Error('--threshold must be between 0 and 1');
+    }
+
+    const model = saveCategoryModel(products, threshold);
+    console.log('🧠 Category Classifier');
+    console.log('======================');
+    console.log(`✅ Trained on ${model.documentCount} labeled products (${model.vocabularySize} name tokens)`);
+    console.log(`🎯 Confidence threshold: ${threshold}`);
+    console.log('💾 Saved to data/category-model.json, run npm run catalog -- build to apply it');
+    return;
+  }
+
+  throw new Error(`Unknown classifier action: ${action ?? '(none)'} (use evaluate or train)`);
+}
+
+// Available commands
+const COMMANDS = {
+  build,
+  diff,
+  lint,
+  classifier,
+};
+
+/**
+ * Main function
+ */
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (!COMMANDS[command]) {
+    console.error(`❌ Unknown command: ${command ?? '(none)'}`);
+    console.error(`   Available commands: ${Object.keys(COMMANDS).join(', ')}`);
+    process.exit(1);
+  }
+
+  try {
+    await COMMANDS[command](args);
+  } catch (error) {
+    console.error(`\n❌ ${error.message}`);
+    process.exit(1);
+  }
+}
+
+// Run
+main();
@@ -0,0 +1,158 @@
+/**
+ * Catalog Changelog
+ *
+ * Turns a catalog diff (see diff.mjs) into a shopper-facing changelog:
+ * added, removed, repriced, renamed, recategorized and re-imaged products.
+ *
+ * Written as data/catalog-changes.json, which drives the /new page and the
+ * NEW / PRICE DROP badges (lib/catalog-changes.ts), and as
+ * data/catalog-changes.md for reading in review. Both hold the latest
+ * import only; git history keeps the older ones.
+ */
+
+import { writeFileSync } from 'fs';
+import { CATALOG_CHANGES_JSON_PATH, CATALOG_CHANGES_MARKDOWN_PATH } from './files.mjs';
+
+// Header written at the top of catalog-changes.json
+const CHANGES_COMMENT = 'Latest catalog changes, written by `npm run catalog -- build` (or `-- diff --write`). Drives /new and the NEW / PRICE DROP badges. Do not edit by hand.';
+
+// Changed-product groups: which diff fields put a product in the group,
+// and the value shown as "from → to"
+const CHANGE_GROUPS = [
+  { key: 'repriced', title: 'Repriced', fields: ['price'], value: (product) => product.price },
+  { key: 'renamed', title: 'Renamed', fields: ['name'], value: (product) => product.name },
+  { key: 'recategorized', title: 'Recategorized', fields: ['category'], value: (product) => product.category },
+  { key: 'reimaged', title: 'Re-imaged', fields: ['imageUrl', 'images'], value: (product) => product.imageUrl },
+];
+
+/**
+ * Picks the fields a changelog entry needs from a product.
+ *
+ * @param {object} product - Product from either catalog version
+ * @returns {{ id: number, slug: string, name: string, price: number|null }}
+ */
+function toEntry(product) {
+  return { id: product.id, slug: product.slug, name: product.name, price: product.price };
+}
+
+/**
+ * Builds the changelog for a diff.
+ *
+ * @param {ReturnType<import('./diff.mjs').diffCatalogs>} diff - From diffCatalogs()
+ * @param {{ from: string, to: string }} versions - Labels of the compared catalogs
+ * @returns {object} - Changelog, in the shape of CatalogChanges in lib/catalog-changes.ts
+ */
+export function buildChangelog(diff, versions) {
+  const groups = Object.fromEntries(CHANGE_GROUPS.map((group) => [
+    group.key,
+    diff.changed
+      .filter(({ fields }) => group.fields.some((field) => fields.includes(field)))
+      .map(({ before, after }) => ({
+        ...toEntry(after),
+        from: group.value(before),
+        to: group.value(after),
+      })),
+  ]));
+
+  const added = diff.added.map(toEntry);
+  const removed = diff.removed.map(toEntry);
+
+  return {
+    _comment: CHANGES_COMMENT,
+    generatedAt: new Date().toISOString(),
+    from: versions.from,
+    to: versions.to,
+    summary: {
+      added: added.length,
+      removed: removed.length,
+      ...Object.fromEntries(CHANGE_GROUPS.map((group) => [group.key, groups[group.key].length])),
+    },
+    added,
+    removed,
+    ...groups,
+  };
+}
+
+/**
+ * Whether a changelog records any change.
+ *
+ * @param {object} changelog - From buildChangelog()
+ * @returns {boolean}
+ */
+export function hasChanges(changelog) {
+  return Object.values(changelog.summary).some((count) => count > 0);
+}
+
+/**
+ * Escapes Markdown formatting characters in product names.
+ *
+ * @param {string} text - Raw text
+ * @returns {string}
+ */
+function escapeMarkdown(text) {
+  return String(text).replace(/([\\`*_[\]#|<>])/g, '\\$1');
+}
+
+/**
+ * Formats a changelog value for Markdown.
+ *
+ * @param {string} key - Group key
+ * @param {*} value - Price, name, category or image URL
+ * @returns {string}
+ */
+function formatValue(key, value) {
+  if (value === null || value === undefined) {
+    return { repriced: 'no price', recategorized: 'uncategorized' }[key] ?? 'none';
+  }
+  if (key === 'repriced') {
+    return `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  }
+  return escapeMarkdown(value);
+}
+
+/**
+ * Renders a changelog as Markdown.
+ *
+ * @param {object} changelog - From buildChangelog()
+ * @returns {string}
+ */
+export function formatChangelogMarkdown(changelog) {
+  const date = changelog.generatedAt.slice(0, 10);
+  const lines = [
+    '# Catalog changes',
+    '',
+    `Compared \`${changelog.from}\` with \`${changelog.to}\` on ${date}.`,
+    '',
+    ...Object.entries(changelog.summary).map(([key, count]) => `- ${key}: ${count}`),
+  ];
+
+  const describe = (entry) => `${escapeMarkdown(entry.name)} (#${entry.id})`;
+  const sections = [
+    ['Added', changelog.added, (entry) => `${describe(entry)}, ${formatValue('repriced', entry.price)}`],
+    ['Removed', changelog.removed, describe],
+    ...CHANGE_GROUPS.map((group) => [
+      group.title,
+      changelog[group.key],
+      group.key === 'reimaged'
+        ? describe
+        : (entry) => `${describe(entry)}: ${formatValue(group.key, entry.from)} → ${formatValue(group.key, entry.to)}`,
+    ]),
+  ];
+
+  for (const [title, entries, format] of sections) {
+    if (entries.length === 0) continue;
+    lines.push('', `## ${title} (${entries.length})`, '', ...entries.map((entry) => `- ${format(entry)}`));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Saves a changelog as data/catalog-changes.json and .md.
+ *
+ * @param {object} changelog - From buildChangelog()
+ */
+export function writeChangelog(changelog) {
+  writeFileSync(CATALOG_CHANGES_JSON_PATH, `${JSON.stringify(changelog, null, 2)}\n`, 'utf-8');
+  writeFileSync(CATALOG_CHANGES_MARKDOWN_PATH, formatChangelogMarkdown(changelog), 'utf-8');
+}
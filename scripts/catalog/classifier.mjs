@@ -0,0 +1,374 @@
+/**
+ * Category Classifier
+ *
+ * A multinomial naive Bayes classifier over product name tokens, trained
+ * on the products in data/products.json categorized by the sheet, the
+ * keyword rules or a manual decision (never its own predictions). No
+ * dependencies, and the trained model is plain JSON
+ * (data/category-model.json), so builds are reproducible and retraining
+ * shows up in review.
+ *
+ * Used by the categorize stage, together with the keyword rules, for names
+ * the sheet rules can't place: predictions below the model's confidence
+ * threshold, or disagreeing with the rules, leave the product
+ * uncategorized for manual review (/dev/categories).
+ *
+ * `npm run catalog -- classifier evaluate` trains on a held-out split and
+ * reports per-category precision/recall and a confusion matrix;
+ * `classifier train` trains on everything and writes the model.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { CATEGORY_MODEL_PATH } from './files.mjs';
+
+// Bump when the model format changes
+const MODEL_VERSION = 1;
+
+// Laplace smoothing added to every token count
+const SMOOTHING = 1;
+
+// Default minimum probability for the build to trust a prediction
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.9;
+
+// Share of products held out for evaluation (every 5th, by id)
+const TEST_EVERY = 5;
+
+/* ===========================================
+   TOKENIZING
+   =========================================== */
+
+/**
+ * Splits a product name into lowercase word tokens. Numbers and single
+ * letters are dropped, and a plural "s" is stripped so "hoodies" and
+ * "hoodie" count as one token.
+ *
+ * @param {string} name - Product name
+ * @returns {string[]} - e.g. ["chrome", "heart", "hoodie"]
+ */
+export function tokenizeName(name) {
+  return (name.toLowerCase().match(/\p{L}+/gu) || [])
+    .filter((token) => token.length > 1)
+    .map((token) => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+}
+
+/* ===========================================
+   TRAINING & PREDICTION
+   =========================================== */
+
+/**
+ * Trains a model from labeled names.
+ *
+ * @param {{ name: string, category: string }[]} examples - Categorized products
+ * @returns {{ version: number, documentCount: number, vocabularySize: number, categories: Record<string, { documentCount: number, tokenCount: number, tokens: Record<string, number> }> }} - Model
+ */
+export function trainClassifier(examples) {
+  const categories = {};
+  const vocabulary = new Set();
+
+  for (const { name, category } of examples) {
+    const entry = categories[category] ??= { documentCount: 0, tokenCount: 0, tokens: {} };
+    entry.documentCount++;
+
+    for (const token of tokenizeName(name)) {
+      entry.tokens[token] = (entry.tokens[token] || 0) + 1;
+      entry.tokenCount++;
+      vocabulary.add(token);
+    }
+  }
+
+  return {
+    version: MODEL_VERSION,
+    documentCount: examples.length,
+    vocabularySize: vocabulary.size,
+    categories,
+  };
+}
+
+/**
+ * Scores every category for a name.
+ *
+ * @param {object} model - From trainClassifier()
+ * @param {string} name - Product name
+ * @returns {{ category: string, probability: number }[]} - Most likely first;
+ *   empty if the name has no known tokens
+ */
+export function classifyName(model, name) {
+  const tokens = tokenizeName(name);
+  const knownTokens = tokens.filter((token) =>
+    Object.values(model.categories).some((entry) => token in entry.tokens)
+  );
+  if (knownTokens.length === 0) {
+    return [];
+  }
+
+  const logScores = Object.entries(model.categories).map(([category, entry]) => {
+    const denominator = entry.tokenCount + SMOOTHING * model.vocabularySize;
+    let score = Math.log(entry.documentCount / model.documentCount);
+    for (const token of knownTokens) {
+      score += Math.log(((entry.tokens[token] || 0) + SMOOTHING) / denominator);
+    }
+    return { category, score };
+  });
+
+  // Softmax, shifted by the best score to avoid underflow
+  const best = Math.max(...logScores.map((entry) => entry.score));
+  const weights = logScores.map((entry) => ({ ...entry, weight: Math.exp(entry.score - best) }));
+  const total = weights.reduce((sum, entry) => sum + entry.weight, 0);
+
+  return weights
+    .map((entry) => ({ category: entry.category, probability: entry.weight / total }))
+    .sort((a, b) => b.probability - a.probability);
+}
+
+/**
+ * Predicts a category, or null when the model isn't confident enough.
+ *
+ * @param {object} model - Model
+ * @param {string} name - Product name
+ * @param {number} threshold - Minimum probability
+ * @returns {{ category: string, probability: number }|null} - Prediction at or above the threshold
+ */
+export function predictCategory(model, name, threshold) {
+  const [top] = classifyName(model, name);
+  return top && top.probability >= threshold ? top : null;
+}
+
+/**
+ * Combines the keyword rules with a confident prediction. Either one alone
+ * is used; when both answer and disagree, the product is left for manual
+ * review rather than trusting either ("ring" in a hoodie name, or a brand
+ * the model only knows from one category).
+ *
+ * @param {string|null} ruleCategory - From the keyword rules
+ * @param {{ category: string }|null} prediction - From predictCategory()
+ * @returns {{ category: string|null, conflict: boolean }}
+ */
+export function combineWithRules(ruleCategory, prediction) {
+  if (ruleCategory && prediction && ruleCategory !== prediction.category) {
+    return { category: null, conflict: true };
+  }
+  return { category: ruleCategory || prediction?.category || null, conflict: false };
+}
+
+/* ===========================================
+   EVALUATION
+   =========================================== */
+
+/**
+ * Labeled examples from a catalog: every product with a category that the
+ * classifier didn't assign itself (see categorySource in lib/products.ts).
+ * Training or evaluating on its own predictions would only reinforce them
+ * and inflate the accuracy it reports.
+ *
+ * @param {object[]} products - Parsed products.json
+ * @returns {{ id: number, name: string, category: string }[]}
+ */
+export function getTrainingExamples(products) {
+  return products
+    .filter((product) => product.category && product.categorySource !== 'classifier')
+    .map((product) => ({ id: product.id, name: product.name, category: product.category }));
+}
+
+/**
+ * Splits examples into training and held-out sets. Deterministic (every
+ * TEST_EVERY-th id), so reports are comparable between runs.
+ *
+ * @param {{ id: number }[]} examples - Labeled examples
+ * @returns {{ train: object[], test: object[] }}
+ */
+function splitExamples(examples) {
+  return {
+    train: examples.filter((example) => example.id % TEST_EVERY !== 0),
+    test: examples.filter((example) => example.id % TEST_EVERY === 0),
+  };
+}
+
+/**
+ * Divides, returning 0 instead of NaN for an empty denominator.
+ */
+function ratio(numerator, denominator) {
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+/**
+ * Trains on a held-out split and measures the predictions.
+ *
+ * Precision, recall and the confusion matrix count every test product at
+ * its top prediction. The threshold lines show the trade-off the build
+ * makes: coverage is the share of test products given a category,
+ * accuracy is measured on those only. Each threshold is measured for the
+ * classifier alone and combined with the keyword rules (what the build
+ * does), next to the keyword rules alone.
+ *
+ * @param {object[]} products - Parsed products.json
+ * @param {number[]} thresholds - Confidence thresholds to report
+ * @param {(name: string) => string|null} inferFromRules - The keyword rules
+ * @returns {object} - Evaluation report (see formatEvaluation())
+ */
+export function evaluateClassifier(products, thresholds, inferFromRules) {
+  const { train, test } = splitExamples(getTrainingExamples(products));
+  const model = trainClassifier(train);
+  const categories = Object.keys(model.categories);
+
+  const predictions = test.map((example) => {
+    const [top] = classifyName(model, example.name);
+    return { ...example, predicted: top?.category ?? null, probability: top?.probability ?? 0 };
+  });
+
+  const confusion = Object.fromEntries(
+    categories.map((actual) => [actual, Object.fromEntries([...categories, 'none'].map((predicted) => [predicted, 0]))])
+  );
+  for (const prediction of predictions) {
+    if (confusion[prediction.category]) {
+      confusion[prediction.category][prediction.predicted ?? 'none']++;
+    }
+  }
+
+  const perCategory = categories.map((category) => {
+    const truePositives = confusion[category][category];
+    const predictedCount = predictions.filter((prediction) => prediction.predicted === category).length;
+    const actualCount = predictions.filter((prediction) => prediction.category === category).length;
+    const precision = ratio(truePositives, predictedCount);
+    const recall = ratio(truePositives, actualCount);
+    return {
+      category,
+      precision,
+      recall,
+      f1: ratio(2 * precision * recall, precision + recall),
+      support: actualCount,
+    };
+  });
+
+  const correct = predictions.filter((prediction) => prediction.predicted === prediction.category);
+  const ruleCategories = test.map((example) => inferFromRules(example.name));
+
+  /**
+   * Coverage and accuracy of a list of predicted categories (null = none).
+   */
+  const measure = (predicted) => {
+    const covered = test.filter((_, index) => predicted[index]);
+    return {
+      coverage: ratio(covered.length, test.length),
+      accuracy: ratio(test.filter((example, index) => predicted[index] === example.category).length, covered.length),
+    };
+  };
+
+  return {
+    trainCount: train.length,
+    testCount: test.length,
+    accuracy: ratio(correct.length, predictions.length),
+    perCategory,
+    confusion,
+    thresholds: thresholds.map((threshold) => {
+      const confident = predictions.map((prediction) => (prediction.probability >= threshold ? prediction.predicted : null));
+      return {
+        threshold,
+        classifier: measure(confident),
+        combined: measure(confident.map((category, index) =>
+          combineWithRules(ruleCategories[index], category ? { category } : null).category
+        )),
+      };
+    }),
+    rules: measure(ruleCategories),
+    mistakes: predictions
+      .filter((prediction) => prediction.predicted !== prediction.category)
+      .sort((a, b) => b.probability - a.probability),
+  };
+}
+
+/**
+ * Formats a percentage for the report.
+ */
+function percent(value) {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Formats an evaluation as a plain-text report.
+ *
+ * @param {object} report - From evaluateClassifier()
+ * @param {number} maxMistakes - Most confident mistakes to list
+ * @returns {string}
+ */
+export function formatEvaluation(report, maxMistakes) {
+  const lines = [
+    `Trained on ${report.trainCount} products, tested on ${report.testCount} held out (every ${TEST_EVERY}th id)`,
+    `Accuracy: ${percent(report.accuracy)}`,
+    '',
+    'Per category',
+    `  ${'Category'.padEnd(24)}${'Precision'.padStart(10)}${'Recall'.padStart(10)}${'F1'.padStart(10)}${'Support'.padStart(10)}`,
+    ...report.perCategory.map((row) =>
+      `  ${row.category.padEnd(24)}${percent(row.precision).padStart(10)}${percent(row.recall).padStart(10)}${percent(row.f1).padStart(10)}${String(row.support).padStart(10)}`
+    ),
+    '',
+    'Confusion matrix (rows: actual, columns: predicted)',
+  ];
+
+  const categories = report.perCategory.map((row) => row.category);
+  const columns = [...categories, 'none'];
+  const short = (category) => category.slice(0, 6);
+  lines.push(`  ${''.padEnd(24)}${columns.map((column) => short(column).padStart(8)).join('')}`);
+  for (const actual of categories) {
+    lines.push(`  ${actual.padEnd(24)}${columns.map((column) => String(report.confusion[actual][column]).padStart(8)).join('')}`);
+  }
+
+  lines.push(
+    '',
+    'Confidence threshold (coverage = share given a category, accuracy on those)',
+    `  ${''.padEnd(16)}${'Classifier alone'.padEnd(24)}With keyword rules (build)`
+  );
+  const measurement = (result) => `${percent(result.coverage).padStart(6)} ${percent(result.accuracy).padStart(6)}`;
+  for (const row of report.thresholds) {
+    lines.push(`  ≥ ${row.threshold.toFixed(2).padEnd(13)}${measurement(row.classifier).padEnd(24)}${measurement(row.combined)}`);
+  }
+  lines.push(`  ${'Keyword rules'.padEnd(16)}${measurement(report.rules)}`, '');
+
+  if (maxMistakes > 0 && report.mistakes.length > 0) {
+    lines.push(`Most confident mistakes (${Math.min(maxMistakes, report.mistakes.length)} of ${report.mistakes.length})`);
+    for (const mistake of report.mistakes.slice(0, maxMistakes)) {
+      lines.push(`  ${percent(mistake.probability).padStart(6)}  ${mistake.category} → ${mistake.predicted ?? 'none'}: ${mistake.name}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/* ===========================================
+   MODEL FILE
+   =========================================== */
+
+/**
+ * Loads the saved model, or null if none has been trained.
+ *
+ * @returns {object|null} - Model with its threshold
+ * @throws {Error} - If the file is from another model version
+ */
+export function loadCategoryModel() {
+  if (!existsSync(CATEGORY_MODEL_PATH)) {
+    return null;
+  }
+
+  const model = JSON.parse(readFileSync(CATEGORY_MODEL_PATH, 'utf-8'));
+  if (model.version !== MODEL_VERSION) {
+    throw new Error(`data/category-model.json: model version ${model.version}, expected ${MODEL_VERSION} (retrain with npm run catalog -- classifier train)`);
+  }
+  return model;
+}
+
+/**
+ * Trains on every labeled product (see getTrainingExamples()) and saves
+ * the model.
+ *
+ * @param {object[]} products - Parsed products.json
+ * @param {number} threshold - Minimum probability for the build to use a prediction
+ * @returns {object} - The saved model
+ */
+export function saveCategoryModel(products, threshold) {
+  const model = {
+    _comment: 'Naive Bayes category model trained on data/products.json by npm run catalog -- classifier train. Generated, do not edit by hand; change the threshold with --threshold.',
+    ...trainClassifier(getTrainingExamples(products)),
+    threshold,
+  };
+  writeFileSync(CATEGORY_MODEL_PATH, JSON.stringify(model, null, 2) + '\n', 'utf-8');
+  return model;
+}
@@ -0,0 +1,123 @@
+/**
+ * Catalog Diff
+ *
+ * Compares two versions of the catalog: a build against the current
+ * data/products.json, or any two versions with `catalog diff`. Products are
+ * matched by buyUrl, the one field that identifies a listing across
+ * imports. changelog.mjs turns the result into the published changelog.
+ */
+
+// Fields compared between the old and new version of a product
+const COMPARED_FIELDS = [
+  'id',
+  'slug',
+  'name',
+  'brand',
+  'price',
+  'priceText',
+  'category',
+  'subcategory',
+  'imageUrl',
+  'images',
+  'imageAssets',
+];
+
+// Examples printed per group
+const MAX_SAMPLES = 5;
+
+/**
+ * Compares two catalogs.
+ *
+ * @param {object[]} before - Current products
+ * @param {object[]} after - Built products
+ * @returns {{ added: object[], removed: object[], changed: { before: object, after: object, fields: string[] }[], fieldCounts: Record<string, number>, unchanged: number }}
+ */
+export function diffCatalogs(before, after) {
+  const beforeByBuyUrl = new Map(before.map((product) => [product.buyUrl, product]));
+  const afterBuyUrls = new Set(after.map((product) => product.buyUrl));
+
+  const added = after.filter((product) => !beforeByBuyUrl.has(product.buyUrl));
+  const removed = before.filter((product) => !afterBuyUrls.has(product.buyUrl));
+  const changed = [];
+  const fieldCounts = {};
+
+  for (const product of after) {
+    const previous = beforeByBuyUrl.get(product.buyUrl);
+    if (!previous) continue;
+
+    const fields = COMPARED_FIELDS.filter(
+      (field) => JSON.stringify(previous[field]) !== JSON.stringify(product[field])
+    );
+    if (fields.length === 0) continue;
+
+    changed.push({ before: previous, after: product, fields });
+    for (const field of fields) {
+      fieldCounts[field] = (fieldCounts[field] || 0) + 1;
+    }
+  }
+
+  return {
+    added,
+    removed,
+    changed,
+    fieldCounts,
+    unchanged: after.length - added.length - changed.length,
+  };
+}
+
+/**
+ * Formats one changed field for display.
+ *
+ * @param {string} field - Field name
+ * @param {object} before - Old product
+ * @param {object} after - New product
+ * @returns {string} - e.g. 'price: 90 → 85' or 'images' for long values
+ */
+function describeChange(field, before, after) {
+  if (field === 'images' || field === 'imageAssets') {
+    return field;
+  }
+  return `${field}: ${JSON.stringify(before[field])} → ${JSON.stringify(after[field])}`;
+}
+
+/**
+ * Prints a diff summary with a few examples per group.
+ *
+ * @param {ReturnType<typeof diffCatalogs>} diff - From diffCatalogs()
+ */
+export function printDiff(diff) {
+  console.log('\n📊 Changes vs data/products.json');
+  console.log('================================');
+  console.log(`➕ Added: ${diff.added.length}`);
+  console.log(`➖ Removed: ${diff.removed.length}`);
+  console.log(`✏️  Changed: ${diff.changed.length}`);
+  console.log(`✅ Unchanged: ${diff.unchanged}`);
+
+  const fieldSummary = Object.entries(diff.fieldCounts)
+    .sort((a, b) => b[1] - a[1])
+    .map(([field, count]) => `${field} ${count}`);
+  if (fieldSummary.length > 0) {
+    console.log(`   Changed fields: ${fieldSummary.join(', ')}`);
+  }
+
+  if (diff.fieldCounts.id) {
+    console.log(`⚠️  ${diff.fieldCounts.id} existing products would get a different id`);
+  }
+
+  const printSamples = (title, items, format) => {
+    if (items.length === 0) return;
+    console.log(`\n${title}`);
+    for (const item of items.slice(0, MAX_SAMPLES)) {
+      console.log(`   ${format(item)}`);
+    }
+    if (items.length > MAX_SAMPLES) {
+      console.log(`   ... and ${items.length - MAX_SAMPLES} more`);
+    }
+  };
+
+  printSamples('➕ Added', diff.added, (product) => `#${product.id} ${product.name}`);
+  printSamples('➖ Removed', diff.removed, (product) => `#${product.id} ${product.name}`);
+  printSamples('✏️  Changed', diff.changed, ({ before, after, fields }) =>
+    `#${after.id} ${after.name} (${fields.map((field) => describeChange(field, before, after)).join('; ')})`
+  );
+}
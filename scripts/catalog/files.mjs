@@ -0,0 +1,111 @@
+/**
+ * Catalog Files
+ *
+ * Paths of the data files read and written by the catalog pipeline, plus
+ * small helpers for loading them.
+ */
+
+import { execFileSync } from 'child_process';
+import { existsSync, readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join, relative, resolve } from 'path';
+
+// Get the directory of this module
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+// Paths relative to project root
+export const PROJECT_ROOT = join(__dirname, '..', '..');
+export const CSV_INPUT_PATH = join(PROJECT_ROOT, 'data', 'raw', 'Sheet1.csv');
+export const PRODUCTS_JSON_PATH = join(PROJECT_ROOT, 'data', 'products.json');
+export const UNCATEGORIZED_OUTPUT_PATH = join(PROJECT_ROOT, 'data', 'uncategorized-products.json');
+export const UNBRANDED_OUTPUT_PATH = join(PROJECT_ROOT, 'data', 'unbranded-products.json');
+export const SLUG_REDIRECTS_PATH = join(PROJECT_ROOT, 'data', 'slug-redirects.json');
+export const BRAND_ALIASES_PATH = join(PROJECT_ROOT, 'data', 'brand-aliases.json');
+export const ID_REDIRECTS_PATH = join(PROJECT_ROOT, 'data', 'id-redirects.json');
+export const IMAGE_OVERRIDES_PATH = join(PROJECT_ROOT, 'data', 'image-overrides.json');
+export const TAXONOMY_PATH = join(PROJECT_ROOT, 'data', 'taxonomy.json');
+export const CATEGORY_OVERRIDES_PATH = join(PROJECT_ROOT, 'data', 'category-overrides.json');
+export const CATEGORY_MODEL_PATH = join(PROJECT_ROOT, 'data', 'category-model.json');
+export const QC_REPORTS_PATH = join(PROJECT_ROOT, 'data', 'qc-reports.json');
+export const CATALOG_CHANGES_JSON_PATH = join(PROJECT_ROOT, 'data', 'catalog-changes.json');
+export const CATALOG_CHANGES_MARKDOWN_PATH = join(PROJECT_ROOT, 'data', 'catalog-changes.md');
+export const CACHE_DIR = join(PROJECT_ROOT, '.cache', 'catalog');
+
+/**
+ * Reads a text file, or returns an empty string if it doesn't exist.
+ * Used for cache keys, where a missing file is just another input.
+ *
+ * @param {string} path - Absolute file path
+ * @returns {string} - File contents
+ */
+export function readTextIfExists(path) {
+  return existsSync(path) ? readFileSync(path, 'utf-8') : '';
+}
+
+/**
+ * Reads and parses a JSON file.
+ *
+ * @param {string} path - Absolute file path
+ * @param {*} fallback - Returned when the file doesn't exist
+ * @returns {*} - Parsed contents
+ */
+export function readJson(path, fallback) {
+  if (!existsSync(path)) {
+    return fallback;
+  }
+  return JSON.parse(readFileSync(path, 'utf-8'));
+}
+
+/**
+ * Loads the current catalog, which the pipeline builds on (ids, slugs and
+ * images are carried over by buyUrl) and diffs against.
+ *
+ * @returns {{ text: string, products: object[] }} - Raw file and parsed products
+ */
+export function loadCurrentCatalog() {
+  const text = readTextIfExists(PRODUCTS_JSON_PATH);
+  return { text, products: text ? JSON.parse(text) : [] };
+}
+
+/**
+ * Loads a version of the catalog: a products.json file on disk, or the
+ * data/products.json of a git revision (e.g. "HEAD~1").
+ *
+ * @param {string} version - File path or git revision
+ * @returns {object[]} - Parsed products
+ * @throws {Error} - If the version is neither a file nor a known revision
+ */
+export function loadCatalogVersion(version) {
+  if (existsSync(version)) {
+    return JSON.parse(readFileSync(version, 'utf-8'));
+  }
+
+  try {
+    const text = execFileSync('git', ['show', `${version}:data/products.json`], {
+      cwd: PROJECT_ROOT,
+      encoding: 'utf-8',
+      maxBuffer: 64 * 1024 * 1024,
+      stdio: ['ignore', 'pipe', 'ignore'],
+    });
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`"${version}" is neither a products.json file nor a git revision with data/products.json`);
+  }
+}
+
+/**
+ * Labels a catalog version for the changelog. Git revisions are resolved
+ * to a commit hash, since "HEAD~1" stops meaning the same thing.
+ *
+ * @param {string} version - File path or git revision
+ * @returns {string} - e.g. "data/products.json" or "3d126c1"
+ */
+export function describeCatalogVersion(version) {
+  if (existsSync(version)) {
+    return relative(PROJECT_ROOT, resolve(version)) || version;
+  }
+  return execFileSync('git', ['rev-parse', '--short', version], {
+    cwd: PROJECT_ROOT,
+    encoding: 'utf-8',
+  }).trim();
+}
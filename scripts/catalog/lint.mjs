@@ -0,0 +1,231 @@
+/**
+ * Catalog Lint
+ *
+ * Checks data/products.json for problems a shopper would notice. The build
+ * already refuses a structurally broken catalog; lint also reports the data
+ * quality issues that slip through from the sheet.
+ *
+ * Errors (non-zero exit):
+ * - schema: fields that don't match the Product schema (lib/product-schema.ts)
+ * - invalid-url: buyUrls that aren't a recognized listing, broken image URLs
+ * - unparseable-price: price text that isn't a single price ("90-120$")
+ * - price-mismatch: a price that disagrees with its price text
+ * - duplicate-id / duplicate-slug / duplicate-listing
+ *
+ * Warnings:
+ * - suspicious-name: doubled or unbalanced quotes and brackets, a quote
+ *   glued to the next word, or a name that is only the brand
+ * - missing-image: no cover image
+ * - duplicate-name: the same name on different listings
+ * - uncategorized: no category
+ */
+
+import { getListingKey, parseListing } from './listing.mjs';
+import { isHttpUrl, parsePriceText, validateProduct } from '../../lib/product-schema.ts';
+
+// Fields whose schema problems are reported as invalid-url
+const URL_FIELDS = new Set(['buyUrl', 'imageUrl', 'images']);
+
+// Patterns that mark a name as probably mistyped in the sheet
+const SUSPICIOUS_NAME_PATTERNS = [
+  [/""|,,/, 'doubled quote'],
+  [/”\p{L}|\p{L}“/u, 'quote glued to a word'],
+];
+
+/**
+ * Collapses a name for duplicate detection.
+ *
+ * @param {string} name - Product name
+ * @returns {string} - Lowercased name with single spaces
+ */
+function normalizeName(name) {
+  return name.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Counts occurrences of a character in a string.
+ *
+ * @param {string} text - Text to search
+ * @param {RegExp} pattern - Global pattern for the character(s)
+ * @returns {number}
+ */
+function countMatches(text, pattern) {
+  return (text.match(pattern) || []).length;
+}
+
+/**
+ * Explains why a name looks mistyped.
+ *
+ * @param {object} product - Product to check
+ * @returns {string[]} - Reasons, empty if the name looks fine
+ */
+function findNameProblems(product) {
+  const { name, brand } = product;
+  const reasons = SUSPICIOUS_NAME_PATTERNS
+    .filter(([pattern]) => pattern.test(name))
+    .map(([, reason]) => reason);
+
+  if (
+    countMatches(name, /"/g) % 2 !== 0 ||
+    countMatches(name, /[“„]/g) !== countMatches(name, /”/g)
+  ) {
+    reasons.push('unbalanced quotes');
+  }
+  if (countMatches(name, /\(/g) !== countMatches(name, /\)/g)) {
+    reasons.push('unbalanced parentheses');
+  }
+  if (brand && normalizeName(name) === normalizeName(brand)) {
+    reasons.push('name is only the brand');
+  } else if (name.trim().length < 4) {
+    reasons.push('very short name');
+  }
+
+  return reasons;
+}
+
+/**
+ * Groups products by a key and lists every group with more than one.
+ *
+ * @param {object[]} products - Products to group
+ * @param {(product: object) => *} getKey - Grouping key (null skips the product)
+ * @returns {object[][]} - Groups of two or more products
+ */
+function findDuplicateGroups(products, getKey) {
+  const groups = new Map();
+  for (const product of products) {
+    const key = getKey(product);
+    if (key === null || key === undefined) continue;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push(product);
+  }
+  return [...groups.values()].filter((group) => group.length > 1);
+}
+
+/**
+ * Lint rules, in report order. Each finds its issues across the whole
+ * catalog, so per-product and duplicate checks share one shape.
+ */
+const LINT_RULES = [
+  {
+    name: 'schema',
+    severity: 'error',
+    description: 'Fields that do not match the Product schema',
+    find: (products) => products.flatMap((product) =>
+      validateProduct(product)
+        .filter((issue) => !URL_FIELDS.has(issue.field))
+        .map((issue) => ({ product, message: `${issue.field} ${issue.message}` }))
+    ),
+  },
+  {
+    name: 'invalid-url',
+    severity: 'error',
+    description: 'Buy links that are not a recognized listing, and broken image URLs',
+    find: (products) => products.flatMap((product) => {
+      const issues = validateProduct(product)
+        .filter((issue) => URL_FIELDS.has(issue.field))
+        .map((issue) => ({ product, message: `${issue.field} ${issue.message}` }));
+      if (isHttpUrl(product.buyUrl) && !parseListing(product.buyUrl)) {
+        issues.push({ product, message: `buyUrl has no platform item id: ${product.buyUrl}` });
+      }
+      return issues;
+    }),
+  },
+  {
+    name: 'unparseable-price',
+    severity: 'error',
+    description: 'Price text that is not a single price',
+    find: (products) => products
+      .filter((product) => typeof product.priceText === 'string' && parsePriceText(product.priceText) === null)
+      .map((product) => ({ product, message: `price text ${JSON.stringify(product.priceText)}` })),
+  },
+  {
+    name: 'price-mismatch',
+    severity: 'error',
+    description: 'Prices that disagree with their price text (re-run the build)',
+    find: (products) => products
+      .filter((product) => {
+        const parsed = typeof product.priceText === 'string' ? parsePriceText(product.priceText) : null;
+        return parsed !== null && parsed !== product.price;
+      })
+      .map((product) => ({ product, message: `price ${product.price}, price text ${JSON.stringify(product.priceText)}` })),
+  },
+  {
+    name: 'duplicate-id',
+    severity: 'error',
+    description: 'Ids shared by several products',
+    find: (products) => findDuplicateGroups(products, (product) => product.id)
+      .flatMap((group) => group.slice(1).map((product) => ({ product, message: `id ${product.id} used ${group.length} times` }))),
+  },
+  {
+    name: 'duplicate-slug',
+    severity: 'error',
+    description: 'Slugs shared by several products',
+    find: (products) => findDuplicateGroups(products, (product) => product.slug)
+      .flatMap((group) => group.slice(1).map((product) => ({ product, message: `slug "${product.slug}" used ${group.length} times` }))),
+  },
+  {
+    name: 'duplicate-listing',
+    severity: 'error',
+    description: 'The same listing imported more than once',
+    find: (products) => findDuplicateGroups(products, (product) => {
+      const listing = isHttpUrl(product.buyUrl) ? parseListing(product.buyUrl) : null;
+      return listing ? getListingKey(listing) : product.buyUrl;
+    }).flatMap((group) => group.slice(1).map((product) => ({ product, message: `same listing as id ${group[0].id}` }))),
+  },
+  {
+    name: 'suspicious-name',
+    severity: 'warning',
+    description: 'Names that look mistyped in the sheet',
+    find: (products) => products
+      .filter((product) => typeof product.name === 'string')
+      .flatMap((product) => {
+        const reasons = findNameProblems(product);
+        return reasons.length > 0 ? [{ product, message: reasons.join(', ') }] : [];
+      }),
+  },
+  {
+    name: 'missing-image',
+    severity: 'warning',
+    description: 'Products without a cover image',
+    find: (products) => products
+      .filter((product) => !product.imageUrl)
+      .map((product) => ({ product, message: 'no image (add one to image-overrides.json)' })),
+  },
+  {
+    name: 'duplicate-name',
+    severity: 'warning',
+    description: 'The same name on different listings',
+    find: (products) => findDuplicateGroups(
+      products,
+      (product) => (typeof product.name === 'string' ? normalizeName(product.name) : null)
+    ).flatMap((group) => group.slice(1).map((product) => ({ product, message: `same name as id ${group[0].id}` }))),
+  },
+  {
+    name: 'uncategorized',
+    severity: 'warning',
+    description: 'Products without a category',
+    find: (products) => products
+      .filter((product) => product.category === null)
+      .map((product) => ({ product, message: 'no category' })),
+  },
+];
+
+/**
+ * Runs every lint rule over a catalog.
+ *
+ * @param {object[]} products - Products from data/products.json
+ * @returns {{ rule: string, severity: string, description: string, issues: object[] }[]} -
+ *   One entry per rule; issues are { id, name, message }
+ */
+export function lintCatalog(products) {
+  return LINT_RULES.map((rule) => ({
+    rule: rule.name,
+    severity: rule.severity,
+    description: rule.description,
+    issues: rule.find(products).map(({ product, message }) => ({
+      id: product.id ?? null,
+      name: product.name ?? null,
+      message,
+    })),
+  }));
+}
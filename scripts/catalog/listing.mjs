@@ -0,0 +1,55 @@
+/**
+ * Marketplace Listings
+ *
+ * Product IDs are derived from the marketplace listing behind each buyUrl,
+ * platform and item ID together. Neither ever changes for a listing, so a
+ * product keeps its ID however the sheet is reordered, and even if its agent
+ * link or ref code changes.
+ *
+ * Link parsing lives in lib/seller.ts (shared with the site, which builds
+ * buy links for other shopping agents from the same listing); this module
+ * re-exports it for the catalog scripts, which run through tsx.
+ */
+
+export { getListingKey, parseListing } from '../../lib/seller.ts';
+
+// Source of the parsing rules, for stage cache keys (see pipeline.mjs)
+export const LISTING_SOURCES = [
+  import.meta.url,
+  new URL('../../lib/seller.ts', import.meta.url).href,
+];
+
+/**
+ * Item IDs per platform block. Every block fits 15-digit item IDs (today's
+ * are 10 to 12 digits), and nine blocks stay below Number.MAX_SAFE_INTEGER.
+ */
+const PLATFORM_BLOCK_SIZE = 1e15;
+
+/**
+ * Block of the ID space reserved for each platform. Weidian, where the
+ * whole catalog came from when IDs were introduced, is block 0, so its IDs
+ * are the bare item IDs. Append new platforms; never renumber.
+ */
+const PLATFORM_BLOCKS = {
+  weidian: 0,
+  taobao: 1,
+  1688: 2,
+};
+
+/**
+ * Product ID for a listing: the platform item ID, offset into its
+ * platform's block, so listings on different platforms that share an item
+ * ID still get different IDs. Returns null for item IDs too large for a
+ * block.
+ *
+ * @param {{ platform: string, itemId: string }} listing - From parseListing()
+ * @returns {number|null} - e.g. 7611168397 (weidian), 1000674321987654 (taobao)
+ */
+export function deriveProductId(listing) {
+  const itemId = Number(listing.itemId);
+  const block = PLATFORM_BLOCKS[listing.platform];
+  if (block === undefined || !Number.isSafeInteger(itemId) || itemId <= 0 || itemId >= PLATFORM_BLOCK_SIZE) {
+    return null;
+  }
+  return block * PLATFORM_BLOCK_SIZE + itemId;
+}
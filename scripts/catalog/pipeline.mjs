@@ -0,0 +1,133 @@
+/**
+ * Catalog Pipeline Runner
+ *
+ * Runs the catalog stages in order, feeding each stage's records into the
+ * next. Every stage result is cached in .cache/catalog/<stage>.json under a
+ * key hashed from:
+ * - the previous stage's key (so any upstream change invalidates it)
+ * - the stage's own source file and helper modules (so code edits invalidate it)
+ * - the stage's declared inputs (data files, flags)
+ *
+ * A stage whose key matches its cache entry is skipped, so re-running a
+ * build after e.g. editing brand-aliases.json only re-runs normalize and
+ * the stages after it.
+ *
+ * A stage is an object:
+ *   name         Short id, also the cache file name
+ *   description  One line shown in the build log
+ *   source       The module's import.meta.url
+ *   imports      URLs of helper modules the stage relies on (optional)
+ *   inputs       (context) => values hashed into the cache key (optional)
+ *   cacheable    false for stages with side effects (default true)
+ *   run          (records, context) => { records, stats, artifacts? }
+ *
+ * `stats` are printed under the stage; `artifacts` are merged into
+ * context.artifacts for later stages (e.g. slug redirects for write).
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { join } from 'path';
+import { CACHE_DIR } from './files.mjs';
+
+// Bump when the shape of cached results changes
+const PIPELINE_VERSION = 1;
+
+/**
+ * Hashes a list of values into a cache key.
+ *
+ * @param {Array<*>} parts - Strings are hashed as-is, everything else as JSON
+ * @returns {string} - Hex SHA-256 digest
+ */
+function hashParts(parts) {
+  const hash = createHash('sha256');
+  for (const part of parts) {
+    hash.update(typeof part === 'string' ? part : JSON.stringify(part ?? null));
+    hash.update('\0');
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Returns a stage's cached result if it was stored under `key`.
+ *
+ * @param {string} stageName - Stage name
+ * @param {string} key - Current cache key
+ * @returns {object|null} - Cached result or null on a miss
+ */
+function readCachedResult(stageName, key) {
+  const cachePath = join(CACHE_DIR, `${stageName}.json`);
+  if (!existsSync(cachePath)) {
+    return null;
+  }
+
+  try {
+    const cached = JSON.parse(readFileSync(cachePath, 'utf-8'));
+    return cached.key === key ? cached.result : null;
+  } catch {
+    // Corrupt or partially written cache file: treat as a miss
+    return null;
+  }
+}
+
+/**
+ * Stores a stage result (one entry per stage, replacing the previous one).
+ *
+ * @param {string} stageName - Stage name
+ * @param {string} key - Cache key
+ * @param {object} result - Stage result
+ */
+function writeCachedResult(stageName, key, result) {
+  mkdirSync(CACHE_DIR, { recursive: true });
+  writeFileSync(join(CACHE_DIR, `${stageName}.json`), JSON.stringify({ key, result }), 'utf-8');
+}
+
+/**
+ * Runs every stage in order and logs its stats.
+ *
+ * @param {object[]} stages - Stages (see file comment)
+ * @param {{ options: { useCache: boolean }, artifacts: object }} context - Shared build context
+ * @returns {Promise<object[]>} - Records returned by the last stage
+ */
+export async function runPipeline(stages, context) {
+  let records = [];
+  let previousKey = `pipeline-v${PIPELINE_VERSION}`;
+
+  for (const [index, stage] of stages.entries()) {
+    const cacheable = stage.cacheable !== false;
+    const key = hashParts([
+      previousKey,
+      stage.name,
+      ...[stage.source, ...(stage.imports || [])].map((url) => readFileSync(fileURLToPath(url), 'utf-8')),
+      ...(stage.inputs ? stage.inputs(context) : []),
+    ]);
+
+    console.log(`\n🔹 [${index + 1}/${stages.length}] ${stage.name}: ${stage.description}`);
+
+    const startTime = Date.now();
+    let result = cacheable && context.options.useCache
+      ? readCachedResult(stage.name, key)
+      : null;
+
+    if (result) {
+      console.log('   ♻️  Cached (inputs unchanged)');
+    } else {
+      result = await stage.run(records, context);
+      if (cacheable) {
+        writeCachedResult(stage.name, key, result);
+      }
+      console.log(`   ⏱️  ${Date.now() - startTime}ms`);
+    }
+
+    for (const [label, value] of Object.entries(result.stats)) {
+      console.log(`   ${label}: ${value}`);
+    }
+
+    records = result.records;
+    Object.assign(context.artifacts, result.artifacts);
+    previousKey = key;
+  }
+
+  return records;
+}
@@ -0,0 +1,335 @@
+/**
+ * Categorize Stage
+ *
+ * Assigns each product one of the site categories from data/taxonomy.json
+ * (loaded through lib/categories.ts):
+ * 1. Uses the manual decision in data/category-overrides.json, if any
+ *    (made on the /dev/categories triage page)
+ * 2. Otherwise tries to map its sheet category with the sheetRules
+ * 3. If null, infers it from the product name with the nameRules and the
+ *    trained classifier (data/category-model.json, see ../classifier.mjs):
+ *    either one alone is used, a disagreement is left for review, and the
+ *    classifier only counts at or above the model's confidence threshold
+ * 4. If still null, leaves it as null (listed in
+ *    data/uncategorized-products.json with suggestions for manual review)
+ *
+ * Categorized products also get the first subcategory of their category
+ * with a keyword in the name, or null, and record which step assigned the
+ * category (`categorySource`), so the classifier is never retrained on its
+ * own predictions.
+ */
+
+import { combineWithRules, loadCategoryModel, predictCategory } from '../classifier.mjs';
+import {
+  CATEGORY_MODEL_PATH,
+  CATEGORY_OVERRIDES_PATH,
+  TAXONOMY_PATH,
+  readJson,
+  readTextIfExists,
+} from '../files.mjs';
+import { LISTING_SOURCES, deriveProductId, parseListing } from '../listing.mjs';
+import {
+  NEW_CATEGORIES,
+  getCategoryDefinitions,
+  getCategoryMatchOrder,
+} from '../../../lib/categories.ts';
+
+/**
+ * Maps a sheet category header to a site category.
+ *
+ * @param {string|null} oldCategory - The category header from the sheet
+ * @returns {string|null} - The site category, or null if no rule matches
+ */
+function mapOldCategoryToNew(oldCategory) {
+  if (!oldCategory) return null;
+
+  const normalized = oldCategory.trim().toLowerCase();
+  const match = getCategoryMatchOrder().find(({ sheetRules }) =>
+    sheetRules.exact.includes(normalized) ||
+    sheetRules.contains.some((keyword) => normalized.includes(keyword))
+  );
+  return match ? match.name : null;
+}
+
+// Match strength of a keyword found as a whole word vs. only at the start
+// of a longer word ("socks", "jacket/hoodie"), for suggestion confidence
+const WHOLE_WORD_STRENGTH = 1;
+const WORD_PREFIX_STRENGTH = 0.5;
+
+/**
+ * Escapes a keyword for use in a regular expression.
+ *
+ * @param {string} text - Keyword
+ * @returns {string} - Escaped keyword
+ */
+function escapeRegExp(text) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Checks for a whole word: start of string, space, or hyphen before/after.
+ *
+ * @param {string} productName - Product name
+ * @param {string} word - Lowercase keyword
+ * @returns {boolean}
+ */
+function hasWord(productName, word) {
+  return new RegExp(`(^|[\\s-])${escapeRegExp(word)}([\\s-]|$)`, 'i').test(productName);
+}
+
+/**
+ * Checks for a keyword at the start of any word, including longer words
+ * and words after punctuation (e.g. "sock" in "socks").
+ *
+ * @param {string} productName - Product name
+ * @param {string} word - Lowercase keyword
+ * @returns {boolean}
+ */
+function hasWordPrefix(productName, word) {
+  return new RegExp(`(^|[^\\p{L}])${escapeRegExp(word)}`, 'iu').test(productName);
+}
+
+/**
+ * Checks for a whole word or its plural ("hoodie" in "2 hoodies"), with
+ * any non-letter as a word boundary.
+ *
+ * @param {string} productName - Product name
+ * @param {string} word - Lowercase keyword
+ * @returns {boolean}
+ */
+function hasWordOrPlural(productName, word) {
+  return new RegExp(`(^|[^\\p{L}])${escapeRegExp(word)}(e?s)?([^\\p{L}]|$)`, 'iu').test(productName);
+}
+
+/**
+ * Picks the subcategory for a categorized product: the first subcategory
+ * of its category with a keyword in the name.
+ *
+ * @param {string} category - The product's category
+ * @param {string} productName - Product name
+ * @returns {string|null} - Subcategory name, or null if none match
+ */
+function matchSubcategory(category, productName) {
+  const definition = getCategoryDefinitions().find((entry) => entry.name === category);
+  const match = definition?.subcategories.find((subcategory) =>
+    subcategory.keywords.some((keyword) => hasWordOrPlural(productName, keyword))
+  );
+  return match ? match.name : null;
+}
+
+/**
+ * Finds the keywords of each name rule in a product name.
+ *
+ * @param {string} productName - Product name
+ * @returns {{ category: string, keywords: { keyword: string, strength: number }[] }[]} - Rules with at least one match, in rule order
+ */
+function matchNameRules(productName) {
+  const normalized = productName.toLowerCase();
+  const matches = [];
+
+  for (const { name: category, nameRules: rule } of getCategoryMatchOrder()) {
+    const keywords = [];
+
+    for (const word of rule.words) {
+      if (hasWord(productName, word)) {
+        keywords.push({ keyword: word, strength: WHOLE_WORD_STRENGTH });
+      } else if (hasWordPrefix(productName, word)) {
+        keywords.push({ keyword: word, strength: WORD_PREFIX_STRENGTH });
+      }
+    }
+    for (const phrase of rule.phrases) {
+      if (normalized.includes(phrase)) {
+        keywords.push({ keyword: phrase, strength: WHOLE_WORD_STRENGTH });
+      }
+    }
+    for (const combo of rule.combos) {
+      if (combo.every((word) => hasWord(productName, word))) {
+        keywords.push({ keyword: combo.join(' + '), strength: WHOLE_WORD_STRENGTH });
+      }
+    }
+
+    if (keywords.length > 0) {
+      matches.push({ category, keywords });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Infers category from product name using the whole-word nameRules.
+ *
+ * @param {string} productName - The product name to analyze
+ * @returns {string|null} - Inferred category, or null if no match
+ */
+export function inferCategoryFromName(productName) {
+  if (!productName) return null;
+
+  const match = matchNameRules(productName).find((rule) =>
+    rule.keywords.some((keyword) => keyword.strength === WHOLE_WORD_STRENGTH)
+  );
+  // No inference found - be conservative
+  return match ? match.category : null;
+}
+
+/**
+ * Suggests categories for a product name, for manual review, with a
+ * confidence between 0 and 1.
+ *
+ * Uses the same rules as inferCategoryFromName(), but also counts keywords
+ * at the start of a longer word ("socks"), at half strength. Confidence is
+ * the category's share of all matched keywords, scaled by its strongest
+ * match, so a lone whole-word match is 1 and competing or partial matches
+ * are lower.
+ *
+ * Examples:
+ * - "From The Island extra long socks" → Accessories 0.5 (partial "sock")
+ * - "WLNEXT Duplicate jacket/hoodie" → Outerwear 0.25, Tops 0.25
+ *
+ * @param {string} productName - The product name to analyze
+ * @returns {{ category: string, confidence: number, keywords: string[] }[]} - Most confident first
+ */
+export function suggestCategories(productName) {
+  if (!productName) return [];
+
+  const matches = matchNameRules(productName).map((rule) => ({
+    category: rule.category,
+    keywords: rule.keywords.map((match) => match.keyword),
+    score: rule.keywords.reduce((sum, match) => sum + match.strength, 0),
+    strength: Math.max(...rule.keywords.map((match) => match.strength)),
+  }));
+  const totalScore = matches.reduce((sum, match) => sum + match.score, 0);
+
+  return matches
+    .map((match) => ({
+      category: match.category,
+      confidence: Math.round((match.score / totalScore) * match.strength * 100) / 100,
+      keywords: match.keywords,
+    }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Loads the manual category decisions, keyed by product id. A null
+ * category means "reviewed, leave uncategorized".
+ *
+ * @returns {Map<number, string|null>} - Product id -> category
+ * @throws {Error} - If a decision names an unknown category
+ */
+function loadCategoryOverrides() {
+  const overrides = new Map();
+
+  for (const [key, category] of Object.entries(readJson(CATEGORY_OVERRIDES_PATH, {}))) {
+    if (key.startsWith('_')) continue;
+
+    if (!/^\d+$/.test(key)) {
+      throw new Error(`data/category-overrides.json: "${key}" is not a product id`);
+    }
+    if (category !== null && !NEW_CATEGORIES.includes(category)) {
+      throw new Error(`data/category-overrides.json: product ${key}: unknown category ${JSON.stringify(category)}`);
+    }
+    overrides.set(Number(key), category);
+  }
+
+  return overrides;
+}
+
+export const categorizeStage = {
+  name: 'categorize',
+  description: 'Apply manual decisions, map sheet categories and classify the rest by name',
+  source: import.meta.url,
+  imports: [
+    ...LISTING_SOURCES,
+    new URL('../classifier.mjs', import.meta.url).href,
+    new URL('../../../lib/categories.ts', import.meta.url).href,
+  ],
+
+  inputs: () => [
+    readTextIfExists(TAXONOMY_PATH),
+    readTextIfExists(CATEGORY_OVERRIDES_PATH),
+    readTextIfExists(CATEGORY_MODEL_PATH),
+  ],
+
+  /**
+   * @param {object[]} records - Normalized records
+   * @returns {{ records: object[], stats: object }} - Records with a category and
+   *   subcategory (or null), plus categorySuggestions for the uncategorized ones
+   */
+  run(records) {
+    const overrides = loadCategoryOverrides();
+    const model = loadCategoryModel();
+    let overridden = 0;
+    let classified = 0;
+    let classifierOnly = 0;
+    let conflicts = 0;
+
+    // Keyword rules plus the classifier, if one is trained. Agreeing
+    // predictions count as rules, so only the classifier's own calls are
+    // marked (and left out of its training data)
+    const inferFromName = (name) => {
+      const ruleCategory = inferCategoryFromName(name);
+      const prediction = model ? predictCategory(model, name, model.threshold) : null;
+      const { category, conflict } = combineWithRules(ruleCategory, prediction);
+      if (conflict) {
+        conflicts++;
+      } else if (prediction) {
+        classified++;
+        if (!ruleCategory) {
+          classifierOnly++;
+        }
+      }
+      return { category, source: ruleCategory ? 'rules' : 'classifier' };
+    };
+
+    const categorized = records.map((record) => {
+      // Ids aren't assigned until dedupe, so derive the listing's id here
+      const listing = parseListing(record.buyUrl);
+      const id = listing ? deriveProductId(listing) : null;
+
+      let category;
+      let categorySource;
+      if (overrides.has(id)) {
+        overridden++;
+        category = overrides.get(id);
+        categorySource = 'override';
+      } else {
+        category = mapOldCategoryToNew(record.sheetCategory);
+        categorySource = 'sheet';
+        if (!category) {
+          ({ category, source: categorySource } = inferFromName(record.name));
+        }
+        if (!category) {
+          return {
+            ...record,
+            category: null,
+            categorySource: null,
+            subcategory: null,
+            categorySuggestions: suggestCategories(record.name),
+          };
+        }
+      }
+
+      return {
+        ...record,
+        category,
+        categorySource: category ? categorySource : null,
+        subcategory: category ? matchSubcategory(category, record.name) : null,
+      };
+    });
+
+    const stats = {
+      'Manual decisions applied': overridden,
+      'Classifier model': model ? `trained, confidence threshold ${model.threshold}` : 'none (npm run catalog -- classifier train)',
+      'Confident classifier predictions used': classified,
+      'Categorized by the classifier alone (not trained on)': classifierOnly,
+      'Rules and classifier disagree (left for review)': conflicts,
+    };
+    for (const category of NEW_CATEGORIES) {
+      stats[category] = categorized.filter((record) => record.category === category).length;
+    }
+    stats['Uncategorized'] = categorized.filter((record) => !record.category).length;
+    stats['With a subcategory'] = categorized.filter((record) => record.subcategory).length;
+
+    return { records: categorized, stats };
+  },
+};
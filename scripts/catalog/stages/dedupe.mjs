@@ -0,0 +1,206 @@
+/**
+ * Dedupe Stage
+ *
+ * Drops repeated listings (the sheet lists some products under several
+ * categories) and gives every product a stable identity:
+ * - The id is derived from the platform and item ID in the buyUrl (see
+ *   ../listing.mjs),
+ *   so inserting, removing or reordering sheet rows never renumbers
+ *   anything, and id-keyed files (image-overrides.json, qc-reports.json)
+ *   stay attached to the right product
+ * - Duplicates are rows pointing at the same listing; the first one wins
+ * - Products already in data/products.json (same id) keep their slug;
+ *   new products get a slug from their name
+ *
+ * Rows whose buyUrl isn't a recognized listing get a null id, which the
+ * validate stage reports.
+ */
+
+import {
+  SLUG_REDIRECTS_PATH,
+  readJson,
+  readTextIfExists,
+} from '../files.mjs';
+import { LISTING_SOURCES, deriveProductId, getListingKey, parseListing } from '../listing.mjs';
+
+/* ===========================================
+   SLUGS
+   =========================================== */
+
+/**
+ * Converts a product name to a URL-safe slug.
+ * Must match slugify() in lib/slugs.ts
+ * 
+ * @param {string} name - The product name to convert
+ * @returns {string} - URL-safe lowercase slug
+ */
+function slugify(name) {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^\w\s-]/g, '') // Remove special characters except spaces and hyphens
+    .replace(/\s+/g, '-') // Replace spaces with hyphens
+    .replace(/-+/g, '-') // Replace multiple hyphens with single hyphen
+    .replace(/^-|-$/g, ''); // Remove leading/trailing hyphens
+}
+
+/**
+ * Returns the first slug derived from `base` that is not already taken.
+ * The first product keeps the bare slug, later ones get "-2", "-3", ...
+ * so that links shared before slugs were persisted keep resolving.
+ * 
+ * @param {string} base - Slug derived from the product name
+ * @param {Set<string>} taken - Slugs already in use (mutated)
+ * @returns {string} - Unique slug
+ */
+function claimUniqueSlug(base, taken) {
+  const root = base || 'product';
+  let slug = root;
+  let suffix = 2;
+
+  while (taken.has(slug)) {
+    slug = `${root}-${suffix}`;
+    suffix++;
+  }
+
+  taken.add(slug);
+  return slug;
+}
+
+/**
+ * Assigns a persisted slug to every product.
+ * 
+ * - Products already in products.json (same id) keep their slug,
+ *   even if their name was edited in the sheet.
+ * - With `reslug`, renamed products get a fresh slug from their new name and
+ *   the old slug is recorded in `redirects` so it can 301 to the new one.
+ * - New products get a slug from their name, disambiguated on collision.
+ * 
+ * Existing slugs and redirect sources are reserved first so a new product
+ * can never take over a URL that already points somewhere.
+ * 
+ * @param {object[]} products - Products to assign slugs to (mutated)
+ * @param {Map<number, {slug: string, name: string}>} existingSlugMap - Product id -> previous slug/name
+ * @param {Record<string, string>} redirects - Old slug -> current slug (mutated)
+ * @param {boolean} reslug - Whether to re-derive slugs for renamed products
+ * @returns {{ created: number, renamed: number }} - Counts for reporting
+ */
+function assignSlugs(products, existingSlugMap, redirects, reslug) {
+  const taken = new Set(Object.keys(redirects).filter((key) => !key.startsWith('_')));
+  const pending = [];
+  let created = 0;
+  let renamed = 0;
+
+  // Pass 1: keep slugs of known products
+  for (const product of products) {
+    const existing = existingSlugMap.get(product.id);
+    const isRenamed = existing && existing.name !== product.name;
+
+    if (existing && !(reslug && isRenamed && slugify(product.name) !== existing.slug)) {
+      product.slug = existing.slug;
+      taken.add(existing.slug);
+    } else {
+      // A re-slugged product's old slug becomes a redirect source
+      if (existing) taken.add(existing.slug);
+      pending.push(product);
+    }
+  }
+
+  // Pass 2: derive slugs for new (or re-slugged) products
+  for (const product of pending) {
+    const existing = existingSlugMap.get(product.id);
+    const base = slugify(product.name);
+
+    // A product renamed back to an earlier name reclaims its old slug
+    if (existing && redirects[base] === existing.slug) {
+      delete redirects[base];
+      taken.delete(base);
+    }
+
+    product.slug = claimUniqueSlug(base, taken);
+
+    if (existing) {
+      redirects[existing.slug] = product.slug;
+      renamed++;
+    } else {
+      created++;
+    }
+  }
+
+  // Collapse redirect chains (a -> b -> c becomes a -> c)
+  for (const [from, to] of Object.entries(redirects)) {
+    if (from.startsWith('_')) continue;
+
+    let target = to;
+    const visited = new Set([from]);
+    while (redirects[target] && !visited.has(target)) {
+      visited.add(target);
+      target = redirects[target];
+    }
+    redirects[from] = target;
+  }
+
+  return { created, renamed };
+}
+
+export const dedupeStage = {
+  name: 'dedupe',
+  description: 'Drop duplicate listings, assign stable ids and slugs',
+  source: import.meta.url,
+  imports: LISTING_SOURCES,
+
+  inputs: (context) => [
+    context.current.text,
+    readTextIfExists(SLUG_REDIRECTS_PATH),
+    context.options.reslug,
+  ],
+
+  /**
+   * @param {object[]} records - Categorized records
+   * @param {object} context - Build context (current catalog, options)
+   * @returns {{ records: object[], stats: object, artifacts: object }} - Unique records with id and slug
+   */
+  run(records, context) {
+    const seenListings = new Set();
+    const products = [];
+    let unrecognizedCount = 0;
+
+    for (const record of records) {
+      const listing = parseListing(record.buyUrl);
+      const key = listing ? getListingKey(listing) : record.buyUrl;
+      if (seenListings.has(key)) continue;
+      seenListings.add(key);
+
+      if (!listing) unrecognizedCount++;
+
+      // id and slug first, matching the key order of products.json
+      products.push({
+        id: listing ? deriveProductId(listing) : null,
+        slug: null,
+        ...record,
+      });
+    }
+
+    // Previous slug/name per id, and the slug redirect history
+    const existingSlugMap = new Map(
+      context.current.products
+        .filter((product) => product.slug)
+        .map((product) => [product.id, { slug: product.slug, name: product.name }])
+    );
+    const slugRedirects = readJson(SLUG_REDIRECTS_PATH, {});
+    const slugStats = assignSlugs(products, existingSlugMap, slugRedirects, context.options.reslug);
+
+    const stats = {
+      'Duplicates removed': records.length - products.length,
+      'Unique products': products.length,
+      'Already in catalog': products.filter((product) => existingSlugMap.has(product.id)).length,
+      'Unrecognized buyUrls': unrecognizedCount,
+      'New slugs': slugStats.created,
+    };
+    if (context.options.reslug) {
+      stats['Slugs re-derived for renamed products'] = slugStats.renamed;
+    }
+
+    return { records: products, stats, artifacts: { slugRedirects } };
+  },
+};
@@ -0,0 +1,94 @@
+/**
+ * Enrich Images Stage
+ *
+ * Carries each product's cover, gallery and self-hosted variants over from
+ * data/products.json (matched by id), since the sheet has no images.
+ *
+ * With --fetch-images, products still without a cover are looked up on
+ * Weidian (same fetch as scripts/fetch-weidian-images.mjs). Self-hosted
+ * variants for new images are generated separately by
+ * scripts/optimize-images.mjs.
+ */
+
+import { processBatch } from '../../fetch-weidian-images.mjs';
+
+// Configuration
+const CONCURRENT_REQUESTS = 5;
+const DEFAULT_IMAGE_PLACEHOLDER = '/images/placeholder-item.png'; // Legacy value, treated as no image
+
+/**
+ * Maps product id -> images for every current product that has a cover.
+ *
+ * @param {object[]} currentProducts - Products in data/products.json
+ * @returns {Map<number, { imageUrl: string, images: string[], imageAssets: object[] }>}
+ */
+function buildImageMap(currentProducts) {
+  const imageMap = new Map();
+
+  for (const product of currentProducts) {
+    if (product.imageUrl && product.imageUrl !== DEFAULT_IMAGE_PLACEHOLDER) {
+      imageMap.set(product.id, {
+        imageUrl: product.imageUrl,
+        images: product.images || [product.imageUrl],
+        imageAssets: product.imageAssets || [],
+      });
+    }
+  }
+
+  return imageMap;
+}
+
+export const imagesStage = {
+  name: 'images',
+  description: 'Enrich images (carry over, optionally fetch new)',
+  source: import.meta.url,
+  imports: [new URL('../../fetch-weidian-images.mjs', import.meta.url).href],
+
+  inputs: (context) => [context.current.text, context.options.fetchImages],
+
+  /**
+   * @param {object[]} records - Deduplicated records
+   * @param {object} context - Build context (current catalog, options)
+   * @returns {Promise<{ records: object[], stats: object }>} - Records with image fields
+   */
+  async run(records, context) {
+    const imageMap = buildImageMap(context.current.products);
+
+    // null = no image yet; the UI shows its own "No image" state
+    const products = records.map((record) => {
+      const existing = imageMap.get(record.id);
+      return {
+        ...record,
+        imageUrl: existing?.imageUrl || null,
+        images: existing?.images || [],
+        imageAssets: existing?.imageAssets || [],
+      };
+    });
+
+    const stats = { 'Images carried over': products.filter((product) => product.imageUrl).length };
+
+    if (context.options.fetchImages) {
+      const targets = products.filter((product) => !product.imageUrl && product.id);
+      const onProgress = (completed, total) => {
+        process.stdout.write(`\r   📦 Fetching from Weidian: ${completed}/${total}`);
+      };
+
+      const fetched = await processBatch(targets, CONCURRENT_REQUESTS, onProgress);
+      if (targets.length > 0) process.stdout.write('\n');
+
+      for (const product of targets) {
+        const images = fetched.get(product.id);
+        if (images) {
+          product.imageUrl = images[0];
+          product.images = images;
+        }
+      }
+
+      stats['Images fetched'] = fetched.size;
+    }
+
+    stats['Without an image'] = products.filter((product) => !product.imageUrl).length;
+
+    return { records: products, stats };
+  },
+};
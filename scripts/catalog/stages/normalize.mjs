@@ -0,0 +1,136 @@
+/**
+ * Normalize Stage
+ *
+ * Cleans the raw sheet fields and derives the structured ones:
+ * - Collapses whitespace and newlines in names and sheet categories
+ * - Parses the price text ("90.00$", "1,090.80$") into a number with
+ *   parsePriceText() from lib/product-schema.ts, the parser the lint uses
+ * - Extracts a brand from the start of the name using data/brand-aliases.json
+ */
+
+import { BRAND_ALIASES_PATH, readJson, readTextIfExists } from '../files.mjs';
+import { parsePriceText } from '../../../lib/product-schema.ts';
+
+/**
+ * Collapses newlines and repeated spaces into single spaces.
+ * Multi-line names like "Balenciaga x Adidas\nLeather Duffel" become
+ * "Balenciaga x Adidas Leather Duffel".
+ *
+ * @param {string} text - Raw product or category name
+ * @returns {string} - Cleaned text
+ */
+function cleanWhitespace(text) {
+  return text.replace(/[\r\n]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Builds a brand matcher from the alias dictionary.
+ * Every brand matches its own display name plus its aliases. Entries are
+ * sorted longest first so "Polo Ralph Lauren" wins over shorter prefixes.
+ *
+ * @param {{ qualifiers: string[], brands: Record<string, string[]> }} aliasData - Parsed brand-aliases.json
+ * @returns {{ qualifiers: string[], aliases: [string, string][] }} - Matcher for extractBrand()
+ */
+function buildBrandMatcher(aliasData) {
+  const aliases = [];
+
+  for (const [brand, brandAliases] of Object.entries(aliasData.brands)) {
+    for (const alias of [brand, ...brandAliases]) {
+      aliases.push([alias.toLowerCase(), brand]);
+    }
+  }
+
+  const byLengthDesc = (a, b) => b.length - a.length;
+
+  return {
+    qualifiers: aliasData.qualifiers.map((q) => q.toLowerCase()).sort(byLengthDesc),
+    aliases: aliases.sort((a, b) => byLengthDesc(a[0], b[0])),
+  };
+}
+
+/**
+ * Checks whether `text` starts with `prefix` as a whole word
+ * (followed by the end of the string or a non-letter).
+ *
+ * @param {string} text - Lowercased text to check
+ * @param {string} prefix - Lowercased prefix
+ * @returns {boolean}
+ */
+function startsWithWord(text, prefix) {
+  if (!text.startsWith(prefix)) return false;
+  const next = text.charAt(prefix.length);
+  return next === '' || !/\p{L}/u.test(next);
+}
+
+/**
+ * Extracts the brand from the start of a product name.
+ * Leading qualifiers ("Budget", "Best batch for", ...) are skipped first.
+ *
+ * @param {string} name - Cleaned product name
+ * @param {{ qualifiers: string[], aliases: [string, string][] }} matcher - From buildBrandMatcher()
+ * @returns {string|null} - Brand display name, or null if no alias matches
+ */
+function extractBrand(name, matcher) {
+  let text = name.toLowerCase().replace(/^[^\p{L}\p{N}]+/u, '');
+
+  // Strip qualifiers until none match (e.g. "Best budget" then nothing)
+  let stripped = true;
+  while (stripped) {
+    stripped = false;
+    for (const qualifier of matcher.qualifiers) {
+      if (startsWithWord(text, qualifier)) {
+        text = text.slice(qualifier.length).trimStart();
+        stripped = true;
+        break;
+      }
+    }
+  }
+
+  for (const [alias, brand] of matcher.aliases) {
+    if (startsWithWord(text, alias)) {
+      return brand;
+    }
+  }
+
+  return null;
+}
+
+export const normalizeStage = {
+  name: 'normalize',
+  description: 'Clean names, parse prices, extract brands',
+  source: import.meta.url,
+  imports: [new URL('../../../lib/product-schema.ts', import.meta.url).href],
+
+  inputs: () => [readTextIfExists(BRAND_ALIASES_PATH)],
+
+  /**
+   * @param {object[]} records - Raw records from the parse stage
+   * @returns {{ records: object[], stats: object }} - Normalized records
+   */
+  run(records) {
+    const brandMatcher = buildBrandMatcher(readJson(BRAND_ALIASES_PATH, { qualifiers: [], brands: {} }));
+
+    const normalized = records.map((record) => {
+      const name = cleanWhitespace(record.name);
+      return {
+        sheetCategory: record.sheetCategory ? cleanWhitespace(record.sheetCategory) : null,
+        name,
+        brand: extractBrand(name, brandMatcher),
+        price: parsePriceText(record.priceText),
+        priceText: record.priceText,
+        buyUrl: record.buyUrl,
+      };
+    });
+
+    const brandsFound = new Set(normalized.map((record) => record.brand).filter(Boolean));
+
+    return {
+      records: normalized,
+      stats: {
+        'Brands found': brandsFound.size,
+        'Without a brand': normalized.filter((record) => !record.brand).length,
+        'Unparseable prices': normalized.filter((record) => record.price === null).length,
+      },
+    };
+  },
+};
@@ -0,0 +1,176 @@
+/**
+ * Parse Stage
+ *
+ * Reads data/raw/Sheet1.csv (exported from Google Sheets) into one record
+ * per product row, tagged with the category header row above it.
+ *
+ * Features:
+ * - Handles multi-line quoted fields (product names with newlines)
+ * - Skips the header row, category headers and empty/invalid rows
+ *
+ * Fields are kept raw here; cleaning happens in the normalize stage.
+ */
+
+import { readFileSync } from 'fs';
+import { CSV_INPUT_PATH } from '../files.mjs';
+
+/**
+ * Parses CSV content handling multi-line quoted fields.
+ * This is necessary because Google Sheets exports can have product names
+ * that span multiple lines inside quoted fields.
+ *
+ * @param {string} csvContent - The entire CSV file content
+ * @returns {string[][]} - Array of rows, each row is an array of field values
+ */
+function parseCSV(csvContent) {
+  const rows = [];
+  let currentRow = [];
+  let currentField = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < csvContent.length; i++) {
+    const char = csvContent[i];
+    const nextChar = csvContent[i + 1];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (nextChar === '"') {
+          // Escaped quote ("") - add single quote and skip next
+          currentField += '"';
+          i++;
+        } else {
+          // End of quoted field
+          inQuotes = false;
+        }
+      } else {
+        // Regular character inside quotes (including newlines)
+        currentField += char;
+      }
+    } else {
+      if (char === '"') {
+        // Start of quoted field
+        inQuotes = true;
+      } else if (char === ',') {
+        // End of field
+        currentRow.push(currentField.trim());
+        currentField = '';
+      } else if (char === '\n' || (char === '\r' && nextChar === '\n')) {
+        // End of row
+        if (char === '\r') i++; // Skip \n in \r\n
+        currentRow.push(currentField.trim());
+        rows.push(currentRow);
+        currentRow = [];
+        currentField = '';
+      } else if (char !== '\r') {
+        // Regular character (skip standalone \r)
+        currentField += char;
+      }
+    }
+  }
+
+  // Handle last field/row if file doesn't end with newline
+  if (currentField || currentRow.length > 0) {
+    currentRow.push(currentField.trim());
+    rows.push(currentRow);
+  }
+
+  return rows;
+}
+
+/**
+ * Checks if a row is a category header.
+ * Category headers have text in column A and empty columns B-E.
+ * Example: "Jackets,,,,"
+ *
+ * @param {string[]} fields - Array of CSV fields
+ * @returns {boolean} - True if this is a category header row
+ */
+function isCategoryHeader(fields) {
+  const colA = fields[0] || '';
+  const colB = fields[1] || '';
+  const colC = fields[2] || '';
+  const colD = fields[3] || '';
+  const colE = fields[4] || '';
+
+  // Category header: has text in column A, all other columns empty
+  return (
+    colA.length > 0 &&
+    colB.length === 0 &&
+    colC.length === 0 &&
+    colD.length === 0 &&
+    colE.length === 0
+  );
+}
+
+/**
+ * Checks if a row represents a valid product.
+ *
+ * @param {string[]} fields - Array of CSV fields
+ * @returns {boolean} - True if the row is a valid product
+ */
+function isValidProductRow(fields) {
+  // CSV columns: ignoreImage (A), name (B), price (C), buyUrl (D), realBuyUrl (E)
+  // Indices:     0              1          2          3           4
+
+  const name = fields[1] || '';
+  const price = fields[2] || '';
+  const realBuyUrl = fields[4] || '';
+
+  // Valid if: name is not empty, price is not empty, realBuyUrl starts with http
+  return (
+    name.length > 0 &&
+    price.length > 0 &&
+    realBuyUrl.startsWith('http')
+  );
+}
+
+export const parseStage = {
+  name: 'parse',
+  description: 'Read product rows from data/raw/Sheet1.csv',
+  source: import.meta.url,
+
+  inputs: () => [readFileSync(CSV_INPUT_PATH, 'utf-8')],
+
+  /**
+   * @returns {{ records: object[], stats: object }} - One raw record per product row
+   */
+  run() {
+    const rows = parseCSV(readFileSync(CSV_INPUT_PATH, 'utf-8'));
+
+    // Skip header row (row 0), tracking the current category header
+    const records = [];
+    const sheetCategories = new Set();
+    let currentCategory = null;
+    let skippedCount = 0;
+
+    for (const fields of rows.slice(1)) {
+      if (isCategoryHeader(fields)) {
+        currentCategory = fields[0];
+        sheetCategories.add(currentCategory);
+        continue; // Don't count as skipped, it's a category marker
+      }
+
+      if (!isValidProductRow(fields)) {
+        skippedCount++;
+        continue;
+      }
+
+      records.push({
+        sheetCategory: currentCategory,
+        name: fields[1],
+        priceText: fields[2],
+        buyUrl: fields[4],
+      });
+    }
+
+    return {
+      records,
+      stats: {
+        'Rows parsed': rows.length,
+        'Product rows': records.length,
+        'Sheet categories': sheetCategories.size,
+        'Skipped rows (empty/invalid)': skippedCount,
+      },
+    };
+  },
+};
@@ -0,0 +1,172 @@
+/**
+ * Validate Stage
+ *
+ * Checks the invariants the site relies on before anything is written:
+ * - ids are unique positive integers derived from a recognized listing
+ * - an id that already exists never changes meaning: it must still point
+ *   at the same listing as in data/products.json, and must not reuse an
+ *   old id from data/id-redirects.json (links and id-keyed files such as
+ *   image-overrides.json and qc-reports.json would silently follow it)
+ * - an existing listing keeps its id, unless the move is recorded in
+ *   id-redirects.json (see scripts/migrate-product-ids.mjs)
+ * - every product matches the Product schema (lib/product-schema.ts)
+ * - slugs are unique and not also an old (redirected) slug
+ * - buyUrls are unique
+ *
+ * Any violation fails the build, leaving data/products.json untouched.
+ * Entries in image-overrides.json or qc-reports.json for ids no longer in
+ * the catalog are only counted, since removing a product is legitimate.
+ */
+
+import {
+  ID_REDIRECTS_PATH,
+  IMAGE_OVERRIDES_PATH,
+  QC_REPORTS_PATH,
+  readJson,
+  readTextIfExists,
+} from '../files.mjs';
+import { LISTING_SOURCES, getListingKey, parseListing } from '../listing.mjs';
+import { validateProduct } from '../../../lib/product-schema.ts';
+
+// Maximum problems listed in the error message
+const MAX_REPORTED_PROBLEMS = 20;
+
+/**
+ * Lists every invariant violation in the built catalog.
+ *
+ * @param {object[]} products - Built products
+ * @param {object[]} currentProducts - Products in data/products.json
+ * @param {Record<string, string>} slugRedirects - Old slug -> current slug
+ * @param {Record<string, number>} idRedirects - Old id -> current id
+ * @returns {string[]} - Problems, e.g. 'id 12: duplicate slug "air-max"'
+ */
+function findProblems(products, currentProducts, slugRedirects, idRedirects) {
+  const problems = [];
+  // Listing (or buyUrl) that claimed each id
+  const seenIds = new Map();
+  const seenSlugs = new Set();
+  const seenBuyUrls = new Set();
+
+  // Listing each existing id stood for, and the reverse
+  const currentListings = new Map();
+  const currentIds = new Map();
+  for (const product of currentProducts) {
+    const listing = parseListing(product.buyUrl);
+    if (!listing) continue;
+    currentListings.set(product.id, getListingKey(listing));
+    currentIds.set(getListingKey(listing), product.id);
+  }
+
+  for (const product of products) {
+    const label = product.id ? `id ${product.id}` : product.buyUrl;
+
+    if (product.id === null) {
+      problems.push(`${label}: buyUrl is not a recognized listing, so no id can be derived`);
+    }
+
+    const listing = parseListing(product.buyUrl);
+    const listingKey = listing ? getListingKey(listing) : product.buyUrl;
+    if (product.id !== null && seenIds.has(product.id)) {
+      problems.push(`${label}: duplicate id (also ${seenIds.get(product.id)})`);
+    }
+    seenIds.set(product.id, listingKey);
+
+    if (listing) {
+      const previousListing = currentListings.get(product.id);
+      const previousId = currentIds.get(listingKey);
+
+      if (previousListing && previousListing !== listingKey) {
+        problems.push(`${label}: id changed meaning (was ${previousListing}, now ${listingKey})`);
+      }
+      if (previousId !== undefined && previousId !== product.id && idRedirects[previousId] !== product.id) {
+        problems.push(`${label}: ${listingKey} had id ${previousId}; record the move in id-redirects.json`);
+      }
+    }
+    if (Object.hasOwn(idRedirects, String(product.id))) {
+      problems.push(`${label}: id is an old id in id-redirects.json (redirects to ${idRedirects[product.id]})`);
+    }
+
+    for (const issue of validateProduct(product)) {
+      if (issue.field !== 'id' || product.id !== null) {
+        problems.push(`${label}: ${issue.field} ${issue.message}`);
+      }
+    }
+
+    if (seenSlugs.has(product.slug)) {
+      problems.push(`${label}: duplicate slug "${product.slug}"`);
+    } else if (Object.hasOwn(slugRedirects, product.slug)) {
+      problems.push(`${label}: slug "${product.slug}" is also a redirect source`);
+    }
+    seenSlugs.add(product.slug);
+
+    if (seenBuyUrls.has(product.buyUrl)) {
+      problems.push(`${label}: duplicate buyUrl`);
+    }
+    seenBuyUrls.add(product.buyUrl);
+  }
+
+  return problems;
+}
+
+/**
+ * Counts entries of an id-keyed data file that match no product.
+ *
+ * @param {Record<string, unknown>} data - Parsed file (keys starting with "_" are comments)
+ * @param {Set<number>} ids - Product ids in the built catalog
+ * @returns {number} - Orphaned entries
+ */
+function countOrphans(data, ids) {
+  return Object.keys(data).filter((key) => !key.startsWith('_') && !ids.has(Number(key))).length;
+}
+
+export const validateStage = {
+  name: 'validate',
+  description: 'Check ids, slugs, URLs and categories',
+  source: import.meta.url,
+  imports: [
+    ...LISTING_SOURCES,
+    new URL('../../../lib/product-schema.ts', import.meta.url).href,
+  ],
+
+  inputs: (context) => [
+    context.current.text,
+    readTextIfExists(ID_REDIRECTS_PATH),
+    readTextIfExists(IMAGE_OVERRIDES_PATH),
+    readTextIfExists(QC_REPORTS_PATH),
+  ],
+
+  /**
+   * @param {object[]} records - Enriched records
+   * @param {object} context - Build context (current catalog, slug redirects from dedupe)
+   * @returns {{ records: object[], stats: object }} - Records, unchanged
+   * @throws {Error} - If any invariant is violated
+   */
+  run(records, context) {
+    const problems = findProblems(
+      records,
+      context.current.products,
+      context.artifacts.slugRedirects || {},
+      readJson(ID_REDIRECTS_PATH, {})
+    );
+
+    if (problems.length > 0) {
+      const listed = problems.slice(0, MAX_REPORTED_PROBLEMS).map((problem) => `   - ${problem}`);
+      const more = problems.length > MAX_REPORTED_PROBLEMS
+        ? [`   ... and ${problems.length - MAX_REPORTED_PROBLEMS} more`]
+        : [];
+      throw new Error([`Catalog validation failed (${problems.length} problems):`, ...listed, ...more].join('\n'));
+    }
+
+    const ids = new Set(records.map((record) => record.id));
+
+    return {
+      records,
+      stats: {
+        'Products checked': records.length,
+        'Problems': 0,
+        'Orphaned image overrides': countOrphans(readJson(IMAGE_OVERRIDES_PATH, {}), ids),
+        'Orphaned QC reports': countOrphans(readJson(QC_REPORTS_PATH, {}), ids),
+      },
+    };
+  },
+};
@@ -0,0 +1,99 @@
+/**
+ * Write Stage
+ *
+ * Shapes the records into the Product format (see lib/products.ts) and
+ * writes the catalog files:
+ * - data/products.json
+ * - data/slug-redirects.json (old slug -> current slug)
+ * - data/unbranded-products.json (for brand alias review)
+ * - data/uncategorized-products.json (for the /dev/categories triage page)
+ *
+ * In a dry run nothing is written. Never cached, since writing is the point.
+ */
+
+import { writeFileSync } from 'fs';
+import {
+  PRODUCTS_JSON_PATH,
+  SLUG_REDIRECTS_PATH,
+  UNBRANDED_OUTPUT_PATH,
+  UNCATEGORIZED_OUTPUT_PATH,
+} from '../files.mjs';
+
+/**
+ * Builds the stored product object, with the pipeline-only fields dropped
+ * and keys in the products.json order.
+ *
+ * @param {object} record - Validated record
+ * @returns {object} - Product object
+ */
+function toProduct(record) {
+  return {
+    id: record.id,
+    slug: record.slug,
+    name: record.name,
+    brand: record.brand,
+    price: record.price,
+    priceText: record.priceText,
+    category: record.category, // Mapped/inferred category, or null
+    categorySource: record.categorySource, // Which categorize step assigned it, or null
+    subcategory: record.subcategory, // From the category's keywords, or null
+    buyUrl: record.buyUrl,
+    imageUrl: record.imageUrl,
+    images: record.images, // Gallery, cover first
+    imageAssets: record.imageAssets, // Self-hosted variants, from scripts/optimize-images.mjs
+  };
+}
+
+export const writeStage = {
+  name: 'write',
+  description: 'Write products.json and review reports',
+  source: import.meta.url,
+  cacheable: false,
+
+  /**
+   * @param {object[]} records - Validated records
+   * @param {object} context - Build context (options, slug redirects)
+   * @returns {{ records: object[], stats: object }} - The products as written
+   */
+  run(records, context) {
+    const products = records.map(toProduct);
+
+    const uncategorizedProducts = records
+      .filter((record) => !record.category)
+      .map((record) => ({
+        id: record.id,
+        name: record.name,
+        originalCategory: record.sheetCategory,
+        suggestions: record.categorySuggestions || [],
+      }));
+    const unbrandedProducts = records
+      .filter((record) => !record.brand)
+      .map((record) => ({ id: record.id, name: record.name }));
+
+    const outputs = [
+      [PRODUCTS_JSON_PATH, JSON.stringify(products, null, 2)],
+      // Ends with a newline, like the other hand-maintained files in data/
+      [SLUG_REDIRECTS_PATH, `${JSON.stringify(context.artifacts.slugRedirects, null, 2)}\n`],
+      [UNBRANDED_OUTPUT_PATH, JSON.stringify(unbrandedProducts, null, 2)],
+      [UNCATEGORIZED_OUTPUT_PATH, JSON.stringify(uncategorizedProducts, null, 2)],
+    ];
+
+    const stats = {
+      'Products': products.length,
+      'Unbranded (add aliases to data/brand-aliases.json)': unbrandedProducts.length,
+      'Uncategorized (triage at /dev/categories)': uncategorizedProducts.length,
+    };
+
+    if (context.options.dryRun) {
+      stats['Dry run'] = `skipped writing ${outputs.length} files`;
+      return { records: products, stats };
+    }
+
+    for (const [path, contents] of outputs) {
+      writeFileSync(path, contents, 'utf-8');
+      console.log(`   💾 ${path}`);
+    }
+
+    return { records: products, stats };
+  },
+};
@@ -0,0 +1,323 @@
+/**
+ * Image Health Check
+ *
+ * Verifies every product image and reports the broken ones, so dead CDN
+ * links can be replaced before visitors notice.
+ *
+ * Checked for each product:
+ * - Every URL in `images` (and the cover `imageUrl`)
+ *   - Remote URLs are downloaded (or read from the .cache/images/ cache
+ *     shared with scripts/optimize-images.mjs)
+ *   - Local paths ("/...") must exist in public/
+ * - Every self-hosted variant listed in `imageAssets` must exist in public/
+ *
+ * Failures are classified as:
+ * - http-404 / http-error:   the server answered with an error status
+ * - network-error:           timeout, DNS or connection failure
+ * - wrong-content-type:      not an image (e.g. an HTML error page)
+ * - tiny-placeholder:        decodes, but is a tiny stand-in (e.g. 1x1, "image removed")
+ * - undecodable:             claims to be an image but sharp can't read it
+ * - missing-file:            local path or self-hosted variant not in public/
+ * - not-cached:              --offline and the image was never downloaded
+ *
+ * Outputs:
+ * - data/image-health-report.json: summary counts plus every failure
+ * - data/image-override-suggestions.json: per product, a healthy image from
+ *   its own gallery to use instead (same format as image-overrides.json;
+ *   copy entries across after a look). Products with no healthy image are
+ *   listed with null and need a manual fix.
+ *
+ * Usage:
+ *   node scripts/check-images.mjs              # Check online (downloads uncached images)
+ *   node scripts/check-images.mjs --offline    # Only check cached files and public/
+ *   node scripts/check-images.mjs --limit 100  # Only the first 100 products
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import sharp from 'sharp';
+
+// Get the directory of this script
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Paths
+const PROJECT_ROOT = join(__dirname, '..');
+const PRODUCTS_JSON_PATH = join(PROJECT_ROOT, 'data', 'products.json');
+const PUBLIC_DIR = join(PROJECT_ROOT, 'public');
+const CACHE_DIR = join(PROJECT_ROOT, '.cache', 'images');
+const REPORT_PATH = join(PROJECT_ROOT, 'data', 'image-health-report.json');
+const SUGGESTIONS_PATH = join(PROJECT_ROOT, 'data', 'image-override-suggestions.json');
+
+// Configuration
+const DOWNLOAD_TIMEOUT_MS = 15000;
+const CONCURRENT_REQUESTS = 5;
+const MIN_IMAGE_DIMENSION = 100; // Smaller than this in either direction = placeholder
+const MIN_IMAGE_BYTES = 1024; // Smaller files are stand-ins, not product photos
+
+/**
+ * Cache file name for a source URL (same scheme as optimize-images.mjs).
+ * @param {string} url - Source image URL
+ * @returns {string} - 16 hex characters
+ */
+function getImageKey(url) {
+  return createHash('sha1').update(url).digest('hex').slice(0, 16);
+}
+
+/**
+ * Classifies image bytes as healthy or a tiny placeholder.
+ * @param {Buffer} buffer - Image bytes
+ * @returns {Promise<{ status: string, detail?: string }>} - "ok", "tiny-placeholder" or "undecodable"
+ */
+async function inspectImage(buffer) {
+  if (buffer.length < MIN_IMAGE_BYTES) {
+    return { status: 'tiny-placeholder', detail: `${buffer.length} bytes` };
+  }
+
+  try {
+    const { width, height } = await sharp(buffer).metadata();
+    if (width < MIN_IMAGE_DIMENSION || height < MIN_IMAGE_DIMENSION) {
+      return { status: 'tiny-placeholder', detail: `${width}x${height}` };
+    }
+    return { status: 'ok' };
+  } catch (error) {
+    return { status: 'undecodable', detail: error.message };
+  }
+}
+
+/**
+ * Checks one remote image: the cached copy if there is one, otherwise the
+ * live URL (unless offline). Healthy downloads are added to the cache.
+ * @param {string} url - Remote image URL
+ * @param {boolean} offline - Don't touch the network
+ * @returns {Promise<{ status: string, detail?: string }>} - Classification
+ */
+async function checkRemoteImage(url, offline) {
+  const cachePath = join(CACHE_DIR, getImageKey(url));
+  if (existsSync(cachePath)) {
+    return inspectImage(readFileSync(cachePath));
+  }
+
+  if (offline) {
+    return { status: 'not-cached' };
+  }
+
+  let response;
+  try {
+    response = await fetch(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+        'Accept': 'image/avif,image/webp,image/*,*/*;q=0.8',
+      },
+      signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+    });
+  } catch (error) {
+    const detail = error.name === 'TimeoutError'
+      ? 'timeout'
+      : error.cause?.code || error.cause?.message || error.message;
+    return { status: 'network-error', detail };
+  }
+
+  if (response.status === 404) {
+    return { status: 'http-404' };
+  }
+  if (!response.ok) {
+    return { status: 'http-error', detail: `HTTP ${response.status}` };
+  }
+
+  const contentType = response.headers.get('content-type') || '';
+  if (!contentType.startsWith('image/')) {
+    return { status: 'wrong-content-type', detail: contentType || 'none' };
+  }
+
+  const buffer = Buffer.from(await response.arrayBuffer());
+  const result = await inspectImage(buffer);
+  if (result.status === 'ok') {
+    writeFileSync(cachePath, buffer);
+  }
+  return result;
+}
+
+/**
+ * Checks one image URL (remote or a local public/ path).
+ * @param {string} url - Image URL from products.json
+ * @param {boolean} offline - Don't touch the network
+ * @returns {Promise<{ status: string, detail?: string }>} - Classification
+ */
+async function checkImage(url, offline) {
+  if (url.startsWith('/')) {
+    const filePath = join(PUBLIC_DIR, url);
+    if (!existsSync(filePath)) {
+      return { status: 'missing-file', detail: `public${url}` };
+    }
+    return inspectImage(readFileSync(filePath));
+  }
+
+  return checkRemoteImage(url, offline);
+}
+
+/**
+ * Lists self-hosted variant files referenced by a product but missing on disk.
+ * @param {object} product - Product object
+ * @returns {string[]} - Missing public paths
+ */
+function findMissingVariants(product) {
+  const missing = [];
+  for (const asset of product.imageAssets || []) {
+    for (const width of asset.widths) {
+      for (const format of ['avif', 'webp']) {
+        const publicPath = `${asset.path}-${width}.${format}`;
+        if (!existsSync(join(PUBLIC_DIR, publicPath))) {
+          missing.push(publicPath);
+        }
+      }
+    }
+  }
+  return missing;
+}
+
+/**
+ * Checks every image of one product.
+ * @param {object} product - Product object
+ * @param {boolean} offline - Don't touch the network
+ * @returns {Promise<object>} - { id, name, images: [{ url, status, detail }], missingVariants }
+ */
+async function checkProduct(product, offline) {
+  const urls = [...new Set([product.imageUrl, ...(product.images || [])].filter(Boolean))];
+  const images = [];
+
+  for (const url of urls) {
+    images.push({ url, ...(await checkImage(url, offline)) });
+  }
+
+  return {
+    id: product.id,
+    name: product.name,
+    imageUrl: product.imageUrl,
+    images,
+    missingVariants: findMissingVariants(product),
+  };
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  console.log('🩺 Image Health Check');
+  console.log('=====================\n');
+
+  // Parse command line arguments
+  const args = process.argv.slice(2);
+  const offline = args.includes('--offline');
+  const limitIndex = args.indexOf('--limit');
+  const limit = limitIndex !== -1 ? parseInt(args[limitIndex + 1], 10) : undefined;
+
+  // Load products
+  let products;
+  try {
+    products = JSON.parse(readFileSync(PRODUCTS_JSON_PATH, 'utf-8'));
+    console.log(`📂 Loaded ${products.length} products from products.json`);
+  } catch (error) {
+    console.error('❌ Error loading products.json:', error.message);
+    process.exit(1);
+  }
+
+  mkdirSync(CACHE_DIR, { recursive: true });
+
+  const targetProducts = products.slice(0, limit);
+  console.log(`🎯 Checking ${targetProducts.length} products${offline ? ' (offline: cache and public/ only)' : ''}\n`);
+
+  // Check products in small concurrent batches
+  const results = [];
+  const startTime = Date.now();
+  for (let i = 0; i < targetProducts.length; i += CONCURRENT_REQUESTS) {
+    const chunk = targetProducts.slice(i, i + CONCURRENT_REQUESTS);
+    results.push(...(await Promise.all(chunk.map(product => checkProduct(product, offline)))));
+
+    const elapsed = ((Date.now() - startTime) / 1000).toFixed(0);
+    process.stdout.write(`\r📦 ${results.length}/${targetProducts.length} | ${elapsed}s`);
+  }
+
+  // Tally statuses and collect failures
+  const statusCounts = {};
+  const failures = [];
+  const suggestions = {};
+  let productsWithoutImage = 0;
+
+  for (const result of results) {
+    for (const image of result.images) {
+      statusCounts[image.status] = (statusCounts[image.status] || 0) + 1;
+    }
+
+    if (!result.imageUrl) {
+      productsWithoutImage++;
+    }
+
+    const brokenImages = result.images.filter(image => image.status !== 'ok');
+    if (brokenImages.length === 0 && result.missingVariants.length === 0) {
+      continue;
+    }
+
+    failures.push({
+      id: result.id,
+      name: result.name,
+      brokenImages,
+      missingVariants: result.missingVariants,
+    });
+
+    // Suggest a replacement cover when the current one is broken
+    const coverBroken = brokenImages.some(image => image.url === result.imageUrl);
+    if (coverBroken) {
+      const healthy = result.images.find(image => image.status === 'ok');
+      suggestions[result.id] = healthy ? healthy.url : null;
+    }
+  }
+
+  const report = {
+    generatedAt: new Date().toISOString(),
+    mode: offline ? 'offline' : 'online',
+    productsChecked: results.length,
+    productsWithoutImage,
+    productsWithProblems: failures.length,
+    statusCounts,
+    failures,
+  };
+
+  // Written by hand so the comments stay on top (JSON.stringify would
+  // put the numeric product ID keys first)
+  const suggestionEntries = [
+    ['_comment', 'Suggested entries for image-overrides.json, from scripts/check-images.mjs. Each broken cover maps to a healthy image from the same product\'s gallery.'],
+    ['_instructions', 'Review, then copy entries into image-overrides.json. null means no healthy image was found: open the buyUrl and add one by hand.'],
+    ...Object.entries(suggestions),
+  ];
+  const suggestionsJson = `{\n${suggestionEntries
+    .map(([key, value]) => `  ${JSON.stringify(key)}: ${JSON.stringify(value)}`)
+    .join(',\n')}\n}\n`;
+
+  console.log('\n\n📊 Results Summary');
+  console.log('==================');
+  for (const [status, count] of Object.entries(statusCounts).sort((a, b) => b[1] - a[1])) {
+    console.log(`${status === 'ok' ? '✅' : '❌'} ${status}: ${count}`);
+  }
+  console.log(`🚫 Products without any image: ${productsWithoutImage}`);
+  console.log(`⚠️  Products with problems: ${failures.length}`);
+  console.log(`💡 Override suggestions: ${Object.values(suggestions).filter(Boolean).length} (+${Object.values(suggestions).filter(value => value === null).length} need a manual fix)`);
+
+  // Save report and suggestions
+  try {
+    writeFileSync(REPORT_PATH, JSON.stringify(report, null, 2), 'utf-8');
+    writeFileSync(SUGGESTIONS_PATH, suggestionsJson, 'utf-8');
+    console.log(`\n💾 Report saved to ${REPORT_PATH}`);
+    console.log(`💾 Suggestions saved to ${SUGGESTIONS_PATH}`);
+  } catch (error) {
+    console.error('❌ Error saving report:', error.message);
+    process.exit(1);
+  }
+
+  console.log('🎉 Done!');
+}
+
+// Run
+main();
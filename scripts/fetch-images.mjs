@@ -9,8 +9,8 @@
  *   node scripts/fetch-images.mjs --resume  # Resume from last checkpoint
  * 
  * Features:
- * - Extracts main product image from Mulebuy pages
- * - Handles errors gracefully (sets imageUrl to null on failure)
+ * - Extracts main product image and gallery from Mulebuy pages
+ * - Handles errors gracefully (sets imageUrl to null, images to [] on failure)
  * - Rate limiting with 200ms delay between requests
  * - Progress logging every 50 products
  * - Checkpoint saving every 100 products for resume capability
@@ -64,6 +64,16 @@ const IMAGE_SELECTORS = [
   '.content img:first-child',
 ];
 
+/**
+ * Gallery image selectors. Every match is collected (in page order)
+ * after the main image.
+ */
+const GALLERY_SELECTORS = [
+  '.product-gallery img',
+  '.gallery-wrapper img',
+  '.product-thumbs img',
+];
+
 /**
  * Delay helper function.
  * @param {number} ms - Milliseconds to wait
@@ -167,21 +177,53 @@ function extractImageUrl(html, baseUrl) {
 }
 
 /**
- * Processes a single product to fetch its image.
+ * Extracts the ordered gallery from HTML, main image first.
+ * @param {string} html - The HTML content
+ * @param {string} baseUrl - The base URL for resolving relative paths
+ * @returns {string[]} - Unique image URLs (empty if no main image was found)
+ */
+function extractImageUrls(html, baseUrl) {
+  const mainUrl = extractImageUrl(html, baseUrl);
+  if (!mainUrl) {
+    return [];
+  }
+
+  const $ = cheerio.load(html);
+  const images = [mainUrl];
+
+  for (const selector of GALLERY_SELECTORS) {
+    for (const img of $(selector).toArray()) {
+      const src = $(img).attr('data-src') || $(img).attr('src');
+      if (!src || src.includes('placeholder') || src.includes('data:image')) {
+        continue;
+      }
+
+      const imageUrl = new URL(src, baseUrl).href;
+      if (!images.includes(imageUrl)) {
+        images.push(imageUrl);
+      }
+    }
+  }
+
+  return images;
+}
+
+/**
+ * Processes a single product to fetch its images.
  * @param {object} product - The product object
- * @returns {Promise<string|null>} - Image URL or null
+ * @returns {Promise<string[]>} - Image URLs, cover first (empty on failure)
  */
 async function processProduct(product) {
   if (!product.buyUrl) {
-    return null;
+    return [];
   }
   
   const html = await fetchHTML(product.buyUrl);
   if (!html) {
-    return null;
+    return [];
   }
   
-  return extractImageUrl(html, product.buyUrl);
+  return extractImageUrls(html, product.buyUrl);
 }
 
 /**
@@ -277,15 +319,17 @@ async function main() {
       console.log(`📦 Processing ${i + 1}/${endIndex} (${progress}%) - "${product.name.substring(0, 40)}..."`);
     }
     
-    // Fetch image
-    const imageUrl = await processProduct(product);
+    // Fetch images
+    const images = await processProduct(product);
     
-    if (imageUrl) {
-      products[i].imageUrl = imageUrl;
+    if (images.length > 0) {
+      products[i].imageUrl = images[0];
+      products[i].images = images;
       successCount++;
-      console.log(`  ✅ Found image: ${imageUrl.substring(0, 60)}...`);
+      console.log(`  ✅ Found ${images.length} image(s): ${images[0].substring(0, 60)}...`);
     } else {
       products[i].imageUrl = null;
+      products[i].images = [];
       failCount++;
     }
     
@@ -7,18 +7,23 @@
  * Strategy:
  * 1. Extract Weidian item ID from buyUrl (e.g., id=7611168397)
  * 2. Fetch Weidian product page directly
- * 3. Parse HTML to find main product image
- * 4. Update products.json with imageUrl
+ * 3. Parse HTML to find the main product image and the full gallery
+ * 4. Update products.json with imageUrl (cover) and images (gallery, in order)
  *
  * Usage:
- *   node scripts/fetch-weidian-images.mjs [start] [end]
+ *   node scripts/fetch-weidian-images.mjs [--galleries] [start] [end]
+ *   - --galleries: Also refetch products that have a cover but no gallery yet
  *   - start: First product index (default: 0)
  *   - end: Last product index (default: all)
  *
+ * `npm run catalog -- build --fetch-images` runs the same fetch for new
+ * products as part of the catalog build.
+ *
  * Examples:
- *   node scripts/fetch-weidian-images.mjs           # Process all
- *   node scripts/fetch-weidian-images.mjs 0 100    # Process first 100
- *   node scripts/fetch-weidian-images.mjs 100 200  # Process 100-200
+ *   node scripts/fetch-weidian-images.mjs                  # Process all without images
+ *   node scripts/fetch-weidian-images.mjs 0 100           # Process first 100
+ *   node scripts/fetch-weidian-images.mjs 100 200         # Process 100-200
+ *   node scripts/fetch-weidian-images.mjs --galleries     # Backfill galleries for all
  */
 
 import { readFileSync, writeFileSync } from 'fs';
@@ -95,36 +100,59 @@ async function fetchHtml(url) {
 }
 
 /**
- * Parses Weidian HTML to extract the main product image.
+ * Parses Weidian HTML to extract the product's gallery images.
  * 
- * Weidian embeds product data as JSON in a script tag. The main image is in:
+ * Weidian embeds product data as JSON in a script tag:
  * - "item_head": "https://..." (primary product image)
- * - "imgs": ["...", "..."] (array of gallery images)
+ * - "imgs": ["...", "..."] (array of gallery images, in listing order)
  * 
- * We also look for <link rel="preload" as="image"> tags as a fallback.
+ * The cover comes first, followed by the rest of the gallery. If neither
+ * is present we fall back to <link rel="preload" as="image"> tags, then to
+ * any large CDN image, and return just that one.
  * 
  * @param {string} html - HTML content
- * @returns {string|null} - Image URL or null
+ * @returns {string[]} - Unique image URLs, cover first (empty if none found)
  */
-function parseWeidianImage(html) {
+function parseWeidianImages(html) {
+  const images = [];
+
+  /**
+   * Adds a candidate URL if it looks like a product image and isn't listed yet.
+   * @param {string} url - Raw URL from the page
+   */
+  const addImage = (url) => {
+    if (!isValidProductImage(url)) return;
+    const cleaned = cleanImageUrl(url);
+    if (cleaned && !images.includes(cleaned)) {
+      images.push(cleaned);
+    }
+  };
+
   // Strategy 1: Extract from embedded JSON data (most reliable)
   // The JSON is often HTML-encoded, so we need to handle both regular and HTML-encoded quotes
   // Look for "item_head":"URL" pattern (regular or HTML-encoded)
   const itemHeadMatch = html.match(/(?:"|&#34;)item_head(?:"|&#34;)\s*:\s*(?:"|&#34;)(https?:\/\/[^"&#]+)/);
-  if (itemHeadMatch && isValidProductImage(itemHeadMatch[1])) {
-    return cleanImageUrl(itemHeadMatch[1]);
+  if (itemHeadMatch) {
+    addImage(itemHeadMatch[1]);
   }
 
-  // Strategy 2: Look for imgs array in JSON (handles HTML entities and regular quotes)
-  const imgsMatch = html.match(/(?:"|&#34;)imgs(?:"|&#34;)\s*:\s*\[\s*(?:"|&#34;)(https?:\/\/[^"&#]+)/);
-  if (imgsMatch && isValidProductImage(imgsMatch[1])) {
-    return cleanImageUrl(imgsMatch[1]);
+  // Strategy 2: Every URL in the imgs array (handles HTML entities and regular quotes)
+  const imgsMatch = html.match(/(?:"|&#34;)imgs(?:"|&#34;)\s*:\s*\[([^\]]*)\]/);
+  if (imgsMatch) {
+    for (const url of imgsMatch[1].match(/https?:\/\/[^"&#,\]]+/g) || []) {
+      addImage(url);
+    }
+  }
+
+  if (images.length > 0) {
+    return images;
   }
 
   // Strategy 3: Look for preload link tags with large images (750px or larger)
   const preloadMatch = html.match(/<link[^>]+rel="preload"[^>]+as="image"[^>]+href="(https?:\/\/[^"]+(?:_750_|_800_|_1000_|_1200_|_1600_)[^"]+)"/);
-  if (preloadMatch && isValidProductImage(preloadMatch[1])) {
-    return cleanImageUrl(preloadMatch[1]);
+  if (preloadMatch) {
+    addImage(preloadMatch[1]);
+    if (images.length > 0) return images;
   }
 
   // Strategy 4: Fallback - find any large product image from CDN
@@ -132,13 +160,12 @@ function parseWeidianImage(html) {
   const matches = html.match(cdnPattern);
   if (matches && matches.length > 0) {
     for (const url of matches) {
-      if (isValidProductImage(url)) {
-        return cleanImageUrl(url);
-      }
+      addImage(url);
+      if (images.length > 0) break;
     }
   }
 
-  return null;
+  return images;
 }
 
 /**
@@ -189,25 +216,25 @@ function cleanImageUrl(url) {
 }
 
 /**
- * Processes a single product - fetches its Weidian page and extracts image.
+ * Processes a single product - fetches its Weidian page and extracts images.
  * @param {object} product - Product object
- * @returns {Promise<string|null>} - Image URL or null
+ * @returns {Promise<string[]>} - Image URLs, cover first (empty on failure)
  */
 async function processProduct(product) {
   const weidianId = extractWeidianId(product.buyUrl);
   
   if (!weidianId) {
-    return null;
+    return [];
   }
 
   const weidianUrl = buildWeidianUrl(weidianId);
   const html = await fetchHtml(weidianUrl);
   
   if (!html) {
-    return null;
+    return [];
   }
 
-  return parseWeidianImage(html);
+  return parseWeidianImages(html);
 }
 
 /**
@@ -215,9 +242,9 @@ async function processProduct(product) {
  * @param {object[]} products - Array of products to process
  * @param {number} concurrency - Number of concurrent requests
  * @param {function} onProgress - Progress callback
- * @returns {Promise<Map<number, string>>} - Map of product ID to image URL
+ * @returns {Promise<Map<number, string[]>>} - Map of product ID to image URLs
  */
-async function processBatch(products, concurrency, onProgress) {
+export async function processBatch(products, concurrency, onProgress) {
   const results = new Map();
   let completed = 0;
 
@@ -226,15 +253,15 @@ async function processBatch(products, concurrency, onProgress) {
     const chunk = products.slice(i, i + concurrency);
     
     const promises = chunk.map(async (product) => {
-      const imageUrl = await processProduct(product);
-      return { id: product.id, imageUrl };
+      const images = await processProduct(product);
+      return { id: product.id, images };
     });
 
     const chunkResults = await Promise.all(promises);
     
     for (const result of chunkResults) {
-      if (result.imageUrl) {
-        results.set(result.id, result.imageUrl);
+      if (result.images.length > 0) {
+        results.set(result.id, result.images);
       }
       completed++;
       onProgress(completed, products.length, result);
@@ -257,8 +284,11 @@ async function main() {
   console.log('========================\n');
 
   // Parse command line arguments
-  const startIndex = parseInt(process.argv[2], 10) || 0;
-  const endIndex = process.argv[3] ? parseInt(process.argv[3], 10) : undefined;
+  const args = process.argv.slice(2);
+  const fetchGalleries = args.includes('--galleries');
+  const positional = args.filter(arg => !arg.startsWith('--'));
+  const startIndex = parseInt(positional[0], 10) || 0;
+  const endIndex = positional[1] ? parseInt(positional[1], 10) : undefined;
 
   // Load products
   let products;
@@ -270,12 +300,14 @@ async function main() {
     process.exit(1);
   }
 
-  // Filter to products without images
+  // Filter to products without images (or, with --galleries, without a gallery)
   const productsNeedingImages = products.filter(
-    p => !p.imageUrl || p.imageUrl === DEFAULT_IMAGE_PLACEHOLDER
+    p => !p.imageUrl ||
+      p.imageUrl === DEFAULT_IMAGE_PLACEHOLDER ||
+      (fetchGalleries && (p.images || []).length <= 1)
   );
 
-  console.log(`📊 ${productsNeedingImages.length} products need images`);
+  console.log(`📊 ${productsNeedingImages.length} products need ${fetchGalleries ? 'images or galleries' : 'images'}`);
 
   // Apply range filter
   const targetProducts = productsNeedingImages.slice(
@@ -296,7 +328,7 @@ async function main() {
     const percent = ((completed / total) * 100).toFixed(1);
     const elapsed = ((Date.now() - startTime) / 1000).toFixed(0);
     
-    if (result.imageUrl) {
+    if (result.images.length > 0) {
       successCount++;
       process.stdout.write(`\r✅ ${completed}/${total} (${percent}%) | ✓ ${successCount} | ✗ ${failCount} | ${elapsed}s`);
     } else {
@@ -316,18 +348,21 @@ async function main() {
 
   // Update products with found images
   let updatedCount = 0;
+  let galleryImageCount = 0;
   for (const product of products) {
-    const newImageUrl = imageResults.get(product.id);
-    if (newImageUrl) {
-      product.imageUrl = newImageUrl;
+    const newImages = imageResults.get(product.id);
+    if (newImages) {
+      product.imageUrl = newImages[0];
+      product.images = newImages;
       updatedCount++;
+      galleryImageCount += newImages.length;
     }
   }
 
   // Save updated products
   try {
     writeFileSync(PRODUCTS_JSON_PATH, JSON.stringify(products, null, 2), 'utf-8');
-    console.log(`\n💾 Updated ${updatedCount} products in products.json`);
+    console.log(`\n💾 Updated ${updatedCount} products in products.json (${galleryImageCount} gallery images)`);
   } catch (error) {
     console.error('❌ Error saving products.json:', error.message);
     process.exit(1);
@@ -338,6 +373,8 @@ async function main() {
   console.log('🎉 Done!');
 }
 
-// Run
-main();
+// Run when executed directly (the catalog build imports processBatch)
+if (process.argv[1] === __filename) {
+  main();
+}
 
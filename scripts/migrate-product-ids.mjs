@@ -0,0 +1,206 @@
+/**
+ * Product ID Migration
+ *
+ * One-time switch from sequential product IDs (1, 2, 3, ... in sheet order,
+ * which shifted whenever a row was inserted) to IDs derived from the
+ * platform item ID in each buyUrl (see scripts/catalog/listing.mjs).
+ *
+ * Rewrites every file keyed by product ID:
+ * - data/products.json
+ * - data/image-overrides.json and data/qc-reports.json (entry keys)
+ * - data/uncategorized-products.json and data/unbranded-products.json
+ *
+ * and records old -> new IDs in data/id-redirects.json, so saved lists,
+ * /saved?ids= and /compare?ids= links made before the switch keep working
+ * (see resolveProductId() in lib/products.ts).
+ *
+ * Also moves products from an earlier derivation to the current one (IDs
+ * used to be the bare item ID on every platform; Taobao and 1688 IDs now
+ * sit in their own block, see deriveProductId()), recording the move the
+ * same way.
+ *
+ * Safe to re-run: products whose ID is already derived are left alone.
+ * Reports from scripts/check-images.mjs are not rewritten; re-run it.
+ *
+ * Usage:
+ *   npx tsx scripts/migrate-product-ids.mjs            # Migrate
+ *   npx tsx scripts/migrate-product-ids.mjs --dry-run  # Show what would change
+ */
+
+import { writeFileSync } from 'fs';
+import {
+  ID_REDIRECTS_PATH,
+  IMAGE_OVERRIDES_PATH,
+  PRODUCTS_JSON_PATH,
+  QC_REPORTS_PATH,
+  UNBRANDED_OUTPUT_PATH,
+  UNCATEGORIZED_OUTPUT_PATH,
+  readJson,
+} from './catalog/files.mjs';
+import { deriveProductId, parseListing } from './catalog/listing.mjs';
+
+// Header written at the top of id-redirects.json
+const ID_REDIRECTS_COMMENTS = [
+  ['_comment', 'Old product ID -> current product ID, written by scripts/migrate-product-ids.mjs. lib/products.ts follows these so links and saved lists from before an ID change keep working.'],
+  ['_instructions', 'Do not edit by hand. The catalog build fails if a product ever takes an ID listed here.'],
+];
+
+/**
+ * Serializes an ID-keyed object with its "_" keys first.
+ * Written by hand because JSON.stringify puts numeric keys first.
+ *
+ * @param {[string, *][]} entries - Key/value pairs in output order
+ * @returns {string} - Pretty-printed JSON
+ */
+function formatKeyedJson(entries) {
+  const lines = entries.map(
+    ([key, value]) => `  ${JSON.stringify(key)}: ${JSON.stringify(value, null, 2).replace(/\n/g, '\n  ')}`
+  );
+  return `{\n${lines.join(',\n')}\n}\n`;
+}
+
+/**
+ * Re-keys an ID-keyed data file.
+ *
+ * @param {Record<string, *>} data - Parsed file
+ * @param {Map<number, number>} idMap - Old ID -> new ID
+ * @returns {{ entries: [string, *][], changed: number }} - Comments first, then entries
+ */
+function remapKeyedFile(data, idMap) {
+  const comments = [];
+  const entries = [];
+  let changed = 0;
+
+  for (const [key, value] of Object.entries(data)) {
+    if (key.startsWith('_')) {
+      comments.push([key, value]);
+    } else if (idMap.has(Number(key))) {
+      entries.push([String(idMap.get(Number(key))), value]);
+      changed++;
+    } else {
+      entries.push([key, value]);
+    }
+  }
+
+  return { entries: [...comments, ...entries], changed };
+}
+
+/**
+ * Main function
+ */
+function main() {
+  console.log('🔢 Product ID Migration');
+  console.log('=======================\n');
+
+  const dryRun = process.argv.slice(2).includes('--dry-run');
+
+  // Load products
+  let products;
+  try {
+    products = readJson(PRODUCTS_JSON_PATH, []);
+    console.log(`📂 Loaded ${products.length} products from products.json`);
+  } catch (error) {
+    console.error('❌ Error loading products.json:', error.message);
+    process.exit(1);
+  }
+
+  // Derive every new ID before touching anything
+  const idMap = new Map(); // old ID -> new ID
+  const claimed = new Map(); // new ID -> old ID
+  const problems = [];
+
+  for (const product of products) {
+    const listing = parseListing(product.buyUrl);
+    const newId = listing ? deriveProductId(listing) : null;
+
+    if (newId === null) {
+      problems.push(`id ${product.id}: no platform item id in ${product.buyUrl}`);
+      continue;
+    }
+    if (claimed.has(newId)) {
+      problems.push(`id ${product.id}: derives ${newId}, already taken by id ${claimed.get(newId)}`);
+      continue;
+    }
+
+    claimed.set(newId, product.id);
+    if (newId !== product.id) {
+      idMap.set(product.id, newId);
+    }
+  }
+
+  if (problems.length > 0) {
+    console.error(`❌ Cannot migrate, ${problems.length} products have no usable id:`);
+    problems.slice(0, 20).forEach((problem) => console.error(`   - ${problem}`));
+    process.exit(1);
+  }
+
+  if (idMap.size === 0) {
+    console.log('✅ Every product already has a derived id, nothing to migrate');
+    return;
+  }
+
+  console.log(`🔁 ${idMap.size} products get a new id`);
+  const samples = [...idMap].slice(0, 3).map(([from, to]) => `${from} → ${to}`);
+  console.log(`   e.g. ${samples.join(', ')}`);
+
+  // Old -> new IDs, with existing redirects pointed at the new IDs
+  const redirects = readJson(ID_REDIRECTS_PATH, {});
+  for (const [from, to] of Object.entries(redirects)) {
+    if (!from.startsWith('_') && idMap.has(to)) {
+      redirects[from] = idMap.get(to);
+    }
+  }
+  for (const [from, to] of idMap) {
+    redirects[from] = to;
+  }
+  const redirectEntries = [
+    ...ID_REDIRECTS_COMMENTS,
+    ...Object.entries(redirects).filter(([key]) => !key.startsWith('_')),
+  ];
+
+  // Remap the ID-keyed files
+  const outputs = [
+    [PRODUCTS_JSON_PATH, JSON.stringify(products.map((product) => ({
+      ...product,
+      id: idMap.get(product.id) ?? product.id,
+    })), null, 2)],
+    [ID_REDIRECTS_PATH, formatKeyedJson(redirectEntries)],
+  ];
+
+  for (const path of [IMAGE_OVERRIDES_PATH, QC_REPORTS_PATH]) {
+    const { entries, changed } = remapKeyedFile(readJson(path, {}), idMap);
+    console.log(`🗂️  ${path}: ${changed} entries re-keyed`);
+    if (changed > 0) {
+      outputs.push([path, formatKeyedJson(entries)]);
+    }
+  }
+
+  for (const path of [UNCATEGORIZED_OUTPUT_PATH, UNBRANDED_OUTPUT_PATH]) {
+    const list = readJson(path, null);
+    if (list) {
+      const remapped = list.map((item) => ({ ...item, id: idMap.get(item.id) ?? item.id }));
+      outputs.push([path, JSON.stringify(remapped, null, 2)]);
+    }
+  }
+
+  if (dryRun) {
+    console.log(`\n🧪 Dry run: would write ${outputs.length} files`);
+    outputs.forEach(([path]) => console.log(`   ${path}`));
+    return;
+  }
+
+  try {
+    for (const [path, contents] of outputs) {
+      writeFileSync(path, contents, 'utf-8');
+      console.log(`💾 ${path}`);
+    }
+  } catch (error) {
+    console.error('❌ Error writing files:', error.message);
+    process.exit(1);
+  }
+
+  console.log('\n🎉 Migration complete! Check with: npm run catalog -- build --dry-run');
+}
+
+// Run
+main();
@@ -0,0 +1,297 @@
+/**
+ * Product Image Optimizer
+ *
+ * Self-hosts product images so pages don't depend on hot-linking the
+ * marketplace CDN (si.geilicdn.com), which regularly breaks or slows down.
+ *
+ * For every image in each product's `images` gallery (or its cover):
+ * 1. Download the original into a local cache (.cache/images/, gitignored),
+ *    so re-runs and new sizes never hit the CDN again
+ * 2. Generate AVIF and WebP variants at several widths into
+ *    public/images/products/ (file names are a hash of the source URL)
+ * 3. Generate a tiny blur placeholder
+ * 4. Record dimensions, widths and the placeholder in products.json
+ *    (`imageAssets`, see lib/images.ts)
+ *
+ * Existing variants are skipped, so the script is safe to re-run after
+ * fetching new images. Images that fail to download keep any asset they
+ * already had; the app falls back to the source URL for the rest.
+ *
+ * Runs before every `npm run build` (the "prebuild" script), so a deploy
+ * always serves self-hosted variants. The variants are build output and not
+ * committed; file names are a hash of the source URL, so `imageAssets` in a
+ * committed products.json always names the files a build regenerates.
+ * products.json is only rewritten when its assets changed.
+ *
+ * Usage:
+ *   node scripts/optimize-images.mjs               # Process all images
+ *   node scripts/optimize-images.mjs --covers      # Only the first image of each product
+ *   node scripts/optimize-images.mjs --limit 50    # Only the first 50 products (for testing)
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import sharp from 'sharp';
+
+// Get the directory of this script
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Paths
+const PROJECT_ROOT = join(__dirname, '..');
+const PRODUCTS_JSON_PATH = join(PROJECT_ROOT, 'data', 'products.json');
+const CACHE_DIR = join(PROJECT_ROOT, '.cache', 'images');
+const OUTPUT_DIR = join(PROJECT_ROOT, 'public', 'images', 'products');
+const PUBLIC_PATH = '/images/products';
+
+// Configuration
+const VARIANT_WIDTHS = [320, 640, 960, 1280]; // Card, 2x card / detail, 2x detail
+const AVIF_QUALITY = 50;
+const WEBP_QUALITY = 72;
+const BLUR_WIDTH = 16; // Placeholder width in pixels (inlined as base64)
+const DOWNLOAD_TIMEOUT_MS = 15000;
+const CONCURRENT_PRODUCTS = 4;
+
+/**
+ * Short, stable file name for a source URL.
+ * @param {string} url - Source image URL
+ * @returns {string} - 16 hex characters
+ */
+function getImageKey(url) {
+  return createHash('sha1').update(url).digest('hex').slice(0, 16);
+}
+
+/**
+ * Returns the original image bytes, from the cache or the network.
+ * @param {string} url - Source image URL
+ * @returns {Promise<Buffer|null>} - Image bytes or null if the download failed
+ */
+async function loadOriginal(url) {
+  const cachePath = join(CACHE_DIR, getImageKey(url));
+  if (existsSync(cachePath)) {
+    return readFileSync(cachePath);
+  }
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+        'Accept': 'image/avif,image/webp,image/*,*/*;q=0.8',
+      },
+      signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+    });
+
+    const contentType = response.headers.get('content-type') || '';
+    if (!response.ok || !contentType.startsWith('image/')) {
+      return null;
+    }
+
+    const buffer = Buffer.from(await response.arrayBuffer());
+    writeFileSync(cachePath, buffer);
+    return buffer;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Picks the variant widths for an image: every configured width below the
+ * original, plus the original width itself when it's smaller than the
+ * largest configured width (never upscales).
+ * @param {number} originalWidth - Source width in pixels
+ * @returns {number[]} - Ascending widths
+ */
+function getVariantWidths(originalWidth) {
+  const widths = VARIANT_WIDTHS.filter(width => width < originalWidth);
+  const largest = Math.min(originalWidth, VARIANT_WIDTHS[VARIANT_WIDTHS.length - 1]);
+  if (!widths.includes(largest)) {
+    widths.push(largest);
+  }
+  return widths;
+}
+
+/**
+ * Generates the variants and placeholder for one image.
+ * @param {string} url - Source image URL
+ * @returns {Promise<object|null>} - ImageAsset (see lib/images.ts) or null on failure
+ */
+async function optimizeImage(url) {
+  const original = await loadOriginal(url);
+  if (!original) {
+    return null;
+  }
+
+  try {
+    const key = getImageKey(url);
+    const metadata = await sharp(original).metadata();
+
+    // EXIF orientations 5-8 are rotated 90°, so width and height swap
+    const rotated = (metadata.orientation || 1) >= 5;
+    const width = rotated ? metadata.height : metadata.width;
+    const height = rotated ? metadata.width : metadata.height;
+    const widths = getVariantWidths(width);
+
+    for (const variantWidth of widths) {
+      const basePath = join(OUTPUT_DIR, `${key}-${variantWidth}`);
+
+      if (!existsSync(`${basePath}.avif`)) {
+        await sharp(original).rotate().resize({ width: variantWidth })
+          .avif({ quality: AVIF_QUALITY })
+          .toFile(`${basePath}.avif`);
+      }
+      if (!existsSync(`${basePath}.webp`)) {
+        await sharp(original).rotate().resize({ width: variantWidth })
+          .webp({ quality: WEBP_QUALITY })
+          .toFile(`${basePath}.webp`);
+      }
+    }
+
+    const blur = await sharp(original).rotate().resize({ width: BLUR_WIDTH })
+      .webp({ quality: 40 })
+      .toBuffer();
+
+    return {
+      src: url,
+      path: `${PUBLIC_PATH}/${key}`,
+      width,
+      height,
+      widths,
+      blurDataURL: `data:image/webp;base64,${blur.toString('base64')}`,
+    };
+  } catch {
+    // Not a decodable image (e.g. an HTML error page served with 200)
+    return null;
+  }
+}
+
+/**
+ * Lists the source images to process for a product.
+ * @param {object} product - Product object
+ * @param {boolean} coversOnly - Only the first image
+ * @returns {string[]} - Remote image URLs
+ */
+function getSourceImages(product, coversOnly) {
+  const images = product.images && product.images.length > 0
+    ? product.images
+    : [product.imageUrl];
+
+  return images
+    .filter(url => url && /^https?:\/\//.test(url))
+    .slice(0, coversOnly ? 1 : undefined);
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  console.log('🖼️  Product Image Optimizer');
+  console.log('==========================\n');
+
+  // Parse command line arguments
+  const args = process.argv.slice(2);
+  const coversOnly = args.includes('--covers');
+  const limitIndex = args.indexOf('--limit');
+  const limit = limitIndex !== -1 ? parseInt(args[limitIndex + 1], 10) : undefined;
+
+  // Load products
+  let products;
+  let originalText;
+  try {
+    originalText = readFileSync(PRODUCTS_JSON_PATH, 'utf-8');
+    products = JSON.parse(originalText);
+    console.log(`📂 Loaded ${products.length} products from products.json`);
+  } catch (error) {
+    console.error('❌ Error loading products.json:', error.message);
+    process.exit(1);
+  }
+
+  mkdirSync(CACHE_DIR, { recursive: true });
+  mkdirSync(OUTPUT_DIR, { recursive: true });
+
+  const targetProducts = products.slice(0, limit);
+  console.log(`🎯 Processing ${targetProducts.length} products${coversOnly ? ' (covers only)' : ''}\n`);
+
+  // Track stats
+  let optimizedCount = 0;
+  let keptCount = 0;
+  let failCount = 0;
+  let completed = 0;
+  const startTime = Date.now();
+
+  /**
+   * Optimizes every image of one product and records the assets.
+   * @param {object} product - Product object (updated in place)
+   */
+  const processProduct = async (product) => {
+    const previousAssets = new Map((product.imageAssets || []).map(asset => [asset.src, asset]));
+    const assets = [];
+
+    for (const url of getSourceImages(product, coversOnly)) {
+      const asset = await optimizeImage(url);
+      if (asset) {
+        assets.push(asset);
+        optimizedCount++;
+      } else if (previousAssets.has(url)) {
+        // Download failed, but the variants from an earlier run still exist
+        assets.push(previousAssets.get(url));
+        keptCount++;
+      } else {
+        failCount++;
+      }
+    }
+
+    // --covers leaves previously optimized gallery images in place
+    if (coversOnly) {
+      for (const [src, asset] of previousAssets) {
+        if (!assets.some(a => a.src === src)) assets.push(asset);
+      }
+    }
+
+    product.imageAssets = assets;
+  };
+
+  // Process products in small concurrent batches
+  for (let i = 0; i < targetProducts.length; i += CONCURRENT_PRODUCTS) {
+    const chunk = targetProducts.slice(i, i + CONCURRENT_PRODUCTS);
+    await Promise.all(chunk.map(processProduct));
+
+    completed += chunk.length;
+    const percent = ((completed / targetProducts.length) * 100).toFixed(1);
+    const elapsed = ((Date.now() - startTime) / 1000).toFixed(0);
+    process.stdout.write(`\r📦 ${completed}/${targetProducts.length} (${percent}%) | ✓ ${optimizedCount} | ✗ ${failCount} | ${elapsed}s`);
+  }
+
+  // Products never processed keep a well-formed (possibly empty) list
+  for (const product of products) {
+    product.imageAssets = product.imageAssets || [];
+  }
+
+  console.log('\n\n📊 Results Summary');
+  console.log('==================');
+  console.log(`✅ Optimized: ${optimizedCount} images`);
+  console.log(`♻️  Kept from earlier run: ${keptCount} (download failed)`);
+  console.log(`❌ Failed: ${failCount} (served from the source URL)`);
+
+  // Save updated products (untouched when nothing changed, e.g. offline)
+  const output = JSON.stringify(products, null, 2);
+  try {
+    if (output === originalText) {
+      console.log('\n✅ Image assets unchanged, products.json left as is');
+    } else {
+      writeFileSync(PRODUCTS_JSON_PATH, output, 'utf-8');
+      console.log(`\n💾 Saved image assets to products.json`);
+    }
+  } catch (error) {
+    console.error('❌ Error saving products.json:', error.message);
+    process.exit(1);
+  }
+
+  const totalTime = ((Date.now() - startTime) / 1000 / 60).toFixed(1);
+  console.log(`\n⏱️  Total time: ${totalTime} minutes`);
+  console.log('🎉 Done!');
+}
+
+// Run
+main();